@@ -0,0 +1,218 @@
+import { createHash } from 'crypto';
+import {
+  AIAnalysis,
+  AcceptAnalysis,
+  AIClient,
+  AIUsage,
+  Challenge,
+  PredictionContext,
+  DIRECTION,
+  DURATIONS,
+} from '../types';
+import { Logger, nowMs, nowSeconds } from '../utils';
+
+// Market data is compared at this resolution, so small moves between ticks still hit the cache
+const PRICE_STEP = 0.001; // 0.1% price buckets
+const CHANGE_STEP = 0.1; // % points
+const EXPIRY_STEP = 600; // s
+
+export interface PredictionCacheStats {
+  requests: number;
+  hits: number; // = API calls saved
+  misses: number; // = API calls made
+  savedInputTokens: number;
+  savedOutputTokens: number;
+  entries: number;
+}
+
+interface CacheEntry {
+  value: Promise<{ usage?: AIUsage }>;
+  expiresAt: number; // ms
+}
+
+/**
+ * Smallest standard duration that covers the given one, so challenges of
+ * similar length share a prediction ('any' when no duration applies)
+ */
+export function durationBucket(seconds?: number): string {
+  if (seconds === undefined) return 'any';
+  const bucket = DURATIONS.find((d) => seconds <= d.value) ?? DURATIONS[DURATIONS.length - 1];
+  return String(bucket.value);
+}
+
+function step(value: number | undefined, size: number): number | null {
+  return value === undefined ? null : Math.round(value / size);
+}
+
+/**
+ * The market data behind a prompt at cache resolution: price in 0.1% buckets,
+ * changes and volatility to 0.1 points, indicators as their signals
+ */
+export function marketView(context: PredictionContext) {
+  const { currentPrice: price, indicators, priceHistory } = context;
+  const first = priceHistory[0]?.price;
+
+  return {
+    asset: context.asset,
+    price: price > 0 ? Math.round(Math.log(price) / Math.log(1 + PRICE_STEP)) : 0,
+    changes: [context.change1h, context.change24h, context.change7d, context.change30d].map((c) => step(c, CHANGE_STEP)),
+    history: first ? step(((price - first) / first) * 100, CHANGE_STEP) : null,
+    volatility: step(context.volatility24h, CHANGE_STEP),
+    position: step(context.pricePosition, 5),
+    indicators: indicators && {
+      rsi: step(indicators.rsi14, 5),
+      trend1h: indicators.trend1h,
+      trend24h: indicators.trend24h,
+      momentum: indicators.momentum,
+      aboveSma20: price > indicators.sma20,
+      aboveSma50: price > indicators.sma50,
+      emaCross: indicators.ema12 > indicators.ema26,
+    },
+    record: [context.performance.wins, context.performance.losses, context.performance.ties],
+  };
+}
+
+/**
+ * Hash of the market data behind a prompt, at cache resolution (see marketView),
+ * so contexts rebuilt on later ticks share it until the market really moves
+ */
+export function contextHash(context: PredictionContext): string {
+  return createHash('sha1').update(JSON.stringify(marketView(context))).digest('hex').slice(0, 16);
+}
+
+/**
+ * TTL cache of AI responses keyed by asset, context hash and duration bucket.
+ * Concurrent requests for the same key share one in-flight call, and failed
+ * calls are not cached.
+ */
+export class PredictionCache {
+  private entries = new Map<string, CacheEntry>();
+  private ttlMs: number;
+  private logger?: Logger;
+  private counters = { requests: 0, hits: 0, misses: 0, savedInputTokens: 0, savedOutputTokens: 0 };
+
+  constructor(ttlMs: number, logger?: Logger) {
+    this.ttlMs = ttlMs;
+    this.logger = logger;
+  }
+
+  static key(context: PredictionContext, duration?: number, ...extra: (string | number)[]): string {
+    return [context.asset, contextHash(context), durationBucket(duration), ...extra].join('|');
+  }
+
+  async get<T extends { usage?: AIUsage }>(key: string, compute: () => Promise<T>): Promise<T> {
+    const now = nowMs();
+    this.counters.requests++;
+    this.prune(now);
+
+    const cached = this.entries.get(key);
+    if (cached) {
+      this.counters.hits++;
+      const value = await cached.value;
+      this.counters.savedInputTokens += value.usage?.inputTokens ?? 0;
+      this.counters.savedOutputTokens += value.usage?.outputTokens ?? 0;
+      this.logger?.debug('AI cache hit', { key, savedCalls: this.counters.hits });
+
+      // Hits cost nothing, so they carry no usage
+      const { usage: _usage, ...rest } = value;
+      return rest as T;
+    }
+
+    this.counters.misses++;
+    const value = compute();
+    this.entries.set(key, { value, expiresAt: now + this.ttlMs });
+    value.catch(() => this.entries.delete(key));
+    return value;
+  }
+
+  /**
+   * A finished, unexpired entry without counting a request (undefined if none)
+   */
+  async peek<T>(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt <= nowMs()) return undefined;
+    return (entry.value as Promise<T>).catch(() => undefined);
+  }
+
+  /**
+   * Count a call answered from another entry (see CachingAIClient.evaluateAccept)
+   */
+  recordReuse(): void {
+    this.counters.requests++;
+    this.counters.hits++;
+  }
+
+  stats(): PredictionCacheStats {
+    return { ...this.counters, entries: this.entries.size };
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  private prune(now: number): void {
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) this.entries.delete(key);
+    }
+  }
+}
+
+/**
+ * AI client that answers repeated questions from a PredictionCache.
+ * Predictions are shared per asset and market view. Accept evaluations are
+ * cached per challenge (the prompt shows its id, creator, stake, expiry and
+ * drift), and a cached prediction of the opposite direction over the
+ * challenge's duration declines it without a call. A NEUTRAL one has no
+ * view on our side, so the challenge is still evaluated.
+ */
+export class CachingAIClient implements AIClient {
+  readonly cache: PredictionCache;
+  private inner: AIClient;
+
+  constructor(inner: AIClient, cache: PredictionCache) {
+    this.inner = inner;
+    this.cache = cache;
+  }
+
+  async analyze(prompt: string, context?: PredictionContext): Promise<AIAnalysis> {
+    if (!context) return this.inner.analyze(prompt, context);
+    return this.cache.get(PredictionCache.key(context, undefined, 'predict'), () =>
+      this.inner.analyze(prompt, context)
+    );
+  }
+
+  async evaluateAccept(prompt: string, context?: PredictionContext, challenge?: Challenge): Promise<AcceptAnalysis> {
+    if (!context || !challenge) return this.inner.evaluateAccept(prompt, context, challenge);
+    const side = challenge.direction === DIRECTION.UP ? 'DOWN' : 'UP';
+
+    const prediction = await this.cache.peek<AIAnalysis>(PredictionCache.key(context, undefined, 'predict'));
+    if (
+      prediction &&
+      prediction.direction !== 'NEUTRAL' &&
+      prediction.direction !== side &&
+      durationBucket(prediction.recommendedDuration) === durationBucket(challenge.duration)
+    ) {
+      this.cache.recordReuse();
+      return {
+        accept: false,
+        confidence: 100 - prediction.confidence,
+        reasoning: `Cached ${prediction.direction} prediction for ${context.asset}: ${prediction.reasoning}`,
+      };
+    }
+
+    const expiresIn = Math.max(0, challenge.expires_at - nowSeconds());
+    return this.cache.get(
+      PredictionCache.key(
+        context,
+        challenge.duration,
+        'accept',
+        side,
+        challenge.id,
+        challenge.creator,
+        challenge.amount,
+        Math.floor(expiresIn / EXPIRY_STEP)
+      ),
+      () => this.inner.evaluateAccept(prompt, context, challenge)
+    );
+  }
+}
@@ -0,0 +1,143 @@
+import { CalibrationSample } from '../types';
+
+// Calibration of AI confidence against settled outcomes: an isotonic
+// (monotone) fit of stated confidence to realized win rate.
+
+// Pseudo-battles per confidence level, at the stated confidence, so a
+// handful of results can't swing the fit to 0% or 100%
+const PRIOR_WEIGHT = 2;
+
+// A row of the reliability table: battles whose stated confidence fell in [from, to)
+export interface ReliabilityRow {
+  from: number;
+  to: number;
+  battles: number;
+  meanConfidence: number;
+  winRate: number; // %
+  calibrated: number; // fitted win probability at meanConfidence, %
+}
+
+interface Block {
+  battles: number;
+  wins: number;
+  confidenceSum: number;
+  priorWeight: number;
+  priorWins: number;
+}
+
+function rate(block: Block): number {
+  return (block.wins + block.priorWins) / (block.battles + block.priorWeight);
+}
+
+/**
+ * Maps stated confidence to the win probability it has actually delivered.
+ * Until there are minSamples settled battles the model is the identity.
+ */
+export class CalibrationModel {
+  readonly samples: number;
+  readonly active: boolean;
+  private points: { confidence: number; probability: number }[];
+
+  private constructor(samples: number, points: { confidence: number; probability: number }[], active: boolean) {
+    this.samples = samples;
+    this.points = points;
+    this.active = active;
+  }
+
+  /**
+   * Fit by pool-adjacent-violators: group battles by confidence, then merge
+   * neighbouring groups until the win rate never falls as confidence rises
+   */
+  static fit(samples: CalibrationSample[], minSamples: number): CalibrationModel {
+    if (samples.length === 0 || samples.length < minSamples) {
+      return new CalibrationModel(samples.length, [], false);
+    }
+
+    const byConfidence = new Map<number, Block>();
+    for (const { confidence, won } of samples) {
+      const block = byConfidence.get(confidence) ?? {
+        battles: 0,
+        wins: 0,
+        confidenceSum: 0,
+        priorWeight: PRIOR_WEIGHT,
+        priorWins: (PRIOR_WEIGHT * confidence) / 100,
+      };
+      block.battles++;
+      block.wins += won ? 1 : 0;
+      block.confidenceSum += confidence;
+      byConfidence.set(confidence, block);
+    }
+
+    const stack: Block[] = [];
+    for (const [, block] of [...byConfidence.entries()].sort((a, b) => a[0] - b[0])) {
+      stack.push(block);
+      while (stack.length > 1 && rate(stack[stack.length - 2]) > rate(stack[stack.length - 1])) {
+        const last = stack.pop()!;
+        const prev = stack.pop()!;
+        stack.push({
+          battles: prev.battles + last.battles,
+          wins: prev.wins + last.wins,
+          confidenceSum: prev.confidenceSum + last.confidenceSum,
+          priorWeight: prev.priorWeight + last.priorWeight,
+          priorWins: prev.priorWins + last.priorWins,
+        });
+      }
+    }
+
+    const points = stack.map((block) => ({
+      confidence: block.confidenceSum / block.battles,
+      probability: rate(block) * 100,
+    }));
+    return new CalibrationModel(samples.length, points, true);
+  }
+
+  /**
+   * Calibrated win probability (0-100) for a stated confidence, interpolated
+   * between the fitted groups and flat beyond the first and last
+   */
+  calibrate(confidence: number): number {
+    if (!this.active) return confidence;
+
+    const points = this.points;
+    if (confidence <= points[0].confidence) return points[0].probability;
+    const last = points[points.length - 1];
+    if (confidence >= last.confidence) return last.probability;
+
+    const i = points.findIndex((p) => p.confidence >= confidence);
+    const lo = points[i - 1];
+    const hi = points[i];
+    const t = (confidence - lo.confidence) / (hi.confidence - lo.confidence);
+    return lo.probability + t * (hi.probability - lo.probability);
+  }
+}
+
+/**
+ * Reliability table: stated confidence against realized win rate, in bins of binSize points
+ */
+export function reliabilityTable(
+  samples: CalibrationSample[],
+  model: CalibrationModel,
+  binSize: number = 10
+): ReliabilityRow[] {
+  if (!Number.isFinite(binSize) || binSize < 1) {
+    throw new Error(`Bin size must be at least 1 confidence point, got ${binSize}`);
+  }
+
+  const rows: ReliabilityRow[] = [];
+  for (let from = 0; from < 100; from += binSize) {
+    const to = from + binSize;
+    const bin = samples.filter((s) => s.confidence >= from && (s.confidence < to || (to >= 100 && s.confidence <= 100)));
+    if (bin.length === 0) continue;
+
+    const meanConfidence = bin.reduce((sum, s) => sum + s.confidence, 0) / bin.length;
+    rows.push({
+      from,
+      to,
+      battles: bin.length,
+      meanConfidence,
+      winRate: (bin.filter((s) => s.won).length / bin.length) * 100,
+      calibrated: model.calibrate(meanConfidence),
+    });
+  }
+  return rows;
+}
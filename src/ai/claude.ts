@@ -1,17 +1,19 @@
 import Anthropic from '@anthropic-ai/sdk';
-import { AIAnalysis, AcceptAnalysis } from '../types';
-import { Logger } from '../utils';
-import {
-  BaseAIClient,
-  parseJSONResponse,
-  validatePrediction,
-  validateAccept,
-} from './client';
-
+import { AIOutputMode } from '../types';
+import { Logger, nowMs } from '../utils';
+import { BaseAIClient, Completion } from './client';
+import { ModelPrice } from './pricing';
+import { ResponseSpec } from './schemas';
+
+/**
+ * Client for the Anthropic API. Responses come back as a forced tool call whose
+ * input follows the response schema, unless the output mode is 'text'.
+ */
 export class ClaudeClient extends BaseAIClient {
   private client: Anthropic;
   private model: string;
   private maxTokens: number;
+  private useTools: boolean;
 
   constructor(
     apiKey: string,
@@ -19,19 +21,23 @@ export class ClaudeClient extends BaseAIClient {
       model?: string;
       maxTokens?: number;
       logger?: Logger;
+      pricing?: ModelPrice;
+      timeout?: number; // ms
+      outputMode?: AIOutputMode;
     } = {}
   ) {
-    super(options.logger);
-    this.client = new Anthropic({ apiKey });
+    super(options.logger, options.pricing);
+    this.client = new Anthropic({ apiKey, timeout: options.timeout });
     this.model = options.model || 'claude-sonnet-4-20250514';
     this.maxTokens = options.maxTokens || 1024;
+    this.useTools = options.outputMode !== 'text';
   }
 
-  async analyze(prompt: string): Promise<AIAnalysis> {
-    this.logRequest(prompt);
+  protected async complete(prompt: string, response: ResponseSpec): Promise<Completion> {
+    const startedAt = nowMs();
 
     try {
-      const response = await this.client.messages.create({
+      const message = await this.client.messages.create({
         model: this.model,
         max_tokens: this.maxTokens,
         messages: [
@@ -40,60 +46,33 @@ export class ClaudeClient extends BaseAIClient {
             content: prompt,
           },
         ],
+        ...(this.useTools && {
+          tools: [
+            {
+              name: response.name,
+              description: response.description,
+              input_schema: { ...response.schema, type: 'object' },
+            },
+          ],
+          tool_choice: { type: 'tool', name: response.name },
+        }),
       });
 
-      const text =
-        response.content[0].type === 'text' ? response.content[0].text : '';
-
-      this.logResponse(text);
-
-      const data = parseJSONResponse(text);
-      const analysis = validatePrediction(data);
-
-      this.logger?.info('AI prediction', {
-        direction: analysis.direction,
-        confidence: analysis.confidence,
-        duration: analysis.recommendedDuration,
-      });
-
-      return analysis;
-    } catch (error) {
-      this.logger?.error('Claude API error', {
-        error: error instanceof Error ? error.message : String(error),
-      });
-      throw error;
-    }
-  }
-
-  async evaluateAccept(prompt: string): Promise<AcceptAnalysis> {
-    this.logRequest(prompt);
-
-    try {
-      const response = await this.client.messages.create({
-        model: this.model,
-        max_tokens: this.maxTokens,
-        messages: [
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-      });
-
-      const text =
-        response.content[0].type === 'text' ? response.content[0].text : '';
-
-      this.logResponse(text);
-
-      const data = parseJSONResponse(text);
-      const analysis = validateAccept(data);
-
-      this.logger?.info('AI accept evaluation', {
-        accept: analysis.accept,
-        confidence: analysis.confidence,
-      });
-
-      return analysis;
+      const toolUse = message.content.find((block) => block.type === 'tool_use');
+      const text = message.content
+        .map((block) => (block.type === 'text' ? block.text : ''))
+        .join('');
+
+      return {
+        text: toolUse && toolUse.type === 'tool_use' ? JSON.stringify(toolUse.input) : text,
+        data: toolUse && toolUse.type === 'tool_use' ? toolUse.input : undefined,
+        usage: this.buildUsage(
+          message.model,
+          message.usage.input_tokens,
+          message.usage.output_tokens,
+          startedAt
+        ),
+      };
     } catch (error) {
       this.logger?.error('Claude API error', {
         error: error instanceof Error ? error.message : String(error),
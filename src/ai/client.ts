@@ -1,71 +1,211 @@
-import { AIAnalysis, AcceptAnalysis, AIClient } from '../types';
-import { Logger } from '../utils';
+import { ZodError, ZodType } from 'zod';
+import { AIAnalysis, AcceptAnalysis, AIClient, AIUsage, Challenge, PredictionContext } from '../types';
+import { Logger, nowMs } from '../utils';
+import { ModelPrice, estimateCost } from './pricing';
+import {
+  ResponseSpec,
+  PREDICTION_RESPONSE,
+  ACCEPT_RESPONSE,
+  PredictionResponseSchema,
+  AcceptResponseSchema,
+} from './schemas';
+
+// Repair retries after a reply that fails validation
+const MAX_REPAIR_ATTEMPTS = 1;
 
 /**
- * Parse AI response to extract JSON
+ * The AI answered, but not with a valid response (even after the repair retry).
+ * Carries the usage of the failed calls so their cost is still recorded.
  */
-export function parseJSONResponse<T>(text: string): T {
-  // Try to find JSON in the response
-  const jsonMatch = text.match(/\{[\s\S]*\}/);
-  if (!jsonMatch) {
-    throw new Error('No JSON object found in response');
-  }
+export class AIResponseError extends Error {
+  readonly usage?: AIUsage;
+  readonly response: string;
 
-  try {
-    return JSON.parse(jsonMatch[0]) as T;
-  } catch (e) {
-    throw new Error(`Failed to parse JSON: ${e}`);
+  constructor(message: string, response: string, usage?: AIUsage) {
+    super(message);
+    this.name = 'AIResponseError';
+    this.response = response;
+    this.usage = usage;
   }
 }
 
 /**
- * Validate prediction response
+ * Parse AI response to extract JSON: the whole reply, a fenced code block,
+ * or failing both the outermost {...} in the text
  */
-export function validatePrediction(data: any): AIAnalysis {
-  if (!data.direction || !['UP', 'DOWN', 'NEUTRAL'].includes(data.direction)) {
-    throw new Error('Invalid direction in AI response');
+export function parseJSONResponse<T>(text: string): T {
+  const trimmed = text.trim();
+  const fenced = trimmed.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const start = trimmed.indexOf('{');
+  const end = trimmed.lastIndexOf('}');
+
+  const candidates = [trimmed, fenced?.[1]?.trim(), start >= 0 && end > start ? trimmed.slice(start, end + 1) : undefined];
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    try {
+      return JSON.parse(candidate) as T;
+    } catch {
+      // try the next candidate
+    }
   }
 
-  if (typeof data.confidence !== 'number' || data.confidence < 0 || data.confidence > 100) {
-    throw new Error('Invalid confidence in AI response');
+  throw new Error(start >= 0 ? 'Response is not valid JSON' : 'No JSON object found in response');
+}
+
+/**
+ * Validate data against a response schema, with the issues listed in the error
+ */
+function validateResponse<T>(schema: ZodType<T>, data: unknown): T {
+  try {
+    return schema.parse(data);
+  } catch (error) {
+    if (error instanceof ZodError) {
+      const issues = error.errors.map((e) => `${e.path.join('.') || '(root)'}: ${e.message}`);
+      throw new Error(`Invalid response - ${issues.join('; ')}`);
+    }
+    throw error;
   }
+}
 
+/**
+ * Validate prediction response
+ */
+export function validatePrediction(data: unknown): AIAnalysis {
+  const response = validateResponse(PredictionResponseSchema, data);
   return {
-    direction: data.direction,
-    confidence: data.confidence,
-    reasoning: data.reasoning || '',
-    recommendedDuration: data.duration_seconds || 3600,
-    suggestedStake: data.stake_percent || 3,
+    direction: response.direction,
+    confidence: response.confidence,
+    reasoning: response.reasoning,
+    recommendedDuration: response.duration_seconds,
+    suggestedStake: response.stake_percent,
   };
 }
 
 /**
  * Validate accept response
  */
-export function validateAccept(data: any): AcceptAnalysis {
-  if (typeof data.accept !== 'boolean') {
-    throw new Error('Invalid accept value in AI response');
-  }
+export function validateAccept(data: unknown): AcceptAnalysis {
+  const response = validateResponse(AcceptResponseSchema, data);
+  return {
+    accept: response.accept,
+    confidence: response.confidence,
+    reasoning: response.reasoning,
+  };
+}
+
+/**
+ * Prompt for a second attempt after an invalid reply: the original prompt,
+ * what was wrong and the rejected reply
+ */
+export function buildRepairPrompt(prompt: string, reply: string, error: string): string {
+  return `${prompt}
+
+Your previous response could not be used: ${error}
+
+Previous response:
+${reply.slice(0, 2000)}
 
+Respond again with only a corrected JSON object in the requested format.`;
+}
+
+/**
+ * Usage of several calls added up (latencies too - they ran one after another)
+ */
+export function addUsage(a: AIUsage | undefined, b: AIUsage): AIUsage {
+  if (!a) return b;
   return {
-    accept: data.accept,
-    confidence: data.confidence || 50,
-    reasoning: data.reasoning || '',
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    model: b.model,
+    latencyMs: a.latencyMs + b.latencyMs,
+    costUsd: a.costUsd + b.costUsd,
   };
 }
 
+// One raw reply: structured data if the provider returned it natively, else the text to parse
+export interface Completion {
+  text: string;
+  data?: unknown;
+  usage: AIUsage;
+}
+
 /**
- * Base class for AI clients with common functionality
+ * Base class for AI clients with common functionality: subclasses make the API
+ * call, the base validates the reply and retries once with a repair prompt
  */
 export abstract class BaseAIClient implements AIClient {
   protected logger?: Logger;
+  protected pricing?: ModelPrice;
 
-  constructor(logger?: Logger) {
+  constructor(logger?: Logger, pricing?: ModelPrice) {
     this.logger = logger;
+    this.pricing = pricing;
+  }
+
+  /**
+   * Send one prompt, asking for a response in the given shape
+   */
+  protected abstract complete(prompt: string, response: ResponseSpec): Promise<Completion>;
+
+  async analyze(prompt: string, _context?: PredictionContext): Promise<AIAnalysis> {
+    const analysis = await this.request(prompt, PREDICTION_RESPONSE, validatePrediction);
+
+    this.logger?.info('AI prediction', {
+      direction: analysis.direction,
+      confidence: analysis.confidence,
+      duration: analysis.recommendedDuration,
+    });
+
+    return analysis;
   }
 
-  abstract analyze(prompt: string): Promise<AIAnalysis>;
-  abstract evaluateAccept(prompt: string): Promise<AcceptAnalysis>;
+  async evaluateAccept(prompt: string, _context?: PredictionContext, _challenge?: Challenge): Promise<AcceptAnalysis> {
+    const analysis = await this.request(prompt, ACCEPT_RESPONSE, validateAccept);
+
+    this.logger?.info('AI accept evaluation', {
+      accept: analysis.accept,
+      confidence: analysis.confidence,
+    });
+
+    return analysis;
+  }
+
+  /**
+   * Call the API and validate the reply; an invalid reply gets one repair retry
+   * that tells the model what was wrong. Usage covers every attempt.
+   */
+  protected async request<T extends { usage?: AIUsage }>(
+    prompt: string,
+    response: ResponseSpec,
+    validate: (data: unknown) => T
+  ): Promise<T> {
+    let usage: AIUsage | undefined;
+    let attemptPrompt = prompt;
+
+    for (let attempt = 0; ; attempt++) {
+      this.logRequest(attemptPrompt);
+      const completion = await this.complete(attemptPrompt, response);
+      usage = addUsage(usage, completion.usage);
+      this.logResponse(completion.text, completion.usage);
+
+      try {
+        const result = validate(completion.data ?? parseJSONResponse(completion.text));
+        result.usage = usage;
+        return result;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const reply = completion.data !== undefined ? JSON.stringify(completion.data) : completion.text;
+
+        if (attempt >= MAX_REPAIR_ATTEMPTS) {
+          this.logger?.error('Invalid AI response', { error: message, attempts: attempt + 1 });
+          throw new AIResponseError(message, reply, usage);
+        }
+
+        this.logger?.warn('Invalid AI response, retrying', { error: message });
+        attemptPrompt = buildRepairPrompt(prompt, reply, message);
+      }
+    }
+  }
 
   protected logRequest(prompt: string): void {
     this.logger?.debug('AI request', {
@@ -73,9 +213,23 @@ export abstract class BaseAIClient implements AIClient {
     });
   }
 
-  protected logResponse(response: string): void {
+  /**
+   * Usage of a call that started at startedAt (ms)
+   */
+  protected buildUsage(model: string, inputTokens: number, outputTokens: number, startedAt: number): AIUsage {
+    return {
+      inputTokens,
+      outputTokens,
+      model,
+      latencyMs: nowMs() - startedAt,
+      costUsd: estimateCost(model, inputTokens, outputTokens, this.pricing),
+    };
+  }
+
+  protected logResponse(response: string, usage?: AIUsage): void {
     this.logger?.debug('AI response', {
       responseLength: response.length,
+      ...usage,
     });
   }
 }
@@ -0,0 +1,246 @@
+import {
+  AIAnalysis,
+  AcceptAnalysis,
+  AIClient,
+  AIUsage,
+  AIVote,
+  Challenge,
+  EnsembleMode,
+  PredictionContext,
+} from '../types';
+import { Logger } from '../utils';
+import { AIResponseError } from './client';
+
+export interface EnsembleMember {
+  name: string; // provider/model, recorded with each vote
+  client: AIClient;
+}
+
+// A member's answer in a common shape: which side it's on and how sure it is
+interface Ballot {
+  member: string;
+  choice: string; // UP/DOWN/NEUTRAL for predictions, accept/reject for accepts
+  confidence: number;
+  reasoning: string;
+  usage?: AIUsage;
+}
+
+// A member that failed; usage is set if it was charged for an invalid response
+interface Failure {
+  member: string;
+  error: string;
+  usage?: AIUsage;
+}
+
+interface Outcome {
+  choice: string | null; // null = no agreement
+  confidence: number;
+  supporters: Ballot[];
+  summary: string;
+}
+
+/**
+ * Combine ballots by the ensemble mode:
+ * - majority: the choice with the most votes wins (ties = no agreement);
+ *   confidence is the mean confidence of its voters
+ * - weighted: the choice with the highest summed confidence wins; confidence is
+ *   its voters' mean confidence scaled by its share of the total confidence
+ * - unanimous: every member must make the same choice; confidence is the lowest
+ */
+function combine(ballots: Ballot[], mode: EnsembleMode, total: number): Outcome {
+  const groups = new Map<string, Ballot[]>();
+  for (const ballot of ballots) {
+    groups.set(ballot.choice, [...(groups.get(ballot.choice) ?? []), ballot]);
+  }
+
+  const sum = (group: Ballot[]) => group.reduce((s, b) => s + b.confidence, 0);
+  const mean = (group: Ballot[]) => (group.length > 0 ? sum(group) / group.length : 0);
+  const ranked = [...groups.entries()].sort((a, b) =>
+    mode === 'weighted' ? sum(b[1]) - sum(a[1]) : b[1].length - a[1].length
+  );
+
+  const [choice, supporters] = ranked[0];
+  const runnerUp = ranked[1]?.[1];
+
+  switch (mode) {
+    case 'unanimous': {
+      const agreed = groups.size === 1 && supporters.length === total;
+      return {
+        choice: agreed ? choice : null,
+        confidence: agreed ? Math.min(...supporters.map((b) => b.confidence)) : 0,
+        supporters: agreed ? supporters : [],
+        summary: agreed ? `unanimous ${choice}` : 'no unanimous agreement',
+      };
+    }
+    case 'weighted': {
+      const totalWeight = sum(ballots);
+      if (runnerUp && sum(runnerUp) === sum(supporters)) {
+        return { choice: null, confidence: 0, supporters: [], summary: 'weighted tie' };
+      }
+      return {
+        choice,
+        confidence: totalWeight > 0 ? mean(supporters) * (sum(supporters) / totalWeight) : 0,
+        supporters,
+        summary: `weighted ${choice} (${sum(supporters).toFixed(0)}/${totalWeight.toFixed(0)})`,
+      };
+    }
+    default: {
+      if (runnerUp && runnerUp.length === supporters.length) {
+        return { choice: null, confidence: 0, supporters: [], summary: 'split vote' };
+      }
+      return {
+        choice,
+        confidence: mean(supporters),
+        supporters,
+        summary: `majority ${choice} (${supporters.length}/${ballots.length})`,
+      };
+    }
+  }
+}
+
+function sumUsage(calls: { usage?: AIUsage }[]): AIUsage | undefined {
+  const usages = calls.map((c) => c.usage).filter((u): u is AIUsage => !!u);
+  if (usages.length === 0) return undefined;
+  return {
+    inputTokens: usages.reduce((s, u) => s + u.inputTokens, 0),
+    outputTokens: usages.reduce((s, u) => s + u.outputTokens, 0),
+    model: 'ensemble',
+    latencyMs: Math.max(...usages.map((u) => u.latencyMs)), // members run in parallel
+    costUsd: usages.reduce((s, u) => s + u.costUsd, 0),
+  };
+}
+
+function toVotes(ballots: Ballot[], failures: Failure[]): AIVote[] {
+  return [
+    ...ballots.map((b) => ({
+      member: b.member,
+      vote: b.choice,
+      confidence: b.confidence,
+      reasoning: b.reasoning,
+      usage: b.usage,
+    })),
+    ...failures.map((f) => ({ member: f.member, vote: 'error', error: f.error, usage: f.usage })),
+  ];
+}
+
+/**
+ * Asks several provider/model pairs in parallel and combines their answers.
+ * Members that fail are recorded but don't vote; if all fail, the call fails.
+ */
+export class EnsembleAIClient implements AIClient {
+  private members: EnsembleMember[];
+  private mode: EnsembleMode;
+  private logger?: Logger;
+
+  constructor(members: EnsembleMember[], mode: EnsembleMode, logger?: Logger) {
+    if (members.length === 0) {
+      throw new Error('An AI ensemble needs at least one member');
+    }
+    this.members = members;
+    this.mode = mode;
+    this.logger = logger;
+  }
+
+  async analyze(prompt: string, context?: PredictionContext): Promise<AIAnalysis> {
+    const { results, ballots, failures } = await this.poll(
+      (client) => client.analyze(prompt, context),
+      (a) => a.direction
+    );
+
+    const outcome = combine(ballots, this.mode, this.members.length);
+    const supporters = results.filter((r) => outcome.supporters.some((b) => b.member === r.member));
+    const avg = (pick: (a: AIAnalysis) => number) =>
+      supporters.length > 0 ? supporters.reduce((s, r) => s + pick(r.value), 0) / supporters.length : 0;
+
+    const analysis: AIAnalysis = {
+      direction: (outcome.choice as AIAnalysis['direction'] | null) ?? 'NEUTRAL',
+      confidence: Math.round(outcome.confidence),
+      reasoning: this.describe(outcome, ballots),
+      recommendedDuration: Math.round(avg((a) => a.recommendedDuration)) || 14400,
+      suggestedStake: avg((a) => a.suggestedStake) || 3,
+      usage: sumUsage([...ballots, ...failures]),
+      votes: toVotes(ballots, failures),
+    };
+
+    this.logger?.info('AI ensemble prediction', {
+      direction: analysis.direction,
+      confidence: analysis.confidence,
+      votes: ballots.map((b) => `${b.member}=${b.choice}@${b.confidence}`),
+      failed: failures.length,
+    });
+
+    return analysis;
+  }
+
+  async evaluateAccept(prompt: string, context?: PredictionContext, challenge?: Challenge): Promise<AcceptAnalysis> {
+    const { ballots, failures } = await this.poll(
+      (client) => client.evaluateAccept(prompt, context, challenge),
+      (a) => (a.accept ? 'accept' : 'reject')
+    );
+
+    const outcome = combine(ballots, this.mode, this.members.length);
+    const analysis: AcceptAnalysis = {
+      accept: outcome.choice === 'accept',
+      confidence: Math.round(outcome.confidence),
+      reasoning: this.describe(outcome, ballots),
+      usage: sumUsage([...ballots, ...failures]),
+      votes: toVotes(ballots, failures),
+    };
+
+    this.logger?.info('AI ensemble accept evaluation', {
+      accept: analysis.accept,
+      confidence: analysis.confidence,
+      votes: ballots.map((b) => `${b.member}=${b.choice}@${b.confidence}`),
+      failed: failures.length,
+    });
+
+    return analysis;
+  }
+
+  private async poll<T extends { confidence: number; reasoning: string; usage?: AIUsage }>(
+    ask: (client: AIClient) => Promise<T>,
+    choice: (answer: T) => string
+  ): Promise<{
+    results: { member: string; value: T }[];
+    ballots: Ballot[];
+    failures: Failure[];
+  }> {
+    const settled = await Promise.allSettled(this.members.map((m) => ask(m.client)));
+
+    const results: { member: string; value: T }[] = [];
+    const failures: Failure[] = [];
+    settled.forEach((result, i) => {
+      const member = this.members[i].name;
+      if (result.status === 'fulfilled') {
+        results.push({ member, value: result.value });
+      } else {
+        const error = result.reason instanceof Error ? result.reason.message : String(result.reason);
+        const usage = result.reason instanceof AIResponseError ? result.reason.usage : undefined;
+        failures.push({ member, error, usage });
+        this.logger?.warn('AI ensemble member failed', { member, error });
+      }
+    });
+
+    if (results.length === 0) {
+      const message = `All AI ensemble members failed: ${failures.map((f) => `${f.member}: ${f.error}`).join('; ')}`;
+      const usage = sumUsage(failures);
+      throw usage ? new AIResponseError(message, '', usage) : new Error(message);
+    }
+
+    const ballots = results.map(({ member, value }) => ({
+      member,
+      choice: choice(value),
+      confidence: value.confidence,
+      reasoning: value.reasoning,
+      usage: value.usage,
+    }));
+
+    return { results, ballots, failures };
+  }
+
+  private describe(outcome: Outcome, ballots: Ballot[]): string {
+    const votes = ballots.map((b) => `${b.member}: ${b.choice} ${b.confidence}%`).join(', ');
+    const lead = outcome.supporters[0]?.reasoning;
+    return `Ensemble ${outcome.summary} [${votes}]${lead ? ` - ${lead}` : ''}`;
+  }
+}
@@ -0,0 +1,58 @@
+import { AIAnalysis, AcceptAnalysis, AIClient, AIUsage, Challenge, PredictionContext } from '../types';
+import { Logger } from '../utils';
+import { AIResponseError } from './client';
+
+/**
+ * Answers from a backup client (the rule-based predictor) when the primary AI call fails,
+ * so an outage or a malformed response doesn't stop the strategy from trading
+ */
+export class FallbackAIClient implements AIClient {
+  private primary: AIClient;
+  private backup: AIClient;
+  private backupName: string;
+  private logger?: Logger;
+
+  constructor(primary: AIClient, backup: AIClient, backupName: string, logger?: Logger) {
+    this.primary = primary;
+    this.backup = backup;
+    this.backupName = backupName;
+    this.logger = logger;
+  }
+
+  private async withFallback<T extends { reasoning: string; usage?: AIUsage }>(
+    call: string,
+    primary: () => Promise<T>,
+    backup: () => Promise<T>
+  ): Promise<T> {
+    try {
+      return await primary();
+    } catch (error) {
+      this.logger?.warn(`AI ${call} failed, using ${this.backupName}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      const result = await backup();
+      return {
+        ...result,
+        reasoning: `[${this.backupName} fallback] ${result.reasoning}`,
+        // An invalid response was still paid for
+        usage: error instanceof AIResponseError ? error.usage : result.usage,
+      };
+    }
+  }
+
+  async analyze(prompt: string, context?: PredictionContext): Promise<AIAnalysis> {
+    return this.withFallback(
+      'prediction',
+      () => this.primary.analyze(prompt, context),
+      () => this.backup.analyze(prompt, context)
+    );
+  }
+
+  async evaluateAccept(prompt: string, context?: PredictionContext, challenge?: Challenge): Promise<AcceptAnalysis> {
+    return this.withFallback(
+      'accept evaluation',
+      () => this.primary.evaluateAccept(prompt, context, challenge),
+      () => this.backup.evaluateAccept(prompt, context, challenge)
+    );
+  }
+}
@@ -1,28 +1,68 @@
 import { AIClient, AIConfig } from '../types';
 import { ClaudeClient } from './claude';
 import { OpenAIClient } from './openai';
+import { EnsembleAIClient } from './ensemble';
+import { RuleBasedClient } from './rules';
+import { FallbackAIClient } from './fallback';
 import { Logger } from '../utils';
 
 export { ClaudeClient } from './claude';
 export { OpenAIClient } from './openai';
+export { EnsembleAIClient, EnsembleMember } from './ensemble';
+export { RuleBasedClient, acceptFromPrediction } from './rules';
+export { FallbackAIClient } from './fallback';
 export * from './prompts';
+export * from './templates';
+export * from './calibration';
 export * from './client';
+export * from './cache';
+export * from './pricing';
 
 /**
  * Create an AI client based on configuration
  */
 export function createAIClient(config: AIConfig, logger?: Logger): AIClient {
+  if (config.fallback === 'rules' && config.provider !== 'rules') {
+    return new FallbackAIClient(
+      createAIClient({ ...config, fallback: undefined }, logger),
+      new RuleBasedClient(config.rules, logger),
+      'rules',
+      logger
+    );
+  }
+
+  if (config.ensemble) {
+    const members = config.ensemble.members.map((member) => ({
+      name: `${member.provider}/${member.model ?? 'default'}`,
+      client: createAIClient({ ...config, ...member, ensemble: undefined }, logger),
+    }));
+    return new EnsembleAIClient(members, config.ensemble.mode, logger);
+  }
+
   const options = {
     model: config.model,
     maxTokens: config.maxTokens,
+    pricing: config.pricing,
+    timeout: config.timeout,
     logger,
   };
 
   switch (config.provider) {
     case 'claude':
-      return new ClaudeClient(config.apiKey, options);
+      return new ClaudeClient(config.apiKey, { ...options, outputMode: config.outputMode });
     case 'openai':
-      return new OpenAIClient(config.apiKey, options);
+      return new OpenAIClient(config.apiKey, { ...options, outputMode: config.outputMode });
+    case 'openai-compatible':
+      if (!config.baseUrl) {
+        throw new Error('A base URL is required for the openai-compatible provider');
+      }
+      return new OpenAIClient(config.apiKey || 'not-needed', {
+        ...options,
+        baseURL: config.baseUrl,
+        outputMode: config.outputMode,
+      });
+    case 'rules':
+      return new RuleBasedClient(config.rules, logger);
     default:
       throw new Error(`Unknown AI provider: ${config.provider}`);
   }
@@ -1,17 +1,20 @@
 import OpenAI from 'openai';
-import { AIAnalysis, AcceptAnalysis } from '../types';
-import { Logger } from '../utils';
-import {
-  BaseAIClient,
-  parseJSONResponse,
-  validatePrediction,
-  validateAccept,
-} from './client';
-
+import { AIOutputMode } from '../types';
+import { Logger, nowMs } from '../utils';
+import { BaseAIClient, Completion } from './client';
+import { ModelPrice } from './pricing';
+import { ResponseSpec } from './schemas';
+
+/**
+ * Client for the OpenAI API, or any OpenAI-compatible endpoint
+ * (llama.cpp server, vLLM, Ollama, ...) when a base URL is given
+ */
 export class OpenAIClient extends BaseAIClient {
   private client: OpenAI;
   private model: string;
   private maxTokens: number;
+  private outputMode: AIOutputMode;
+  private label: string;
 
   constructor(
     apiKey: string,
@@ -19,57 +22,42 @@ export class OpenAIClient extends BaseAIClient {
       model?: string;
       maxTokens?: number;
       logger?: Logger;
+      pricing?: ModelPrice;
+      baseURL?: string;
+      timeout?: number; // ms
+      outputMode?: AIOutputMode;
     } = {}
   ) {
-    super(options.logger);
-    this.client = new OpenAI({ apiKey });
+    super(options.logger, options.pricing);
+    this.client = new OpenAI({ apiKey, baseURL: options.baseURL, timeout: options.timeout });
     this.model = options.model || 'gpt-4o';
     this.maxTokens = options.maxTokens || 1024;
+    // OpenAI itself supports strict schemas; self-hosted servers default to plain JSON mode
+    this.outputMode = options.outputMode || (options.baseURL ? 'json' : 'json_schema');
+    this.label = options.baseURL ? `OpenAI-compatible (${options.baseURL})` : 'OpenAI';
   }
 
-  async analyze(prompt: string): Promise<AIAnalysis> {
-    this.logRequest(prompt);
-
-    try {
-      const response = await this.client.chat.completions.create({
-        model: this.model,
-        max_tokens: this.maxTokens,
-        messages: [
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        response_format: { type: 'json_object' },
-      });
-
-      const text = response.choices[0]?.message?.content || '';
-
-      this.logResponse(text);
-
-      const data = parseJSONResponse(text);
-      const analysis = validatePrediction(data);
-
-      this.logger?.info('AI prediction', {
-        direction: analysis.direction,
-        confidence: analysis.confidence,
-        duration: analysis.recommendedDuration,
-      });
-
-      return analysis;
-    } catch (error) {
-      this.logger?.error('OpenAI API error', {
-        error: error instanceof Error ? error.message : String(error),
-      });
-      throw error;
+  /**
+   * Constrain the response to JSON (or to the given schema), per the output mode
+   */
+  private responseFormat(
+    response: ResponseSpec
+  ): OpenAI.Chat.ChatCompletionCreateParams['response_format'] {
+    switch (this.outputMode) {
+      case 'json_schema':
+        return { type: 'json_schema', json_schema: { name: response.name, schema: response.schema, strict: true } };
+      case 'text':
+        return undefined;
+      default:
+        return { type: 'json_object' };
     }
   }
 
-  async evaluateAccept(prompt: string): Promise<AcceptAnalysis> {
-    this.logRequest(prompt);
+  protected async complete(prompt: string, response: ResponseSpec): Promise<Completion> {
+    const startedAt = nowMs();
 
     try {
-      const response = await this.client.chat.completions.create({
+      const completion = await this.client.chat.completions.create({
         model: this.model,
         max_tokens: this.maxTokens,
         messages: [
@@ -78,24 +66,20 @@ export class OpenAIClient extends BaseAIClient {
             content: prompt,
           },
         ],
-        response_format: { type: 'json_object' },
-      });
-
-      const text = response.choices[0]?.message?.content || '';
-
-      this.logResponse(text);
-
-      const data = parseJSONResponse(text);
-      const analysis = validateAccept(data);
-
-      this.logger?.info('AI accept evaluation', {
-        accept: analysis.accept,
-        confidence: analysis.confidence,
+        response_format: this.responseFormat(response),
       });
 
-      return analysis;
+      return {
+        text: completion.choices[0]?.message?.content || '',
+        usage: this.buildUsage(
+          completion.model || this.model,
+          completion.usage?.prompt_tokens ?? 0,
+          completion.usage?.completion_tokens ?? 0,
+          startedAt
+        ),
+      };
     } catch (error) {
-      this.logger?.error('OpenAI API error', {
+      this.logger?.error(`${this.label} API error`, {
         error: error instanceof Error ? error.message : String(error),
       });
       throw error;
@@ -0,0 +1,45 @@
+// USD per million tokens. Matched by model-name prefix, longest first,
+// so dated releases (e.g. claude-sonnet-4-20250514) resolve to their family.
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  'claude-opus-4': { input: 15, output: 75 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-haiku-4': { input: 1, output: 5 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+};
+
+/**
+ * Price of a model (an explicit override wins; undefined if the model is unknown)
+ */
+export function getModelPrice(model: string, override?: ModelPrice): ModelPrice | undefined {
+  if (override) return override;
+  const match = Object.keys(MODEL_PRICES)
+    .filter((prefix) => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? MODEL_PRICES[match] : undefined;
+}
+
+/**
+ * Estimated USD cost of one call (0 for models without a known price)
+ */
+export function estimateCost(
+  model: string,
+  inputTokens: number,
+  outputTokens: number,
+  override?: ModelPrice
+): number {
+  const price = getModelPrice(model, override);
+  if (!price) return 0;
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
@@ -1,23 +1,64 @@
-import { PredictionContext, Challenge } from '../types';
-import { formatUSD, formatDuration } from '../utils';
+import {
+  PredictionContext,
+  Challenge,
+  PlayerStats,
+  PromptConfig,
+  DurationPerformance,
+  DURATIONS,
+} from '../types';
+import { formatUSD, formatDuration, formatXPRWithSymbol, nowSeconds } from '../utils';
+import { PromptTemplate, PromptSelector, loadPromptTemplate, renderTemplate } from './templates';
 
 /**
- * Build prompt for price direction prediction
+ * Extra on-chain data for accept decisions (looked up by the strategy)
  */
-export function buildPredictionPrompt(context: PredictionContext): string {
-  const priceHistoryStr = context.priceHistory
-    .slice(-30)
-    .map((p) => {
-      const date = new Date(p.timestamp).toISOString().substr(11, 8);
-      return `  ${date}: ${formatUSD(p.price)}`;
-    })
-    .join('\n');
+export interface AcceptPromptDetails {
+  creatorStats?: PlayerStats | null; // null if the creator has no stats row
+  priceAtCreation?: number | null; // recorded oracle price at the challenge's created_at
+}
+
+/**
+ * Durations the strategy can actually use (looked up by the strategy)
+ */
+export interface PredictionPromptDetails {
+  durationWindow?: { min: number; max: number }; // seconds: strategy window within the contract's limits
+  durationStats?: DurationPerformance[]; // our settled battles by duration
+}
+
+/**
+ * Duration choices within the window: the presets inside it plus both ends
+ */
+export function durationOptions(window?: { min: number; max: number }): number[] {
+  const presets = DURATIONS.map((d) => d.value as number);
+  if (!window) return presets;
+  const inside = presets.filter((d) => d > window.min && d < window.max);
+  return [...new Set([window.min, ...inside, window.max])];
+}
+
+function formatDurations(details: PredictionPromptDetails): string {
+  const options = durationOptions(details.durationWindow);
+
+  // Battles count toward the shortest option that covers them; ones outside the window are left out
+  const lines = options.map((seconds, i) => {
+    const lower = i > 0 ? options[i - 1] : seconds - 1;
+    const battles = (details.durationStats ?? []).filter((s) => s.duration > lower && s.duration <= seconds);
+    const settled = battles.reduce((sum, s) => sum + s.settled, 0);
+    const wins = battles.reduce((sum, s) => sum + s.wins, 0);
+    const record = settled > 0
+      ? `${((wins / settled) * 100).toFixed(1)}% win rate over ${settled} settled battle${settled === 1 ? '' : 's'}`
+      : 'no settled battles yet';
+    return `- ${formatDuration(seconds)} (${seconds}s): ${record}`;
+  });
+
+  return `AVAILABLE DURATIONS (the only ones this bot can use, with its own results):
+${lines.join('\n')}
+`;
+}
 
-  // Build technical indicators section
-  let indicatorsStr = '';
-  if (context.indicators) {
-    const ind = context.indicators;
-    indicatorsStr = `
+function formatIndicators(context: PredictionContext): string {
+  if (!context.indicators) return '';
+  const ind = context.indicators;
+  return `
 TECHNICAL INDICATORS:
 - SMA(20): ${formatUSD(ind.sma20)} ${context.currentPrice > ind.sma20 ? '(price above)' : '(price below)'}
 - SMA(50): ${formatUSD(ind.sma50)} ${context.currentPrice > ind.sma50 ? '(price above)' : '(price below)'}
@@ -29,68 +70,152 @@ TECHNICAL INDICATORS:
 - 24h Trend: ${ind.trend24h.toUpperCase()}
 - Momentum: ${ind.momentum.toUpperCase().replace('_', ' ')}
 `;
-  }
+}
 
-  // Build price changes section
+function formatChanges(context: PredictionContext): string {
   let changesStr = '';
   if (context.change1h !== undefined) changesStr += `- 1h Change: ${context.change1h >= 0 ? '+' : ''}${context.change1h.toFixed(2)}%\n`;
   if (context.change24h !== undefined) changesStr += `- 24h Change: ${context.change24h >= 0 ? '+' : ''}${context.change24h.toFixed(2)}%\n`;
   if (context.change7d !== undefined) changesStr += `- 7d Change: ${context.change7d >= 0 ? '+' : ''}${context.change7d.toFixed(2)}%\n`;
   if (context.change30d !== undefined) changesStr += `- 30d Change: ${context.change30d >= 0 ? '+' : ''}${context.change30d.toFixed(2)}%\n`;
+  return changesStr;
+}
 
-  // Volatility info
-  let volatilityStr = '';
-  if (context.volatility24h !== undefined) {
-    volatilityStr = `- 24h Volatility: ${context.volatility24h.toFixed(2)}% (range: ${formatUSD(context.low24h || 0)} - ${formatUSD(context.high24h || 0)})\n`;
-    if (context.pricePosition !== undefined) {
-      volatilityStr += `- Price Position in Range: ${context.pricePosition.toFixed(0)}% (0%=at low, 100%=at high)\n`;
-    }
+function formatVolatility(context: PredictionContext): string {
+  if (context.volatility24h === undefined) return '';
+  let volatilityStr = `- 24h Volatility: ${context.volatility24h.toFixed(2)}% (range: ${formatUSD(context.low24h || 0)} - ${formatUSD(context.high24h || 0)})\n`;
+  if (context.pricePosition !== undefined) {
+    volatilityStr += `- Price Position in Range: ${context.pricePosition.toFixed(0)}% (0%=at low, 100%=at high)\n`;
   }
+  return volatilityStr;
+}
 
-  return `You are a BTC price movement analyst for a price prediction game on XPR Network.
+function formatCreatorStats(creator: string, stats?: PlayerStats | null): string {
+  if (stats === undefined) return '';
+  if (!stats) {
+    return `
+CREATOR TRACK RECORD (${creator}):
+- No on-chain history (first battle or new player)
+`;
+  }
 
-CURRENT MARKET DATA:
-- Current BTC Price: ${formatUSD(context.currentPrice)}
-${context.high24h ? `- 24h High: ${formatUSD(context.high24h)}` : ''}
-${context.low24h ? `- 24h Low: ${formatUSD(context.low24h)}` : ''}
-${changesStr}${volatilityStr}${indicatorsStr}
-RECENT PRICE HISTORY (last 30 data points, 1-min intervals):
-${priceHistoryStr}
+  const total = stats.wins + stats.losses + stats.ties;
+  const winRate = total > 0 ? (stats.wins / total) * 100 : 0;
+  return `
+CREATOR TRACK RECORD (${creator}):
+- Record: ${stats.wins}W / ${stats.losses}L / ${stats.ties}T (${total} battles, ${winRate.toFixed(1)}% win rate)
+- Total Wagered: ${formatXPRWithSymbol(stats.total_wagered)}
+- Total Won: ${formatXPRWithSymbol(stats.total_won)}
+- Current Win Streak: ${stats.win_streak} (best: ${stats.best_streak})
+`;
+}
 
-BOT PERFORMANCE (cumulative):
-- Wins: ${context.performance.wins}
-- Losses: ${context.performance.losses}
-- Ties: ${context.performance.ties}
-- Win Rate: ${context.performance.winRate.toFixed(1)}%
+function formatDrift(challenge: Challenge, currentPrice: number, priceAtCreation?: number | null): string {
+  if (!priceAtCreation) return '';
+  const change = ((currentPrice - priceAtCreation) / priceAtCreation) * 100;
+  const creatorFavored = (challenge.direction === 1) === (change > 0);
+  return `
+PRICE SINCE CHALLENGE WAS CREATED (${formatDuration(Math.max(0, nowSeconds() - challenge.created_at))} ago):
+- Price at Creation: ${formatUSD(priceAtCreation)}
+- Change Since Creation: ${change >= 0 ? '+' : ''}${change.toFixed(3)}%${change === 0 ? '' : creatorFavored ? " (moved in the creator's direction)" : " (moved against the creator's direction)"}
+- Note: the battle's start price is the price when it is accepted, so this move is already priced in
+`;
+}
 
-AVAILABLE DURATIONS (30 min to 1 hour only):
-- 30 minutes (1800s) - PREFERRED: Best balance of time for price movement
-- 1 hour (3600s) - Use for established trends with high confidence
+// Variables available to prediction templates. Sections (changes, volatility,
+// indicators, high24h, low24h) are pre-formatted and empty when the data is missing;
+// durations lists the strategy's duration choices with our win rate on each
+export const PREDICTION_TEMPLATE_VARIABLES = [
+  'asset',
+  'currentPrice',
+  'high24h',
+  'low24h',
+  'changes',
+  'volatility',
+  'indicators',
+  'priceHistory',
+  'wins',
+  'losses',
+  'ties',
+  'winRate',
+  'rsi14',
+  'trend1h',
+  'trend24h',
+  'momentum',
+  'durations',
+] as const;
 
-NOTE: 10-minute challenges are NOT allowed - historical data shows 27% win rate on short timeframes due to noise.
+export const DEFAULT_PREDICTION_TEMPLATE = 'prediction-v2';
 
-ANALYSIS GUIDELINES:
-1. Use RSI to identify overbought (>70) or oversold (<30) conditions
-2. Check if price is above/below key moving averages (SMA20, SMA50)
-3. Look at MACD signal (EMA12 vs EMA26) for momentum
-4. Consider the 1h and 24h trend alignment
-5. Factor in recent price changes across timeframes
-6. PREFER 30 minute duration - it has 50% win rate vs 27% for 10 min
-7. Only use 1 hour duration if you have very high confidence in an established trend
+let defaultPredictionTemplate: PromptTemplate | undefined;
 
-TASK:
-Analyze ALL the data above and predict whether BTC will go UP or DOWN from the current price.
-Provide clear reasoning based on the indicators and trends.
-Only recommend trading when multiple signals align. Say NEUTRAL if signals are mixed.
+function formatPriceHistory(context: PredictionContext): string {
+  return context.priceHistory
+    .slice(-30)
+    .map((p) => {
+      const date = new Date(p.timestamp).toISOString().substr(11, 8);
+      return `  ${date}: ${formatUSD(p.price)}`;
+    })
+    .join('\n');
+}
 
-IMPORTANT: Respond with ONLY a valid JSON object, no other text:
-{
-  "direction": "UP" | "DOWN" | "NEUTRAL",
-  "confidence": <0-100>,
-  "reasoning": "<2-3 sentences explaining your analysis based on the indicators, trends, and price action>",
-  "duration_seconds": <recommended duration: 1800 or 3600 - prefer 1800>,
-  "stake_percent": <1-10, percentage of available funds to risk based on confidence>
-}`;
+function predictionVariables(
+  context: PredictionContext,
+  details: PredictionPromptDetails
+): Record<(typeof PREDICTION_TEMPLATE_VARIABLES)[number], string> {
+  const ind = context.indicators;
+  return {
+    asset: context.asset,
+    currentPrice: formatUSD(context.currentPrice),
+    high24h: context.high24h ? `- 24h High: ${formatUSD(context.high24h)}` : '',
+    low24h: context.low24h ? `- 24h Low: ${formatUSD(context.low24h)}` : '',
+    changes: formatChanges(context),
+    volatility: formatVolatility(context),
+    indicators: formatIndicators(context),
+    priceHistory: formatPriceHistory(context),
+    wins: String(context.performance.wins),
+    losses: String(context.performance.losses),
+    ties: String(context.performance.ties),
+    winRate: context.performance.winRate.toFixed(1),
+    rsi14: ind ? ind.rsi14.toFixed(1) : 'n/a',
+    trend1h: ind ? ind.trend1h.toUpperCase() : 'n/a',
+    trend24h: ind ? ind.trend24h.toUpperCase() : 'n/a',
+    momentum: ind ? ind.momentum.toUpperCase().replace('_', ' ') : 'n/a',
+    durations: formatDurations(details),
+  };
+}
+
+/**
+ * Load a prediction template by id (PROMPT_DIR first, then the built-in prompts/)
+ */
+export function loadPredictionTemplate(id: string = DEFAULT_PREDICTION_TEMPLATE, dir?: string): PromptTemplate {
+  return loadPromptTemplate(id, PREDICTION_TEMPLATE_VARIABLES, dir);
+}
+
+/**
+ * The configured prediction template, and the challenger if an A/B test is set up
+ */
+export function createPromptSelector(config: PromptConfig): PromptSelector {
+  return new PromptSelector(
+    loadPredictionTemplate(config.template, config.dir),
+    config.challenger ? loadPredictionTemplate(config.challenger, config.dir) : undefined,
+    config.split
+  );
+}
+
+/**
+ * Build prompt for price direction prediction (from the default template unless one is given)
+ */
+export function buildPredictionPrompt(
+  context: PredictionContext,
+  template?: PromptTemplate,
+  details: PredictionPromptDetails = {}
+): string {
+  if (!template) {
+    defaultPredictionTemplate ??= loadPredictionTemplate();
+    template = defaultPredictionTemplate;
+  }
+  return renderTemplate(template, predictionVariables(context, details));
 }
 
 /**
@@ -98,50 +223,54 @@ IMPORTANT: Respond with ONLY a valid JSON object, no other text:
  */
 export function buildAcceptPrompt(
   challenge: Challenge,
-  context: PredictionContext
+  context: PredictionContext,
+  details: AcceptPromptDetails = {}
 ): string {
+  const asset = context.asset;
   const creatorDirection = challenge.direction === 1 ? 'UP' : 'DOWN';
   const ourDirection = challenge.direction === 1 ? 'DOWN' : 'UP';
 
-  const priceHistoryStr = context.priceHistory
-    .slice(-15)
-    .map((p) => {
-      const date = new Date(p.timestamp).toISOString().substr(11, 8);
-      return `  ${date}: ${formatUSD(p.price)}`;
-    })
-    .join('\n');
+  const priceHistoryStr = formatPriceHistory(context);
 
   // Calculate time until expiry
-  const now = Math.floor(Date.now() / 1000);
-  const timeUntilExpiry = challenge.expires_at - now;
+  const timeUntilExpiry = challenge.expires_at - nowSeconds();
 
   return `You are evaluating whether to accept a price battle challenge on XPR Network.
 
 CHALLENGE DETAILS:
 - Challenge ID: ${challenge.id}
 - Creator: ${challenge.creator}
-- Creator bets: ${creatorDirection} (BTC will go ${creatorDirection.toLowerCase()})
-- If you accept, you bet: ${ourDirection} (BTC will go ${ourDirection.toLowerCase()})
-- Stake Amount: ${(parseInt(challenge.amount, 10) / 10000).toFixed(4)} XPR
-- Battle Duration: ${formatDuration(challenge.duration)}
+- Asset: ${asset}/USD
+- Creator bets: ${creatorDirection} (${asset} will go ${creatorDirection.toLowerCase()})
+- If you accept, you bet: ${ourDirection} (${asset} will go ${ourDirection.toLowerCase()})
+- Stake Amount: ${(parseInt(challenge.amount, 10) / 10000).toFixed(4)} XPR (you must match it)
+- Battle Duration: ${formatDuration(challenge.duration)} (measured from when you accept)
 - Time Until Expiry: ${timeUntilExpiry > 0 ? formatDuration(timeUntilExpiry) : 'Expired'}
-
+${formatCreatorStats(challenge.creator, details.creatorStats)}${formatDrift(challenge, context.currentPrice, details.priceAtCreation)}
 CURRENT MARKET DATA:
-- Current BTC Price: ${formatUSD(context.currentPrice)}
-${context.change1h !== undefined ? `- 1h Change: ${context.change1h.toFixed(2)}%` : ''}
-
-RECENT PRICE HISTORY (last 15 data points):
+- Current ${asset} Price: ${formatUSD(context.currentPrice)}
+${context.high24h ? `- 24h High: ${formatUSD(context.high24h)}` : ''}
+${context.low24h ? `- 24h Low: ${formatUSD(context.low24h)}` : ''}
+${formatChanges(context)}${formatVolatility(context)}${formatIndicators(context)}
+RECENT PRICE HISTORY (last 30 data points, 1-min intervals):
 ${priceHistoryStr}
 
+BOT PERFORMANCE (cumulative):
+- Wins: ${context.performance.wins}
+- Losses: ${context.performance.losses}
+- Ties: ${context.performance.ties}
+- Win Rate: ${context.performance.winRate.toFixed(1)}%
+
 TASK:
-Decide if you should accept this challenge. You would be betting that BTC goes ${ourDirection}.
-Consider the current trend, the duration, and your confidence level.
+Decide if you should accept this challenge. You would be betting that ${asset} goes ${ourDirection} over the next ${formatDuration(challenge.duration)}.
+Judge the indicators over the battle's duration, not just the last few minutes.
+Consider the creator's track record - a consistently winning creator may have an edge.
 Only accept if you have a genuine edge - remember you're betting against another player's prediction.
 
 IMPORTANT: Respond with ONLY a valid JSON object, no other text:
 {
   "accept": true | false,
-  "confidence": <0-100>,
+  "confidence": <0-100, your confidence that ${asset} goes ${ourDirection}>,
   "reasoning": "<brief 1-2 sentence explanation>"
 }`;
 }
@@ -157,7 +286,7 @@ export function buildMarketAnalysisPrompt(context: PredictionContext): string {
     })
     .join('\n');
 
-  return `Analyze the following BTC price data and provide insights:
+  return `Analyze the following ${context.asset} price data and provide insights:
 
 CURRENT PRICE: ${formatUSD(context.currentPrice)}
 ${context.change1h !== undefined ? `1H CHANGE: ${context.change1h.toFixed(2)}%` : ''}
@@ -0,0 +1,117 @@
+import { AIAnalysis, AcceptAnalysis, AIClient, Challenge, PredictionContext, RuleSet, DIRECTION } from '../types';
+import { Logger } from '../utils';
+
+type Indicators = NonNullable<PredictionContext['indicators']>;
+
+const TREND = { bullish: 1, neutral: 0, bearish: -1 };
+const MOMENTUM = { strong_up: 1, up: 0.5, neutral: 0, down: -0.5, strong_down: -1 };
+
+/**
+ * Accept when the prediction is for the side we'd take (the opposite of the creator's)
+ */
+export function acceptFromPrediction(analysis: AIAnalysis, challenge?: Challenge): AcceptAnalysis {
+  const ourDirection = challenge?.direction === DIRECTION.UP ? 'DOWN' : 'UP';
+  return {
+    accept: challenge ? analysis.direction === ourDirection : analysis.direction !== 'NEUTRAL',
+    confidence: analysis.confidence,
+    reasoning: analysis.reasoning,
+  };
+}
+
+/**
+ * Deterministic predictor that scores the technical indicators with configurable rules.
+ * Free and offline: a fallback when the AI is down, and a baseline to compare it against.
+ */
+export class RuleBasedClient implements AIClient {
+  private rules: RuleSet;
+  private logger?: Logger;
+
+  constructor(rules: RuleSet, logger?: Logger) {
+    this.rules = rules;
+    this.logger = logger;
+  }
+
+  /**
+   * Each enabled rule's vote (-1 DOWN to +1 UP) and the reason for it
+   */
+  private vote(indicators: Indicators, price: number): { rule: string; weight: number; signal: number; reason: string }[] {
+    const { rsiMeanReversion, emaCrossover, smaAlignment, trendAlignment, momentum } = this.rules;
+    const { rsi14, ema12, ema26, sma20, sma50, trend1h, trend24h } = indicators;
+
+    const rsiSignal = rsi14 >= rsiMeanReversion.overbought ? -1 : rsi14 <= rsiMeanReversion.oversold ? 1 : 0;
+    const smaSignal = price > sma20 && sma20 > sma50 ? 1 : price < sma20 && sma20 < sma50 ? -1 : 0;
+
+    return [
+      {
+        rule: 'rsiMeanReversion',
+        weight: rsiMeanReversion.weight,
+        signal: rsiSignal,
+        reason: `RSI ${rsi14.toFixed(1)}${rsiSignal > 0 ? ' oversold' : rsiSignal < 0 ? ' overbought' : ''}`,
+      },
+      {
+        rule: 'emaCrossover',
+        weight: emaCrossover.weight,
+        signal: Math.sign(ema12 - ema26),
+        reason: `EMA12 ${ema12 >= ema26 ? 'above' : 'below'} EMA26`,
+      },
+      {
+        rule: 'smaAlignment',
+        weight: smaAlignment.weight,
+        signal: smaSignal,
+        reason: smaSignal > 0 ? 'price > SMA20 > SMA50' : smaSignal < 0 ? 'price < SMA20 < SMA50' : 'SMAs mixed',
+      },
+      {
+        rule: 'trendAlignment',
+        weight: trendAlignment.weight,
+        signal: (TREND[trend1h] + TREND[trend24h]) / 2,
+        reason: `trend ${trend1h} 1h / ${trend24h} 24h`,
+      },
+      {
+        rule: 'momentum',
+        weight: momentum.weight,
+        signal: MOMENTUM[indicators.momentum],
+        reason: `momentum ${indicators.momentum}`,
+      },
+    ].filter((v) => v.weight > 0);
+  }
+
+  async analyze(_prompt: string, context?: PredictionContext): Promise<AIAnalysis> {
+    const neutral = (reasoning: string): AIAnalysis => ({
+      direction: 'NEUTRAL',
+      confidence: 50,
+      reasoning,
+      recommendedDuration: this.rules.duration,
+      suggestedStake: this.rules.stakePercent,
+    });
+
+    if (!context?.indicators) return neutral('No indicators available');
+
+    const votes = this.vote(context.indicators, context.currentPrice);
+    const totalWeight = votes.reduce((sum, v) => sum + v.weight, 0);
+    if (totalWeight === 0) return neutral('All rules disabled');
+
+    // Weighted mean of the votes: +1 when every rule says UP, -1 when every rule says DOWN
+    const score = votes.reduce((sum, v) => sum + v.weight * v.signal, 0) / totalWeight;
+    const reasoning = `Rule score ${score >= 0 ? '+' : ''}${score.toFixed(2)} (${votes.map((v) => v.reason).join(', ')})`;
+
+    this.logger?.debug('Rule-based prediction', {
+      asset: context.asset,
+      score,
+      votes: Object.fromEntries(votes.map((v) => [v.rule, v.signal])),
+    });
+
+    if (Math.abs(score) < this.rules.minScore) return neutral(reasoning);
+
+    return {
+      direction: score > 0 ? 'UP' : 'DOWN',
+      confidence: Math.round(50 + Math.abs(score) * (this.rules.maxConfidence - 50)),
+      reasoning,
+      recommendedDuration: this.rules.duration,
+      suggestedStake: this.rules.stakePercent,
+    };
+  }
+
+  async evaluateAccept(prompt: string, context?: PredictionContext, challenge?: Challenge): Promise<AcceptAnalysis> {
+    return acceptFromPrediction(await this.analyze(prompt, context), challenge);
+  }
+}
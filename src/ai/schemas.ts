@@ -0,0 +1,67 @@
+import { z } from 'zod';
+
+// Responses our prompts ask for. Every reply is validated against the zod
+// schemas; the JSON schemas describe the same shape to providers with native
+// structured output (Claude tool use, OpenAI and compatible servers'
+// 'json_schema' response format), so they can only produce valid responses.
+
+export const PredictionResponseSchema = z.object({
+  direction: z.enum(['UP', 'DOWN', 'NEUTRAL']),
+  confidence: z.number().min(0).max(100),
+  reasoning: z.string(),
+  duration_seconds: z.number().int().positive(),
+  stake_percent: z.number().positive().max(100),
+});
+
+export const AcceptResponseSchema = z.object({
+  accept: z.boolean(),
+  confidence: z.number().min(0).max(100),
+  reasoning: z.string(),
+});
+
+export type PredictionResponse = z.infer<typeof PredictionResponseSchema>;
+export type AcceptResponse = z.infer<typeof AcceptResponseSchema>;
+
+// Ranges are left out: strict json_schema modes reject minimum/maximum, the zod schemas check them
+export const PREDICTION_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    direction: { type: 'string', enum: ['UP', 'DOWN', 'NEUTRAL'] },
+    confidence: { type: 'number' },
+    reasoning: { type: 'string' },
+    duration_seconds: { type: 'integer' },
+    stake_percent: { type: 'number' },
+  },
+  required: ['direction', 'confidence', 'reasoning', 'duration_seconds', 'stake_percent'],
+  additionalProperties: false,
+} as const;
+
+export const ACCEPT_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    accept: { type: 'boolean' },
+    confidence: { type: 'number' },
+    reasoning: { type: 'string' },
+  },
+  required: ['accept', 'confidence', 'reasoning'],
+  additionalProperties: false,
+} as const;
+
+// What each call asks for: a name for the tool / response format, and its schema
+export interface ResponseSpec {
+  name: string;
+  description: string;
+  schema: Record<string, unknown>;
+}
+
+export const PREDICTION_RESPONSE: ResponseSpec = {
+  name: 'submit_prediction',
+  description: 'Submit the price direction prediction',
+  schema: PREDICTION_JSON_SCHEMA,
+};
+
+export const ACCEPT_RESPONSE: ResponseSpec = {
+  name: 'submit_accept_decision',
+  description: 'Submit whether to accept the challenge',
+  schema: ACCEPT_JSON_SCHEMA,
+};
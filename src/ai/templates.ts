@@ -0,0 +1,72 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { PredictionContext } from '../types';
+import { contextHash } from './cache';
+
+// Templates shipped with the bot: prompts/ at the package root (same path from src/ and dist/)
+export const BUILTIN_PROMPT_DIR = path.resolve(__dirname, '../../prompts');
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+export interface PromptTemplate {
+  id: string; // file name without .txt, e.g. prediction-v1
+  hash: string; // of the file contents, so an edited template is told apart from the original
+  text: string;
+}
+
+/**
+ * Load a template by id, from dir first and then the built-in templates.
+ * Placeholders ({{name}}) must all be in allowed, so typos fail at startup.
+ */
+export function loadPromptTemplate(id: string, allowed: readonly string[], dir?: string): PromptTemplate {
+  const dirs = dir ? [path.resolve(process.cwd(), dir), BUILTIN_PROMPT_DIR] : [BUILTIN_PROMPT_DIR];
+  const file = dirs.map((d) => path.join(d, `${id}.txt`)).find((f) => fs.existsSync(f));
+  if (!file) {
+    throw new Error(`Prompt template "${id}" not found in ${dirs.join(', ')}`);
+  }
+
+  const raw = fs.readFileSync(file, 'utf-8');
+  const unknown = [...raw.matchAll(PLACEHOLDER)].map((m) => m[1]).filter((name) => !allowed.includes(name));
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown variable(s) in prompt template "${id}": ${[...new Set(unknown)].join(', ')}. Available: ${allowed.join(', ')}`
+    );
+  }
+
+  return {
+    id,
+    hash: createHash('sha1').update(raw).digest('hex').slice(0, 12),
+    text: raw.replace(/\r?\n$/, ''),
+  };
+}
+
+/**
+ * Substitute {{name}} placeholders
+ */
+export function renderTemplate(template: PromptTemplate, variables: Record<string, string>): string {
+  return template.text.replace(PLACEHOLDER, (_match, name: string) => variables[name] ?? '');
+}
+
+/**
+ * Splits predictions between a template and an optional challenger (A/B test).
+ * The pick is a hash of the market context, so it is reproducible (backtests)
+ * and the same question always gets the same prompt (prediction cache).
+ */
+export class PromptSelector {
+  readonly primary: PromptTemplate;
+  readonly challenger?: PromptTemplate;
+  readonly split: number; // share of predictions that use the challenger
+
+  constructor(primary: PromptTemplate, challenger?: PromptTemplate, split: number = 0.5) {
+    this.primary = primary;
+    this.challenger = challenger;
+    this.split = split;
+  }
+
+  pick(context: PredictionContext): PromptTemplate {
+    if (!this.challenger) return this.primary;
+    const bucket = parseInt(contextHash(context).slice(0, 8), 16) / 0x100000000;
+    return bucket < this.split ? this.challenger : this.primary;
+  }
+}
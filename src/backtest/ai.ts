@@ -0,0 +1,73 @@
+import * as fs from 'fs';
+import { AIAnalysis, AcceptAnalysis, AIClient, Challenge, PredictionContext } from '../types';
+import { RuleBasedClient, acceptFromPrediction } from '../ai/rules';
+import { loadRuleSet } from '../config/rules';
+import { nowSeconds } from '../utils';
+
+const NEUTRAL: AIAnalysis = {
+  direction: 'NEUTRAL',
+  confidence: 50,
+  reasoning: 'No signal',
+  recommendedDuration: 14400,
+  suggestedStake: 3,
+};
+
+/**
+ * Stand-in for the AI so backtests are free and reproducible: the rule-based
+ * predictor with the default rules, whatever AI_RULES_FILE says
+ */
+export class DeterministicAIClient extends RuleBasedClient {
+  constructor() {
+    super(loadRuleSet());
+  }
+}
+
+interface RecordedDecision {
+  timestamp: number; // seconds
+  asset?: string;
+  direction: AIAnalysis['direction'];
+  confidence: number;
+  reasoning?: string;
+  duration_seconds?: number;
+  stake_percent?: number;
+}
+
+/**
+ * Replays predictions recorded earlier (e.g. exported from the decisions table).
+ * Uses the latest record at or before the simulated time, if it is less than an hour old.
+ */
+export class RecordedAIClient implements AIClient {
+  private records: RecordedDecision[];
+  private readonly MAX_AGE_SECONDS = 3600;
+
+  constructor(filePath: string) {
+    const data = JSON.parse(fs.readFileSync(filePath, 'utf8')) as RecordedDecision[];
+    this.records = data
+      .map((r) => ({ ...r, timestamp: r.timestamp > 1e12 ? Math.floor(r.timestamp / 1000) : r.timestamp }))
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  async analyze(_prompt: string, context?: PredictionContext): Promise<AIAnalysis> {
+    const now = nowSeconds();
+    let record: RecordedDecision | undefined;
+
+    for (const r of this.records) {
+      if (r.timestamp > now) break;
+      if (!r.asset || !context || r.asset === context.asset) record = r;
+    }
+
+    if (!record || now - record.timestamp > this.MAX_AGE_SECONDS) return NEUTRAL;
+
+    return {
+      direction: record.direction,
+      confidence: record.confidence,
+      reasoning: record.reasoning || 'Recorded decision',
+      recommendedDuration: record.duration_seconds || 14400,
+      suggestedStake: record.stake_percent || 3,
+    };
+  }
+
+  async evaluateAccept(prompt: string, context?: PredictionContext, challenge?: Challenge): Promise<AcceptAnalysis> {
+    return acceptFromPrediction(await this.analyze(prompt, context), challenge);
+  }
+}
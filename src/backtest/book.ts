@@ -0,0 +1,307 @@
+import { Action, TransactResult, Transactor } from '../blockchain';
+import { computeSettlement } from '../services';
+import {
+  Challenge,
+  Direction,
+  OracleIndex,
+  PriceBattleConfig,
+  BATTLE_STATUS,
+  DIRECTION,
+} from '../types';
+import { parseXPR, priceToU64, u64ToPrice } from '../utils';
+import { PriceSeries } from './data';
+
+// Synthetic player that posts challenges and takes the other side of ours
+export const SIM_COUNTERPARTY = 'simplayer';
+
+export interface BookOptions {
+  account: string;
+  oracleIndex: OracleIndex;
+  startingBalance: number; // XPR
+  contract: PriceBattleConfig;
+  offerInterval: number; // seconds between counterparty challenges (0 = none)
+  offerStake: number; // XPR
+  offerDurations: number[]; // seconds
+  fillDelay: number; // seconds before the counterparty accepts one of our challenges
+  resolveGrace: number; // seconds other resolvers leave ended battles/expired challenges for us
+  seed: number;
+}
+
+export interface BacktestTrade {
+  challengeId: number;
+  role: 'creator' | 'opponent';
+  direction: 'UP' | 'DOWN'; // our side
+  duration: number;
+  stake: number;
+  payout: number;
+  pnl: number;
+  outcome: 'win' | 'loss' | 'tie';
+  startedAt: number;
+  settledAt: number;
+}
+
+/**
+ * In-memory stand-in for the pricebattle contract.
+ * Interprets the same actions PriceBattleActions sends, fills and settles
+ * battles against the replayed price series, and tracks our XPR balance.
+ */
+export class SimulatedBook implements Transactor {
+  readonly trades: BacktestTrade[] = [];
+  balance: number;
+  resolverRewards = 0;
+
+  private series: PriceSeries;
+  private options: BookOptions;
+  private challenges = new Map<number, Challenge>();
+  private nextId = 1;
+  private txCount = 0;
+  private now = 0;
+  private lastOffer = 0;
+  private rngState: number;
+
+  constructor(series: PriceSeries, options: BookOptions) {
+    this.series = series;
+    this.options = options;
+    this.balance = options.startingBalance;
+    this.rngState = options.seed >>> 0 || 1;
+  }
+
+  get contract(): PriceBattleConfig {
+    return this.options.contract;
+  }
+
+  /**
+   * Every challenge the book has seen, newest first (like the contract table read in reverse)
+   */
+  all(): Challenge[] {
+    return [...this.challenges.values()].sort((a, b) => b.id - a.id);
+  }
+
+  get(id: number): Challenge | null {
+    return this.challenges.get(id) ?? null;
+  }
+
+  /**
+   * Move the book to a new point in time: settle ended battles and expire stale
+   * challenges nobody else handled, let the counterparty fill ours and post new offers
+   */
+  advance(now: number): void {
+    this.now = now;
+
+    for (const challenge of this.challenges.values()) {
+      const grace = this.options.resolveGrace;
+      if (challenge.status === BATTLE_STATUS.ACTIVE && now >= challenge.started_at + challenge.duration + grace) {
+        this.settle(challenge);
+      } else if (challenge.status === BATTLE_STATUS.OPEN && now >= challenge.expires_at + grace) {
+        this.expire(challenge);
+      } else if (
+        challenge.status === BATTLE_STATUS.OPEN &&
+        challenge.creator === this.options.account &&
+        now >= challenge.created_at + this.options.fillDelay
+      ) {
+        this.start(challenge, SIM_COUNTERPARTY);
+      }
+    }
+
+    if (this.options.offerInterval > 0 && now - this.lastOffer >= this.options.offerInterval) {
+      this.lastOffer = now;
+      this.postOffer();
+    }
+  }
+
+  /**
+   * Execute pricebattle/eosio.token actions against the book.
+   * Validates everything first so a failing transaction changes nothing.
+   */
+  async transact(actions: Action[]): Promise<TransactResult> {
+    const transfers = actions
+      .filter((a) => a.account === 'eosio.token' && a.name === 'transfer')
+      .reduce((sum, a) => sum + parseFloat(String(a.data.quantity).split(' ')[0]), 0);
+
+    if (transfers > this.balance + 1e-9) {
+      throw new Error('assertion failure with message: overdrawn balance');
+    }
+    for (const action of actions) {
+      this.validate(action);
+    }
+
+    this.balance -= transfers;
+    for (const action of actions) {
+      this.apply(action);
+    }
+
+    const id = `sim_${(++this.txCount).toString(16)}`;
+    return {
+      transaction_id: id,
+      processed: {
+        id,
+        block_num: 0,
+        block_time: new Date(this.now * 1000).toISOString(),
+        receipt: null,
+        elapsed: 0,
+        net_usage: 0,
+        scheduled: false,
+        action_traces: [],
+      },
+    };
+  }
+
+  private validate(action: Action): void {
+    if (action.account !== 'pricebattle') return;
+
+    const fail = (message: string) => {
+      throw new Error(`assertion failure with message: ${message}`);
+    };
+    const challenge = action.data.challenge_id !== undefined
+      ? this.challenges.get(Number(action.data.challenge_id))
+      : undefined;
+
+    switch (action.name) {
+      case 'create':
+        if (Number(action.data.oracle_index) !== this.options.oracleIndex) {
+          fail('oracle feed not available in backtest');
+        }
+        break;
+      case 'accept':
+        if (!challenge || challenge.status !== BATTLE_STATUS.OPEN) fail('challenge is not open');
+        if (challenge!.creator === action.data.opponent) fail('cannot accept own challenge');
+        break;
+      case 'cancel':
+      case 'expire':
+        if (!challenge || challenge.status !== BATTLE_STATUS.OPEN) fail('challenge is not open');
+        if (action.name === 'expire' && this.now < challenge!.expires_at) fail('challenge has not expired');
+        break;
+      case 'resolve':
+        if (!challenge || challenge.status !== BATTLE_STATUS.ACTIVE) fail('challenge is not active');
+        if (this.now < challenge!.started_at + challenge!.duration) fail('battle has not ended');
+        break;
+      default:
+        fail(`unsupported action ${action.name}`);
+    }
+  }
+
+  private apply(action: Action): void {
+    if (action.account !== 'pricebattle') return;
+
+    const challenge = this.challenges.get(Number(action.data.challenge_id));
+
+    switch (action.name) {
+      case 'create':
+        this.open(
+          action.data.creator,
+          parseXPR(String(action.data.amount).split(' ')[0]),
+          Number(action.data.direction) as Direction,
+          Number(action.data.duration)
+        );
+        break;
+      case 'accept':
+        this.start(challenge!, action.data.opponent);
+        break;
+      case 'cancel':
+        challenge!.status = BATTLE_STATUS.CANCELLED;
+        this.refund(challenge!);
+        break;
+      case 'expire':
+        this.expire(challenge!);
+        break;
+      case 'resolve':
+        this.settle(challenge!);
+        if (action.data.resolver === this.options.account) {
+          const pot = (parseInt(challenge!.amount, 10) / 10000) * 2;
+          const reward = pot * this.options.contract.resolver_percent / 100;
+          this.resolverRewards += reward;
+          this.balance += reward;
+        }
+        break;
+    }
+  }
+
+  private open(creator: string, rawAmount: number, direction: Direction, duration: number): Challenge {
+    const challenge: Challenge = {
+      id: this.nextId++,
+      creator,
+      opponent: '',
+      amount: String(rawAmount),
+      direction,
+      oracle_index: this.options.oracleIndex,
+      duration,
+      start_price: '0',
+      end_price: '0',
+      created_at: this.now,
+      started_at: 0,
+      expires_at: this.now + this.options.contract.challenge_expiry,
+      status: BATTLE_STATUS.OPEN,
+      winner: '',
+    };
+    this.challenges.set(challenge.id, challenge);
+    return challenge;
+  }
+
+  private start(challenge: Challenge, opponent: string): void {
+    challenge.opponent = opponent;
+    challenge.started_at = this.now;
+    challenge.start_price = priceToU64(this.series.priceAt(this.now));
+    challenge.status = BATTLE_STATUS.ACTIVE;
+  }
+
+  private expire(challenge: Challenge): void {
+    challenge.status = BATTLE_STATUS.EXPIRED;
+    this.refund(challenge);
+  }
+
+  private refund(challenge: Challenge): void {
+    if (challenge.creator === this.options.account) {
+      this.balance += parseInt(challenge.amount, 10) / 10000;
+    }
+  }
+
+  /**
+   * Settle against the price at started_at + duration.
+   * Moves smaller than min_price_move_bps count as a tie.
+   */
+  private settle(challenge: Challenge): void {
+    const endTime = challenge.started_at + challenge.duration;
+    const startPrice = u64ToPrice(challenge.start_price);
+    const endPrice = this.series.priceAt(endTime);
+    challenge.end_price = priceToU64(endPrice);
+
+    const moveBps = startPrice > 0 ? (Math.abs(endPrice - startPrice) / startPrice) * 10000 : 0;
+    if (endPrice === startPrice || moveBps < this.options.contract.min_price_move_bps) {
+      challenge.status = BATTLE_STATUS.TIE;
+    } else {
+      const wentUp = endPrice > startPrice;
+      const creatorWins = (challenge.direction === DIRECTION.UP) === wentUp;
+      challenge.status = BATTLE_STATUS.RESOLVED;
+      challenge.winner = creatorWins ? challenge.creator : challenge.opponent;
+    }
+
+    const result = computeSettlement(challenge, this.options.account, this.options.contract);
+    if (!result) return;
+
+    this.balance += result.payout;
+    const creatorUp = challenge.direction === DIRECTION.UP;
+    this.trades.push({
+      ...result,
+      direction: (result.role === 'creator') === creatorUp ? 'UP' : 'DOWN',
+      duration: challenge.duration,
+      startedAt: challenge.started_at,
+      settledAt: endTime,
+    });
+  }
+
+  private postOffer(): void {
+    const durations = this.options.offerDurations;
+    const direction = this.random() < 0.5 ? DIRECTION.UP : DIRECTION.DOWN;
+    const duration = durations[Math.floor(this.random() * durations.length)];
+    this.open(SIM_COUNTERPARTY, Math.round(this.options.offerStake * 10000), direction, duration);
+  }
+
+  // Small seeded PRNG (mulberry32) so runs are reproducible
+  private random(): number {
+    this.rngState = (this.rngState + 0x6d2b79f5) >>> 0;
+    let t = this.rngState;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+}
@@ -0,0 +1,111 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { OHLCCandle } from '../services';
+
+export interface PriceSample {
+  price: number;
+  timestamp: number; // seconds
+}
+
+/**
+ * Sorted price samples with fast point-in-time lookups
+ */
+export class PriceSeries {
+  readonly samples: PriceSample[];
+
+  constructor(samples: PriceSample[]) {
+    this.samples = [...samples].sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  get start(): number {
+    return this.samples[0]?.timestamp ?? 0;
+  }
+
+  get end(): number {
+    return this.samples[this.samples.length - 1]?.timestamp ?? 0;
+  }
+
+  /**
+   * Index of the last sample at or before timestamp (-1 if none)
+   */
+  indexAt(timestamp: number): number {
+    let lo = 0;
+    let hi = this.samples.length - 1;
+    let found = -1;
+
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      if (this.samples[mid].timestamp <= timestamp) {
+        found = mid;
+        lo = mid + 1;
+      } else {
+        hi = mid - 1;
+      }
+    }
+
+    return found;
+  }
+
+  /**
+   * Last known price at or before timestamp (first price if before the series)
+   */
+  priceAt(timestamp: number): number {
+    const index = this.indexAt(timestamp);
+    return this.samples[Math.max(0, index)]?.price ?? 0;
+  }
+
+  /**
+   * Aggregate samples into OHLC candles of the given size
+   */
+  toCandles(intervalSeconds: number): OHLCCandle[] {
+    const candles: OHLCCandle[] = [];
+    let current: OHLCCandle | null = null;
+
+    for (const { price, timestamp } of this.samples) {
+      const bucket = Math.floor(timestamp / intervalSeconds) * intervalSeconds * 1000;
+      if (!current || current.timestamp !== bucket) {
+        current = { timestamp: bucket, open: price, high: price, low: price, close: price };
+        candles.push(current);
+      } else {
+        current.high = Math.max(current.high, price);
+        current.low = Math.min(current.low, price);
+        current.close = price;
+      }
+    }
+
+    return candles;
+  }
+}
+
+/**
+ * Load OHLC candles exported from CoinGecko or an exchange.
+ * Accepts JSON ([[ts, open, high, low, close], ...] or [{ timestamp, open, high, low, close }])
+ * or CSV with a timestamp,open,high,low,close header. Timestamps may be seconds or milliseconds.
+ * Each candle becomes one sample at its close price.
+ */
+export function loadCandles(filePath: string): PriceSample[] {
+  const raw = fs.readFileSync(filePath, 'utf8');
+  let rows: number[][];
+
+  if (path.extname(filePath).toLowerCase() === '.csv') {
+    rows = raw
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter((line) => line && !/^[a-z]/i.test(line)) // skip header
+      .map((line) => line.split(',').map(Number));
+  } else {
+    const data = JSON.parse(raw) as any[];
+    rows = data.map((item) =>
+      Array.isArray(item)
+        ? item.map(Number)
+        : [item.timestamp, item.open, item.high, item.low, item.close].map(Number)
+    );
+  }
+
+  return rows
+    .filter((row) => row.length >= 5 && row.every((v) => Number.isFinite(v)))
+    .map((row) => ({
+      timestamp: row[0] > 1e12 ? Math.floor(row[0] / 1000) : row[0],
+      price: row[4],
+    }));
+}
@@ -0,0 +1,181 @@
+import { PriceBattleActions } from '../blockchain';
+import { initDatabase, DatabaseQueries, IN_MEMORY } from '../db';
+import { ResolverService, SettlementService, ContractRulesService } from '../services';
+import { createStrategy } from '../strategies';
+import {
+  AIClient,
+  BotConfig,
+  OracleIndex,
+  PriceBattleConfig,
+  BATTLE_STATUS,
+  DURATIONS,
+  assetSymbol,
+} from '../types';
+import { Logger, setClock } from '../utils';
+import { SimulatedBook } from './book';
+import { PriceSample, PriceSeries } from './data';
+import { BacktestReport, buildReport } from './report';
+import {
+  SimulatedChallengeService,
+  SimulatedMarketDataService,
+  SimulatedOracleService,
+} from './services';
+
+export interface BacktestOptions {
+  config: BotConfig; // mode, account and risk settings are used as-is
+  oracleIndex: OracleIndex;
+  samples: PriceSample[];
+  aiClient: AIClient;
+  from?: number; // seconds, defaults to first sample + warmup
+  to?: number; // seconds, defaults to last sample
+  startingBalance?: number; // XPR
+  tickInterval?: number; // seconds between strategy ticks
+  warmup?: number; // seconds of history before the first tick
+  offerInterval?: number; // seconds between counterparty challenges
+  offerStake?: number; // XPR
+  fillDelay?: number; // seconds
+  seed?: number;
+  contract?: Partial<PriceBattleConfig>;
+  logger?: Logger;
+}
+
+// Mainnet contract settings at the time of writing
+const DEFAULT_CONTRACT: PriceBattleConfig = {
+  paused: false,
+  fee_percent: 3,
+  resolver_percent: 2,
+  min_stake: '10000',
+  max_stake: '1000000000',
+  min_duration: 300,
+  max_duration: 86400,
+  challenge_expiry: 3600,
+  min_price_move_bps: 0,
+  treasury: 'pricebattle',
+};
+
+/**
+ * Replay a price series through a strategy against a simulated contract.
+ * Uses a throwaway in-memory database and a simulated clock, so nothing
+ * touches the chain, the AI provider or the bot's own database.
+ */
+export async function runBacktest(options: BacktestOptions): Promise<BacktestReport> {
+  const {
+    config,
+    oracleIndex,
+    aiClient,
+    logger,
+    startingBalance = 10000,
+    tickInterval = 60,
+    warmup = 48 * 3600,
+    offerInterval = 3600,
+    offerStake = 100,
+    fillDelay = 300,
+    seed = 1,
+  } = options;
+
+  const all = new PriceSeries(options.samples);
+  const to = options.to ?? all.end;
+  const series = options.to === undefined ? all : new PriceSeries(all.samples.filter((s) => s.timestamp <= to));
+  if (series.samples.length === 0) {
+    throw new Error('No price data to backtest');
+  }
+
+  const from = Math.max(options.from ?? 0, series.start + warmup);
+  if (from >= to) {
+    throw new Error('Not enough price data after warmup');
+  }
+
+  const contract = { ...DEFAULT_CONTRACT, ...options.contract };
+  const book = new SimulatedBook(series, {
+    account: config.account,
+    oracleIndex,
+    startingBalance,
+    contract,
+    offerInterval,
+    offerStake,
+    offerDurations: DURATIONS.map((d) => d.value as number).filter(
+      (d) => d >= contract.min_duration && d <= contract.max_duration
+    ),
+    fillDelay,
+    resolveGrace: tickInterval * 2,
+    seed,
+  });
+
+  const db = new DatabaseQueries(await initDatabase(IN_MEMORY), IN_MEMORY);
+  const challengeService = new SimulatedChallengeService(book, db, config.account, logger);
+  const oracleService = new SimulatedOracleService(series, logger);
+  const marketDataService = new SimulatedMarketDataService(series, logger);
+  const actions = new PriceBattleActions(book, config.account, config.permission, logger, config.batch);
+  const resolverService = new ResolverService(actions, challengeService, oracleService, db, logger);
+  const settlementService = new SettlementService(challengeService, db, config.account, logger);
+  const contractRules = new ContractRulesService(challengeService, logger);
+
+  const strategy = createStrategy(config.mode, {
+    resolverService,
+    settlementService,
+    challengeService,
+    contractRules,
+    oracleService,
+    marketDataService,
+    actions,
+    db,
+    config: { ...config, feeds: [oracleIndex] },
+    logger,
+    aiClient,
+  });
+  logger?.info('Strategy parameters', {
+    profile: config.strategyProfile ?? '(defaults)',
+    params: strategy.params,
+  });
+
+  let now = from;
+  setClock(() => now * 1000);
+
+  try {
+    // Seed price history that the strategy would already have recorded
+    let next = 0;
+    const recordUntil = (timestamp: number) => {
+      while (next < series.samples.length && series.samples[next].timestamp <= timestamp) {
+        const sample = series.samples[next++];
+        db.insertPrice(sample.price, sample.timestamp, oracleIndex);
+      }
+    };
+    recordUntil(from);
+
+    for (; now <= to; now += tickInterval) {
+      recordUntil(now);
+      book.advance(now);
+      challengeService.invalidateSnapshot();
+
+      try {
+        await strategy.tick();
+      } catch (error) {
+        logger?.error('Backtest tick failed', {
+          time: new Date(now * 1000).toISOString(),
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  } finally {
+    setClock(null);
+  }
+
+  const unsettled = book.all().filter(
+    (c) =>
+      (c.creator === config.account || c.opponent === config.account) &&
+      (c.status === BATTLE_STATUS.OPEN || c.status === BATTLE_STATUS.ACTIVE)
+  );
+
+  return buildReport({
+    asset: assetSymbol(oracleIndex),
+    mode: config.mode,
+    from,
+    to,
+    startingBalance,
+    endingBalance: book.balance,
+    resolverRewards: book.resolverRewards,
+    unsettled: unsettled.length,
+    lockedStake: unsettled.reduce((sum, c) => sum + parseInt(c.amount, 10) / 10000, 0),
+    trades: book.trades,
+  });
+}
@@ -0,0 +1,10 @@
+export { runBacktest, BacktestOptions } from './engine';
+export { buildReport, formatReport, BacktestReport, DurationStats } from './report';
+export { SimulatedBook, BacktestTrade, SIM_COUNTERPARTY } from './book';
+export { PriceSeries, PriceSample, loadCandles } from './data';
+export { DeterministicAIClient, RecordedAIClient } from './ai';
+export {
+  SimulatedChallengeService,
+  SimulatedOracleService,
+  SimulatedMarketDataService,
+} from './services';
@@ -0,0 +1,152 @@
+import { formatDuration } from '../utils';
+import { BacktestTrade } from './book';
+
+export interface DurationStats {
+  duration: number; // seconds
+  trades: number;
+  wins: number;
+  losses: number;
+  ties: number;
+  winRate: number; // % of decided battles
+  pnl: number;
+}
+
+export interface BacktestReport {
+  asset: string;
+  mode: string;
+  from: number;
+  to: number;
+  startingBalance: number;
+  endingBalance: number;
+  trades: number;
+  created: number;
+  accepted: number;
+  wins: number;
+  losses: number;
+  ties: number;
+  winRate: number; // % of decided battles
+  pnl: number; // XPR, battles only
+  resolverRewards: number; // XPR
+  maxDrawdown: number; // XPR, peak-to-trough of cumulative P&L
+  maxDrawdownPercent: number; // of peak equity
+  unsettled: number; // battles still open/active when the data ran out
+  lockedStake: number; // XPR staked in those battles (not in endingBalance)
+  byDuration: DurationStats[];
+}
+
+function winRate(wins: number, losses: number): number {
+  return wins + losses > 0 ? (wins / (wins + losses)) * 100 : 0;
+}
+
+/**
+ * Summarize the trades of a backtest run
+ */
+export function buildReport(params: {
+  asset: string;
+  mode: string;
+  from: number;
+  to: number;
+  startingBalance: number;
+  endingBalance: number;
+  resolverRewards: number;
+  unsettled: number;
+  lockedStake: number;
+  trades: BacktestTrade[];
+}): BacktestReport {
+  const trades = [...params.trades].sort((a, b) => a.settledAt - b.settledAt);
+
+  let pnl = 0;
+  let peak = 0;
+  let maxDrawdown = 0;
+  let maxDrawdownPercent = 0;
+  for (const trade of trades) {
+    pnl += trade.pnl;
+    peak = Math.max(peak, pnl);
+    const drawdown = peak - pnl;
+    if (drawdown > maxDrawdown) {
+      maxDrawdown = drawdown;
+      maxDrawdownPercent = (drawdown / (params.startingBalance + peak)) * 100;
+    }
+  }
+
+  const byDuration = new Map<number, DurationStats>();
+  for (const trade of trades) {
+    let stats = byDuration.get(trade.duration);
+    if (!stats) {
+      stats = { duration: trade.duration, trades: 0, wins: 0, losses: 0, ties: 0, winRate: 0, pnl: 0 };
+      byDuration.set(trade.duration, stats);
+    }
+    stats.trades++;
+    stats.pnl += trade.pnl;
+    if (trade.outcome === 'win') stats.wins++;
+    else if (trade.outcome === 'loss') stats.losses++;
+    else stats.ties++;
+  }
+  for (const stats of byDuration.values()) {
+    stats.winRate = winRate(stats.wins, stats.losses);
+  }
+
+  const wins = trades.filter((t) => t.outcome === 'win').length;
+  const losses = trades.filter((t) => t.outcome === 'loss').length;
+
+  return {
+    asset: params.asset,
+    mode: params.mode,
+    from: params.from,
+    to: params.to,
+    startingBalance: params.startingBalance,
+    endingBalance: params.endingBalance,
+    trades: trades.length,
+    created: trades.filter((t) => t.role === 'creator').length,
+    accepted: trades.filter((t) => t.role === 'opponent').length,
+    wins,
+    losses,
+    ties: trades.length - wins - losses,
+    winRate: winRate(wins, losses),
+    pnl,
+    resolverRewards: params.resolverRewards,
+    maxDrawdown,
+    maxDrawdownPercent,
+    unsettled: params.unsettled,
+    lockedStake: params.lockedStake,
+    byDuration: [...byDuration.values()].sort((a, b) => a.duration - b.duration),
+  };
+}
+
+/**
+ * Render a report for the terminal
+ */
+export function formatReport(report: BacktestReport): string {
+  const date = (ts: number) => new Date(ts * 1000).toISOString().replace('T', ' ').slice(0, 16);
+  const signed = (n: number) => `${n >= 0 ? '+' : ''}${n.toFixed(4)}`;
+
+  const lines = [
+    `=== Backtest: ${report.asset} (${report.mode}) ===`,
+    `Period:        ${date(report.from)} -> ${date(report.to)} UTC`,
+    `Balance:       ${report.startingBalance.toFixed(4)} -> ${report.endingBalance.toFixed(4)} XPR`,
+    `Battles:       ${report.trades} (${report.created} created, ${report.accepted} accepted)`,
+    `Record:        ${report.wins}W / ${report.losses}L / ${report.ties}T`,
+    `Win rate:      ${report.winRate.toFixed(1)}%`,
+    `P&L:           ${signed(report.pnl)} XPR`,
+    `Resolver:      ${signed(report.resolverRewards)} XPR`,
+    `Max drawdown:  ${report.maxDrawdown.toFixed(4)} XPR (${report.maxDrawdownPercent.toFixed(2)}%)`,
+  ];
+
+  if (report.unsettled > 0) {
+    lines.push(
+      `Unsettled:     ${report.unsettled} (${report.lockedStake.toFixed(4)} XPR still staked at end of data)`
+    );
+  }
+
+  if (report.byDuration.length > 0) {
+    lines.push('', 'By duration:');
+    for (const stats of report.byDuration) {
+      lines.push(
+        `  ${formatDuration(stats.duration).padEnd(10)} ${String(stats.trades).padStart(4)} battles  ` +
+          `${stats.wins}W/${stats.losses}L/${stats.ties}T  ${stats.winRate.toFixed(1)}%  ${signed(stats.pnl)} XPR`
+      );
+    }
+  }
+
+  return lines.join('\n');
+}
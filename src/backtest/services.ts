@@ -0,0 +1,158 @@
+import { RpcClient } from '../blockchain';
+import { DatabaseQueries } from '../db';
+import {
+  ChallengeService,
+  ChallengeSnapshot,
+  MarketDataService,
+  MarketData,
+  MultiTimeframeData,
+  OHLCCandle,
+  OracleService,
+  OraclePrice,
+} from '../services';
+import { Challenge, ChallengeTransition, PlayerStats, PriceBattleConfig, BATTLE_STATUS } from '../types';
+import { Logger, nowMs, nowSeconds, percentChange } from '../utils';
+import { SimulatedBook } from './book';
+import { PriceSeries } from './data';
+
+// An RPC client with no endpoints - the simulated services never call it
+const offlineRpc = () => new RpcClient([]);
+
+/**
+ * Challenge views served from the simulated book instead of the chain
+ */
+export class SimulatedChallengeService extends ChallengeService {
+  private book: SimulatedBook;
+  private simAccount: string;
+
+  constructor(book: SimulatedBook, db: DatabaseQueries, account: string, logger?: Logger) {
+    super(offlineRpc(), db, account, logger);
+    this.book = book;
+    this.simAccount = account;
+  }
+
+  async getSnapshot(): Promise<ChallengeSnapshot> {
+    const all = this.book.all();
+    return {
+      fetchedAt: nowMs(),
+      all,
+      open: all.filter((c) => c.status === BATTLE_STATUS.OPEN),
+      active: all.filter((c) => c.status === BATTLE_STATUS.ACTIVE),
+      ours: all.filter((c) => c.creator === this.simAccount || c.opponent === this.simAccount),
+    };
+  }
+
+  async syncChallenges(): Promise<ChallengeTransition[]> {
+    return [];
+  }
+
+  async fetchAllChallenges(): Promise<Challenge[]> {
+    return this.book.all();
+  }
+
+  async getAllChallenges(limit: number = 200): Promise<Challenge[]> {
+    return this.book.all().slice(0, limit);
+  }
+
+  async getChallenge(id: number): Promise<Challenge | null> {
+    return this.book.get(id);
+  }
+
+  async getConfig(): Promise<PriceBattleConfig | null> {
+    return this.book.contract;
+  }
+
+  async getPlayerStats(): Promise<PlayerStats | null> {
+    return null;
+  }
+
+  async getBalance(): Promise<number> {
+    return this.book.balance;
+  }
+}
+
+/**
+ * Oracle prices read from the replayed series at the simulated time
+ */
+export class SimulatedOracleService extends OracleService {
+  private series: PriceSeries;
+
+  constructor(series: PriceSeries, logger?: Logger) {
+    super(offlineRpc(), logger);
+    this.series = series;
+  }
+
+  async getPrice(feedIndex: number): Promise<OraclePrice> {
+    return {
+      price: this.series.priceAt(nowSeconds()),
+      timestamp: nowMs(),
+      feedIndex,
+    };
+  }
+}
+
+/**
+ * Market data and indicators computed from the replayed series,
+ * using only candles that had closed by the simulated time
+ */
+export class SimulatedMarketDataService extends MarketDataService {
+  private series: PriceSeries;
+  private candles1h: OHLCCandle[];
+  private candles4h: OHLCCandle[];
+  private candles1d: OHLCCandle[];
+
+  constructor(series: PriceSeries, logger?: Logger) {
+    super(logger);
+    this.series = series;
+    this.candles1h = series.toCandles(3600);
+    this.candles4h = series.toCandles(4 * 3600);
+    this.candles1d = series.toCandles(86400);
+  }
+
+  async getMarketData(): Promise<MultiTimeframeData> {
+    const now = nowSeconds();
+
+    return this.buildAnalysis(
+      this.currentData(now),
+      closedBefore(this.candles1h, now, 3600).slice(-24),
+      closedBefore(this.candles4h, now, 4 * 3600).slice(-42),
+      closedBefore(this.candles1d, now, 86400).slice(-30)
+    );
+  }
+
+  private currentData(now: number): MarketData {
+    const price = this.series.priceAt(now);
+    const start = Math.max(0, this.series.indexAt(now - 86400));
+    const end = this.series.indexAt(now);
+    const window = this.series.samples.slice(start, end + 1).map((s) => s.price);
+
+    const high24h = window.length > 0 ? Math.max(...window) : price;
+    const low24h = window.length > 0 ? Math.min(...window) : price;
+    const range = high24h - low24h;
+
+    return {
+      price,
+      high24h,
+      low24h,
+      volume24h: 0,
+      marketCap: 0,
+      change1h: percentChange(this.series.priceAt(now - 3600), price),
+      change24h: percentChange(this.series.priceAt(now - 86400), price),
+      change7d: percentChange(this.series.priceAt(now - 7 * 86400), price),
+      change30d: percentChange(this.series.priceAt(now - 30 * 86400), price),
+      volatility24h: price > 0 ? (range / price) * 100 : 0,
+      pricePosition: range > 0 ? ((price - low24h) / range) * 100 : 50,
+      lastUpdated: now * 1000,
+    };
+  }
+}
+
+/**
+ * Candles whose interval had fully elapsed by `now` (candle timestamps are ms)
+ */
+function closedBefore(candles: OHLCCandle[], now: number, intervalSeconds: number): OHLCCandle[] {
+  const cutoff = (now - intervalSeconds) * 1000;
+  let end = candles.length;
+  while (end > 0 && candles[end - 1].timestamp > cutoff) end--;
+  return candles.slice(0, end);
+}
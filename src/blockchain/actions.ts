@@ -1,24 +1,27 @@
-import { TransactionSigner } from './signer';
-import { Action, TransactResult, Authorization } from './types';
-import { Direction, ORACLE } from '../types';
+import { Action, TransactResult, Authorization, Transactor } from './types';
+import { BatchItemResult, DEFAULT_BATCH, MootCheck, transactBatched } from './batch';
+import { BatchConfig, Direction, ORACLE } from '../types';
 import { Logger, formatXPRWithSymbol } from '../utils';
 
 export class PriceBattleActions {
-  private signer: TransactionSigner;
+  private signer: Transactor;
   private account: string;
   private permission: string;
   private logger?: Logger;
+  private batch: BatchConfig;
 
   constructor(
-    signer: TransactionSigner,
+    signer: Transactor,
     account: string,
     permission: string = 'active',
-    logger?: Logger
+    logger?: Logger,
+    batch: BatchConfig = DEFAULT_BATCH
   ) {
     this.signer = signer;
     this.account = account;
     this.permission = permission;
     this.logger = logger;
+    this.batch = batch;
   }
 
   private get auth(): Authorization {
@@ -38,6 +41,7 @@ export class PriceBattleActions {
 
     this.logger?.info('Creating challenge', {
       amount,
+      oracleIndex,
       direction: direction === 1 ? 'UP' : 'DOWN',
       duration,
     });
@@ -179,6 +183,60 @@ export class PriceBattleActions {
     return this.signer.transact(actions);
   }
 
+  /**
+   * Expire several challenges, batched into as few transactions as the budget allows.
+   * Returns a result per challenge; a failing one doesn't fail the others.
+   * recheck names challenges that can no longer be expired, when a batch fails.
+   */
+  async expireChallenges(challengeIds: number[], recheck?: MootCheck<number>): Promise<BatchItemResult<number>[]> {
+    this.logger?.info('Expiring challenges', { challengeIds });
+
+    return transactBatched(
+      this.signer,
+      challengeIds.map((challengeId) => ({
+        key: challengeId,
+        actions: [
+          {
+            account: 'pricebattle',
+            name: 'expire',
+            authorization: [this.auth],
+            data: { challenge_id: challengeId },
+          },
+        ],
+      })),
+      this.batch,
+      this.logger,
+      recheck
+    );
+  }
+
+  /**
+   * Resolve several battles, batched into as few transactions as the budget allows.
+   * Returns a result per battle; a failing one doesn't fail the others.
+   * recheck names battles someone else has resolved, when a batch fails.
+   */
+  async resolveBattles(challengeIds: number[], recheck?: MootCheck<number>): Promise<BatchItemResult<number>[]> {
+    this.logger?.info('Resolving battles', { challengeIds });
+
+    return transactBatched(
+      this.signer,
+      challengeIds.map((challengeId) => ({
+        key: challengeId,
+        actions: [
+          {
+            account: 'pricebattle',
+            name: 'resolve',
+            authorization: [this.auth],
+            data: { challenge_id: challengeId, resolver: this.account },
+          },
+        ],
+      })),
+      this.batch,
+      this.logger,
+      recheck
+    );
+  }
+
   /**
    * Get the account this actions instance operates on
    */
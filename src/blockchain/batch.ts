@@ -0,0 +1,132 @@
+import { Action, TransactResult, Transactor } from './types';
+import { classifyContractError } from './errors';
+import { BatchConfig, ContractErrorCategory } from '../types';
+import { Logger } from '../utils';
+
+export const DEFAULT_BATCH: BatchConfig = { maxActions: 10 };
+
+// Actions for one item of a batch (e.g. the resolve of one challenge)
+export interface BatchItem<K> {
+  key: K;
+  actions: Action[];
+}
+
+export interface BatchItemResult<K> {
+  key: K;
+  success: boolean;
+  txId?: string;
+  result?: TransactResult; // the (shared) transaction, for its traces
+  error?: string;
+  category?: ContractErrorCategory; // of the error
+}
+
+// Failures that say nothing about which item is at fault: splitting the
+// transaction would only repeat them
+const BATCH_WIDE: ContractErrorCategory[] = [
+  'resources_exhausted',
+  'insufficient_balance',
+  'expired_transaction',
+  'network',
+  'paused',
+];
+
+// Failures from an item that no longer applies (another resolver was first,
+// the challenge is gone): a recheck can tell which ones without splitting
+const MOOT: ContractErrorCategory[] = ['already_resolved', 'not_open'];
+
+// Keys among those given whose actions no longer apply, e.g. battles no longer ACTIVE
+export type MootCheck<K> = (keys: K[]) => Promise<K[]>;
+
+/**
+ * Push items in as few transactions as the budget allows: up to maxActions
+ * actions per transaction, with the CPU/NET caps in its header. A transaction
+ * that fails is split in half and each half retried, down to single items, so
+ * one bad item only fails itself; the halves go out concurrently. When the
+ * failure says an item no longer applies and a recheck is given, the moot
+ * items are dropped and the rest retried in one go instead. Batch-wide
+ * failures (CPU/NET, network, ...) fail every item without splitting.
+ */
+export async function transactBatched<K>(
+  transactor: Transactor,
+  items: BatchItem<K>[],
+  budget: BatchConfig = DEFAULT_BATCH,
+  logger?: Logger,
+  recheck?: MootCheck<K>
+): Promise<BatchItemResult<K>[]> {
+  const chunks: BatchItem<K>[][] = [];
+  let chunk: BatchItem<K>[] = [];
+  let size = 0;
+  for (const item of items) {
+    if (chunk.length > 0 && size + item.actions.length > budget.maxActions) {
+      chunks.push(chunk);
+      chunk = [];
+      size = 0;
+    }
+    chunk.push(item);
+    size += item.actions.length;
+  }
+  if (chunk.length > 0) chunks.push(chunk);
+
+  const results = await Promise.all(chunks.map((c) => transactBisecting(transactor, c, budget, logger, recheck)));
+  return results.flat();
+}
+
+async function transactBisecting<K>(
+  transactor: Transactor,
+  items: BatchItem<K>[],
+  budget: BatchConfig,
+  logger?: Logger,
+  recheck?: MootCheck<K>
+): Promise<BatchItemResult<K>[]> {
+  try {
+    const result = await transactor.transact(items.flatMap((item) => item.actions), {
+      maxCpuUsageMs: budget.maxCpuUsageMs,
+      maxNetUsageWords: budget.maxNetUsageWords,
+    });
+    if (items.length > 1) {
+      logger?.debug('Batch transaction succeeded', {
+        txId: result.transaction_id,
+        items: items.length,
+        cpuUs: result.processed?.receipt?.cpu_usage_us,
+        netWords: result.processed?.receipt?.net_usage_words,
+      });
+    }
+    return items.map((item) => ({ key: item.key, success: true, txId: result.transaction_id, result }));
+  } catch (error) {
+    const { message, category } = classifyContractError(error);
+    if (items.length === 1 || BATCH_WIDE.includes(category)) {
+      return items.map((item) => ({ key: item.key, success: false, error: message, category }));
+    }
+
+    if (recheck && MOOT.includes(category)) {
+      const checked = await recheck(items.map((item) => item.key)).catch(() => [] as K[]);
+      const moot = items.filter((item) => checked.includes(item.key));
+      if (moot.length > 0) {
+        logger?.info('Batch transaction failed, dropping items that no longer apply', {
+          items: items.length,
+          dropped: moot.map((item) => item.key),
+          category,
+        });
+        const rest = items.filter((item) => !checked.includes(item.key));
+        const retried = rest.length > 0 ? await transactBisecting(transactor, rest, budget, logger, recheck) : [];
+        const results = [
+          ...moot.map((item) => ({ key: item.key, success: false, error: message, category })),
+          ...retried,
+        ];
+        return items.map((item) => results.find((r) => r.key === item.key)!);
+      }
+    }
+
+    const middle = Math.ceil(items.length / 2);
+    logger?.warn('Batch transaction failed, splitting it', {
+      items: items.length,
+      error: message,
+      category,
+    });
+    const [first, second] = await Promise.all([
+      transactBisecting(transactor, items.slice(0, middle), budget, logger, recheck),
+      transactBisecting(transactor, items.slice(middle), budget, logger, recheck),
+    ]);
+    return [...first, ...second];
+  }
+}
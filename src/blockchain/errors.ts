@@ -0,0 +1,101 @@
+import { ContractErrorCategory, ErrorHandling } from '../types';
+
+// What callers should do about each category: try again later, drop the
+// action (it is moot) or tell the operator
+const HANDLING: Record<ContractErrorCategory, ErrorHandling> = {
+  already_resolved: 'skip',
+  not_open: 'skip',
+  not_ended: 'retry',
+  insufficient_balance: 'alert',
+  resources_exhausted: 'alert',
+  expired_transaction: 'retry',
+  duplicate: 'skip',
+  paused: 'skip',
+  network: 'retry',
+  unknown: 'alert',
+};
+
+// Matched against the error message plus the RPC error's name and details, first match wins
+const RULES: { category: ContractErrorCategory; pattern: RegExp }[] = [
+  { category: 'duplicate', pattern: /tx_duplicate|duplicate transaction/i },
+  { category: 'expired_transaction', pattern: /expired_tx_exception|expired transaction|transaction has expired/i },
+  {
+    category: 'resources_exhausted',
+    pattern: /tx_cpu_usage_exceeded|tx_net_usage_exceeded|ram_usage_exceeded|leeway_deadline_exception|deadline_exception|billed cpu time|cpu usage limit|net usage limit|insufficient ram/i,
+  },
+  { category: 'insufficient_balance', pattern: /overdrawn balance|insufficient (balance|funds)/i },
+  { category: 'paused', pattern: /paused/i },
+  { category: 'already_resolved', pattern: /already resolved|not active|battle (is )?not (in )?active/i },
+  { category: 'not_ended', pattern: /not (yet )?ended|has not ended|still running|too early/i },
+  {
+    category: 'not_open',
+    pattern: /not open|already accepted|not found|does not exist|challenge (has )?expired|own challenge/i,
+  },
+  {
+    category: 'network',
+    // HTTP 502/503/504 only as a status, not any "502" in an amount or id
+    pattern:
+      /ECONNREFUSED|ECONNRESET|ETIMEDOUT|ENOTFOUND|EAI_AGAIN|socket hang up|fetch failed|network|timeout|\b(?:HTTP|status(?: code)?)\W*50[234]\b|\b50[234] (?:Bad Gateway|Service Unavailable|Gateway Time-?out)/i,
+  },
+];
+
+// The node's response carried by RpcError from @proton/js
+interface RpcErrorJson {
+  error?: {
+    name?: string;
+    what?: string;
+    details?: { message?: string }[];
+  };
+}
+
+function rpcErrorJson(error: unknown): RpcErrorJson | undefined {
+  if (typeof error !== 'object' || error === null || !('json' in error)) return undefined;
+  const json = (error as { json: unknown }).json;
+  return typeof json === 'object' && json !== null ? (json as RpcErrorJson) : undefined;
+}
+
+/**
+ * A failed transaction, classified so callers can decide to retry, skip or alert
+ */
+export class ContractError extends Error {
+  readonly category: ContractErrorCategory;
+  readonly handling: ErrorHandling;
+  readonly cause?: unknown;
+
+  constructor(message: string, category: ContractErrorCategory, cause?: unknown) {
+    super(message);
+    this.name = 'ContractError';
+    this.category = category;
+    this.handling = errorHandling(category);
+    this.cause = cause;
+  }
+}
+
+/**
+ * Classify an error from a transaction (eosio assertion, RPC or network error).
+ * A ContractError is returned as is.
+ */
+export function classifyContractError(error: unknown): ContractError {
+  if (error instanceof ContractError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const details = rpcErrorJson(error)?.error;
+  const text = [
+    message,
+    details?.name,
+    details?.what,
+    ...(Array.isArray(details?.details) ? details.details.map((d) => d?.message) : []),
+  ]
+    .filter(Boolean)
+    .join(' | ');
+
+  const rule = RULES.find((r) => r.pattern.test(text));
+  return new ContractError(message, rule?.category ?? 'unknown', error);
+}
+
+/**
+ * Whether to retry, skip or alert on an error category
+ */
+export function errorHandling(category: ContractErrorCategory): ErrorHandling {
+  return HANDLING[category];
+}
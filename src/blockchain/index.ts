@@ -1,4 +1,7 @@
 export { RpcClient } from './rpc';
 export { TransactionSigner } from './signer';
 export { PriceBattleActions } from './actions';
+export { parseReceipts } from './traces';
+export { ContractError, classifyContractError, errorHandling } from './errors';
+export { transactBatched, BatchItem, BatchItemResult, MootCheck, DEFAULT_BATCH } from './batch';
 export * from './types';
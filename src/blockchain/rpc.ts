@@ -1,5 +1,5 @@
 import { JsonRpc } from '@proton/js';
-import { TableRowsParams, TableRowsResponse } from './types';
+import { AccountInfo, TableRowsParams, TableRowsResponse } from './types';
 import { Logger, withRetry } from '../utils';
 
 export class RpcClient {
@@ -27,6 +27,57 @@ export class RpcClient {
     return response.rows;
   }
 
+  /**
+   * Get a single page of table rows, including the continuation key
+   */
+  async getTableRowsPage<T = any>(params: TableRowsParams): Promise<TableRowsResponse<T>> {
+    return this.withFailover<TableRowsResponse<T>>(() =>
+      this.rpc.get_table_rows({
+        json: true,
+        ...params,
+      })
+    );
+  }
+
+  /**
+   * Get every row of a table by following next_key until there are no more pages.
+   * On a non-unique index next_key can repeat the current bound, so paging stops
+   * there and rows are deduplicated by `rowKey` when one is given.
+   */
+  async getAllTableRows<T = any>(
+    params: TableRowsParams,
+    rowKey?: (row: T) => string | number
+  ): Promise<T[]> {
+    const rows: T[] = [];
+    const seen = new Set<string | number>();
+    let lowerBound = params.lower_bound;
+
+    for (;;) {
+      const page = await this.getTableRowsPage<T>({ ...params, lower_bound: lowerBound });
+      for (const row of page.rows) {
+        if (rowKey) {
+          const key = rowKey(row);
+          if (seen.has(key)) continue;
+          seen.add(key);
+        }
+        rows.push(row);
+      }
+
+      if (!page.more || !page.next_key) break;
+      if (lowerBound !== undefined && String(page.next_key) === String(lowerBound)) {
+        this.logger?.warn('Table paging stalled on a repeated next_key', {
+          table: params.table,
+          indexPosition: params.index_position,
+          nextKey: page.next_key,
+        });
+        break;
+      }
+      lowerBound = page.next_key;
+    }
+
+    return rows;
+  }
+
   /**
    * Get currency balance for an account
    */
@@ -43,7 +94,7 @@ export class RpcClient {
   /**
    * Get account info
    */
-  async getAccount(account: string): Promise<any> {
+  async getAccount(account: string): Promise<AccountInfo> {
     return this.withFailover(() => this.rpc.get_account(account));
   }
 
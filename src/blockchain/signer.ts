@@ -1,21 +1,30 @@
 import { Api, JsonRpc, JsSignatureProvider } from '@proton/js';
-import { Action, TransactResult, TransactOptions } from './types';
+import { Action, TransactResult, TransactOptions, Transactor } from './types';
+import { BatchItem, BatchItemResult, transactBatched } from './batch';
+import { ContractError, classifyContractError } from './errors';
+import { BatchConfig } from '../types';
 import { Logger } from '../utils';
 
-export class TransactionSigner {
+export class TransactionSigner implements Transactor {
   private api: Api;
   private rpc: JsonRpc;
   private logger?: Logger;
   private dryRun: boolean;
+  private onError?: (error: ContractError, actions: string[]) => void;
 
   constructor(
     rpc: JsonRpc,
     privateKey: string,
-    options: { logger?: Logger; dryRun?: boolean } = {}
+    options: {
+      logger?: Logger;
+      dryRun?: boolean;
+      onError?: (error: ContractError, actions: string[]) => void; // e.g. to count failures
+    } = {}
   ) {
     this.rpc = rpc;
     this.logger = options.logger;
     this.dryRun = options.dryRun || false;
+    this.onError = options.onError;
 
     const signatureProvider = new JsSignatureProvider([privateKey]);
     this.api = new Api({
@@ -25,7 +34,8 @@ export class TransactionSigner {
   }
 
   /**
-   * Execute a transaction with one or more actions
+   * Execute a transaction with one or more actions. Failures are thrown as a
+   * ContractError with their category.
    */
   async transact(
     actions: Action[],
@@ -37,7 +47,7 @@ export class TransactionSigner {
       broadcast: true,
     };
 
-    const mergedOptions = { ...defaultOptions, ...options };
+    const { maxCpuUsageMs, maxNetUsageWords, ...txOptions } = { ...defaultOptions, ...options };
 
     // Log actions
     this.logger?.debug('Transacting', {
@@ -72,8 +82,12 @@ export class TransactionSigner {
 
     try {
       const result = await this.api.transact(
-        { actions },
-        mergedOptions
+        {
+          actions,
+          ...(maxCpuUsageMs && { max_cpu_usage_ms: maxCpuUsageMs }),
+          ...(maxNetUsageWords && { max_net_usage_words: maxNetUsageWords }),
+        },
+        txOptions
       );
 
       const txResult = result as TransactResult;
@@ -85,14 +99,28 @@ export class TransactionSigner {
 
       return txResult;
     } catch (error) {
-      this.logger?.error('Transaction failed', {
-        error: error instanceof Error ? error.message : String(error),
-        actions: actions.map((a) => `${a.account}::${a.name}`),
-      });
-      throw error;
+      const contractError = classifyContractError(error);
+      const names = actions.map((a) => `${a.account}::${a.name}`);
+      // Lost races and retryable hiccups are routine; only alerts need the operator
+      const details = { error: contractError.message, category: contractError.category, actions: names };
+      if (contractError.handling === 'alert') {
+        this.logger?.error('Transaction failed', details);
+      } else {
+        this.logger?.warn('Transaction failed', details);
+      }
+      this.onError?.(contractError, names);
+      throw contractError;
     }
   }
 
+  /**
+   * Execute many independent items in as few transactions as the budget allows,
+   * bisecting failed batches (see transactBatched)
+   */
+  async transactBatch<K>(items: BatchItem<K>[], budget?: BatchConfig): Promise<BatchItemResult<K>[]> {
+    return transactBatched(this, items, budget, this.logger);
+  }
+
   /**
    * Update RPC endpoint
    */
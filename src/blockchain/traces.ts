@@ -0,0 +1,88 @@
+import { ActionTrace, TransactResult } from './types';
+import { Receipt, ReceiptKind } from '../types';
+
+const CONTRACT = 'pricebattle';
+
+/**
+ * Transfers the contract made to our account within a transaction, one per
+ * transfer, attributed to the pricebattle action (and challenge) that sent it.
+ * Empty when the result has no traces (dry run, paper and simulated transactions).
+ */
+export function parseReceipts(
+  result: TransactResult,
+  account: string,
+  isOurBattle: (challengeId: number) => boolean = () => false
+): Receipt[] {
+  const traces = result.processed?.action_traces ?? [];
+  const flat = traces.some((t) => t.action_ordinal !== undefined);
+
+  const roots = flat ? traces.filter((t) => t.creator_action_ordinal === 0) : traces;
+  const childrenOf = (trace: ActionTrace): ActionTrace[] =>
+    flat
+      ? traces.filter((t) => t.creator_action_ordinal === trace.action_ordinal && t !== trace)
+      : trace.inline_traces ?? [];
+
+  const receipts: Receipt[] = [];
+  for (const root of roots) {
+    if (root.act.account !== CONTRACT || root.receiver !== CONTRACT) continue;
+
+    const challengeId =
+      root.act.data?.challenge_id !== undefined ? Number(root.act.data.challenge_id) : undefined;
+    const role = {
+      ours: challengeId !== undefined && isOurBattle(challengeId),
+      resolver: root.act.name === 'resolve' && root.act.data?.resolver === account,
+    };
+
+    const transfers: { amount: number; memo: string }[] = [];
+    const walk = (trace: ActionTrace) => {
+      const { act } = trace;
+      // Each transfer is also delivered as a notification to sender and receiver - count it once
+      if (
+        act.account === 'eosio.token' &&
+        act.name === 'transfer' &&
+        trace.receiver === 'eosio.token' &&
+        act.data.from === CONTRACT &&
+        act.data.to === account &&
+        String(act.data.quantity).endsWith(' XPR')
+      ) {
+        transfers.push({ amount: parseFloat(String(act.data.quantity)), memo: String(act.data.memo ?? '') });
+      }
+      childrenOf(trace).forEach(walk);
+    };
+    childrenOf(root).forEach(walk);
+
+    const smallest = Math.min(...transfers.map((t) => t.amount));
+    for (const { amount, memo } of transfers) {
+      receipts.push({
+        challengeId,
+        action: root.act.name,
+        kind: classify(root.act.name, memo, { ...role, smallest: transfers.length > 1 && amount === smallest }),
+        amount,
+        memo,
+      });
+    }
+  }
+
+  return receipts;
+}
+
+/**
+ * What a transfer was for, from the part we played in the action that sent it.
+ * From someone else's battle it can only be a resolver reward; an expire or
+ * cancel of ours refunds the stake; a resolve of ours pays out (or refunds a tie).
+ * Only when we also resolved our own battle can it be either: a resolver memo
+ * says so, and without memos the smaller of several transfers is the reward.
+ */
+function classify(
+  action: string,
+  memo: string,
+  role: { ours: boolean; resolver: boolean; smallest: boolean }
+): ReceiptKind {
+  if (!role.ours) return 'resolver_reward';
+  if (action !== 'resolve') return 'refund';
+  if (role.resolver) {
+    if (/\bresolver\b/i.test(memo)) return 'resolver_reward';
+    if (!memo && role.smallest) return 'resolver_reward';
+  }
+  return /refund|tie/i.test(memo) ? 'refund' : 'payout';
+}
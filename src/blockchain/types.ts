@@ -17,6 +17,26 @@ export interface TableRowsResponse<T = any> {
   next_key?: string;
 }
 
+/**
+ * CPU or NET usage of an account (max is -1 when unlimited)
+ */
+export interface AccountResourceLimit {
+  used: number | string;
+  available: number | string;
+  max: number | string;
+}
+
+/**
+ * The get_account fields the bot reads
+ */
+export interface AccountInfo {
+  account_name: string;
+  cpu_limit: AccountResourceLimit;
+  net_limit: AccountResourceLimit;
+  ram_quota: number | string; // -1 when unlimited
+  ram_usage: number | string;
+}
+
 export interface Action {
   account: string;
   name: string;
@@ -39,12 +59,33 @@ export interface TransactResult {
     elapsed: number;
     net_usage: number;
     scheduled: boolean;
-    action_traces: any[];
+    action_traces: ActionTrace[];
   };
 }
 
+/**
+ * One executed action. Older nodes nest inline actions in inline_traces; newer
+ * ones return a flat list linked by action_ordinal/creator_action_ordinal.
+ */
+export interface ActionTrace {
+  receiver: string;
+  act: { account: string; name: string; data: Record<string, any> };
+  action_ordinal?: number;
+  creator_action_ordinal?: number;
+  inline_traces?: ActionTrace[];
+}
+
+/**
+ * Anything that can push actions to the chain (the real signer, or a simulation)
+ */
+export interface Transactor {
+  transact(actions: Action[], options?: TransactOptions): Promise<TransactResult>;
+}
+
 export interface TransactOptions {
   useLastIrreversible?: boolean;
   expireSeconds?: number;
   broadcast?: boolean;
+  maxCpuUsageMs?: number; // transaction header caps (0/unset = no cap beyond the account's)
+  maxNetUsageWords?: number;
 }
@@ -1,8 +1,21 @@
 import { RpcClient, TransactionSigner, PriceBattleActions } from './blockchain';
-import { OracleService, ChallengeService, ResolverService, MarketDataService } from './services';
+import {
+  OracleService,
+  ChallengeService,
+  ContractRulesService,
+  ResourceMonitor,
+  ChallengeMonitor,
+  ResolverService,
+  ResolverScheduler,
+  SettlementService,
+  MarketDataService,
+  PaperTrader,
+  PaperChallengeService,
+} from './services';
 import { initDatabase, DatabaseQueries } from './db';
-import { TradingStrategy, createStrategy } from './strategies';
-import { BotConfig } from './types';
+import { TradingStrategy, createStrategy, getStrategyDefinition, loadStrategyModules } from './strategies';
+import { createAIClient, CachingAIClient, PredictionCache, PredictionCacheStats } from './ai';
+import { AIClient, BotConfig, ChallengeTransition, ResourceStatus, assetSymbol } from './types';
 import { createLogger, Logger } from './utils';
 
 export class PriceBattleBot {
@@ -11,6 +24,13 @@ export class PriceBattleBot {
   private strategy!: TradingStrategy;
   private rpc!: RpcClient;
   private oracleService!: OracleService;
+  private challengeService!: ChallengeService;
+  private settlementService!: SettlementService;
+  private challengeMonitor!: ChallengeMonitor;
+  private resolverScheduler!: ResolverScheduler;
+  private resourceMonitor!: ResourceMonitor;
+  private paperTrader?: PaperTrader;
+  private predictionCache?: PredictionCache;
   private db!: DatabaseQueries;
 
   private intervals: NodeJS.Timeout[] = [];
@@ -39,47 +59,120 @@ export class PriceBattleBot {
     const signer = new TransactionSigner(this.rpc.getRpc(), this.config.privateKey, {
       logger: this.logger,
       dryRun: this.config.dryRun,
+      onError: (error, actions) => {
+        this.db.recordContractError(error.category, actions, error.message);
+        // Out of CPU/NET: re-check resources before the next low-priority action
+        if (error.category === 'resources_exhausted') this.resourceMonitor.invalidate();
+      },
     });
 
-    // Initialize actions
-    const actions = new PriceBattleActions(
+    // Account CPU/NET/RAM; stakes through the real signer even in paper mode, since resolves go on chain
+    this.resourceMonitor = new ResourceMonitor(
+      this.rpc,
       signer,
+      this.db,
       this.config.account,
       this.config.permission,
+      this.config.resources,
       this.logger
     );
 
     // Initialize services
     this.oracleService = new OracleService(this.rpc, this.logger);
 
-    const challengeService = new ChallengeService(
+    const ChallengeServiceClass = this.config.paper ? PaperChallengeService : ChallengeService;
+    this.challengeService = new ChallengeServiceClass(
       this.rpc,
       this.db,
       this.config.account,
-      this.logger
+      this.logger,
+      { statusIndexPosition: this.config.challengeStatusIndex }
+    );
+
+    // In paper mode our creates/accepts go to virtual challenges instead of the chain
+    if (this.config.paper) {
+      this.paperTrader = new PaperTrader(
+        signer,
+        this.challengeService,
+        this.oracleService,
+        this.db,
+        this.config.account,
+        this.config.paperBalance,
+        this.logger
+      );
+    }
+
+    // Initialize actions
+    const actions = new PriceBattleActions(
+      this.paperTrader ?? signer,
+      this.config.account,
+      this.config.permission,
+      this.logger,
+      this.config.batch
     );
 
     const resolverService = new ResolverService(
       actions,
-      challengeService,
+      this.challengeService,
       this.oracleService,
       this.db,
+      this.logger,
+      this.resourceMonitor
+    );
+
+    this.settlementService = new SettlementService(
+      this.challengeService,
+      this.db,
+      this.config.account,
       this.logger
     );
 
+    // Contract limits, cached; every create and accept is checked against them before signing
+    const contractRules = new ContractRulesService(this.challengeService, this.logger);
+
+    // Mirror the on-chain challenges table and settle our battles as they finish
+    this.challengeMonitor = new ChallengeMonitor(this.challengeService, this.logger);
+    this.challengeMonitor.on('resolved', (t) => this.onBattleFinished(t));
+    this.challengeMonitor.on('tied', (t) => this.onBattleFinished(t));
+
+    // Resolve each battle the moment it ends; the strategy tick's sweep catches any missed
+    this.resolverScheduler = new ResolverScheduler(
+      resolverService,
+      this.challengeService,
+      this.logger,
+      this.config.intervals.resolveDelay
+    );
+    this.challengeMonitor.on('transition', (t) => this.resolverScheduler.onTransition(t));
+
     // Initialize market data service (CoinGecko for multi-timeframe analysis)
     const marketDataService = new MarketDataService(this.logger, this.config.coingeckoApiKey);
 
-    // Create strategy
+    // Create strategy (custom strategy modules register themselves on load)
+    loadStrategyModules(this.config.strategyModules);
+
+    // One AI client for the strategy; repeated questions within the TTL are answered from the cache
+    let aiClient: AIClient | undefined;
+    if (getStrategyDefinition(this.config.mode)?.requiresAI !== false) {
+      aiClient = createAIClient(this.config.ai, this.logger);
+      if (this.config.ai.cacheTtl > 0) {
+        this.predictionCache = new PredictionCache(this.config.ai.cacheTtl * 1000, this.logger);
+        aiClient = new CachingAIClient(aiClient, this.predictionCache);
+      }
+    }
+
     this.strategy = createStrategy(this.config.mode, {
       resolverService,
-      challengeService,
+      settlementService: this.settlementService,
+      challengeService: this.challengeService,
+      contractRules,
       oracleService: this.oracleService,
       marketDataService,
       actions,
       db: this.db,
       config: this.config,
       logger: this.logger,
+      resources: this.resourceMonitor,
+      aiClient,
     });
 
     this.initialized = true;
@@ -103,17 +196,43 @@ export class PriceBattleBot {
       account: this.config.account,
       mode: this.config.mode,
       strategy: this.strategy.name,
+      feeds: this.config.feeds.map(assetSymbol),
       dryRun: this.config.dryRun,
+      paper: this.config.paper,
     });
 
-    // Initial price record
+    if (this.strategy.params !== undefined) {
+      this.logger.info('Strategy parameters', {
+        profile: this.config.strategyProfile ?? '(defaults)',
+        params: this.strategy.params,
+      });
+    }
+
+    // Initial price record, resource check and challenge sync
     await this.recordPrice();
+    await this.resourceMonitor.check();
+    await this.syncChallenges();
+    await this.resolverScheduler.start().catch((error) =>
+      this.logger.error('Failed to start resolver scheduler', {
+        error: error instanceof Error ? error.message : String(error),
+      })
+    );
 
     // Price polling
     this.intervals.push(
       setInterval(() => this.recordPrice(), this.config.intervals.priceCheck)
     );
 
+    // Challenge sync
+    this.intervals.push(
+      setInterval(() => this.syncChallenges(), this.config.intervals.challengeMonitor)
+    );
+
+    // Account resources
+    this.intervals.push(
+      setInterval(() => this.resourceMonitor.check(), this.config.resources.checkInterval)
+    );
+
     // Strategy tick (includes resolver check)
     this.intervals.push(
       setInterval(
@@ -124,6 +243,7 @@ export class PriceBattleBot {
 
     this.logger.info('Bot started successfully', {
       priceInterval: `${this.config.intervals.priceCheck / 1000}s`,
+      challengeInterval: `${this.config.intervals.challengeMonitor / 1000}s`,
       strategyInterval: `${this.config.intervals.resolverCheck / 1000}s`,
     });
   }
@@ -143,21 +263,58 @@ export class PriceBattleBot {
       clearInterval(interval);
     }
     this.intervals = [];
+    this.resolverScheduler.stop();
+
+    if (this.predictionCache) {
+      this.logger.info('AI prediction cache', this.predictionCache.stats());
+    }
 
     this.isRunning = false;
     this.logger.info('Bot stopped');
   }
 
   /**
-   * Record current price to database
+   * Record current price of every traded feed to database
    */
   private async recordPrice(): Promise<void> {
+    for (const oracleIndex of this.config.feeds) {
+      try {
+        const { price, timestamp } = await this.oracleService.getPrice(oracleIndex);
+        this.db.insertPrice(price, Math.floor(timestamp / 1000), oracleIndex);
+        this.logger.debug('Recorded price', { asset: assetSymbol(oracleIndex), price });
+      } catch (error) {
+        this.logger.error('Failed to record price', {
+          asset: assetSymbol(oracleIndex),
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  /**
+   * Sync challenges from chain (emits transition events)
+   */
+  private async syncChallenges(): Promise<void> {
+    try {
+      await this.challengeMonitor.poll();
+    } catch (error) {
+      this.logger.error('Failed to sync challenges', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Settle one of our battles as soon as the monitor sees it finish
+   */
+  private async onBattleFinished(transition: ChallengeTransition): Promise<void> {
+    if (!transition.ours) return;
+
     try {
-      const { price, timestamp } = await this.oracleService.getBTCPrice();
-      this.db.insertPrice(price, Math.floor(timestamp / 1000));
-      this.logger.debug('Recorded price', { price });
+      await this.settlementService.settle(transition.challenge);
     } catch (error) {
-      this.logger.error('Failed to record price', {
+      this.logger.error('Failed to settle battle', {
+        challengeId: transition.challenge.id,
         error: error instanceof Error ? error.message : String(error),
       });
     }
@@ -168,6 +325,9 @@ export class PriceBattleBot {
    */
   private async runStrategyTick(): Promise<void> {
     try {
+      // Every view within one tick shares a single fetch of the challenges table
+      this.challengeService.invalidateSnapshot();
+      await this.paperTrader?.update();
       await this.strategy.tick();
     } catch (error) {
       this.logger.error('Strategy tick failed', {
@@ -194,6 +354,8 @@ export class PriceBattleBot {
       isRunning: this.isRunning,
       balance: balance || '0.0000 XPR',
       performance,
+      aiCache: this.predictionCache?.stats(),
+      resources: this.resourceMonitor.status ?? undefined,
     };
   }
 
@@ -235,4 +397,6 @@ export interface BotStatus {
     totalLost: number;
     resolverEarnings: number;
   };
+  aiCache?: PredictionCacheStats; // API calls and tokens saved by the prediction cache
+  resources?: ResourceStatus; // account CPU/NET/RAM at the last check
 }
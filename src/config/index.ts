@@ -1,14 +1,71 @@
 import * as dotenv from 'dotenv';
 import * as path from 'path';
-import { EnvSchema } from './schema';
-import { BotConfig, BotMode, NETWORKS } from '../types';
+import { EnvSchema, EnvConfig, OfflineEnvSchema } from './schema';
+import { loadStrategyProfile } from './profiles';
+import { loadRuleSet } from './rules';
+import { AIProvider, BotConfig, BotMode, NETWORKS, ORACLE } from '../types';
 
 // Load environment variables
 dotenv.config();
 
-export function loadConfig(overrides: Partial<{ mode: BotMode; dryRun: boolean }> = {}): BotConfig {
+/**
+ * API key for an AI provider, checking that everything the provider needs is set
+ */
+function resolveApiKey(
+  env: EnvConfig,
+  provider: AIProvider,
+  model: string | undefined,
+  requireCredentials: boolean
+): string {
+  // The rule-based predictor runs locally
+  if (provider === 'rules') {
+    return '';
+  }
+
+  if (!requireCredentials) {
+    return (provider === 'claude' ? env.CLAUDE_API_KEY : env.OPENAI_API_KEY) || '';
+  }
+
+  if (provider === 'openai-compatible') {
+    // Self-hosted servers usually don't check the key, but the endpoint is required
+    if (!env.AI_BASE_URL) {
+      throw new Error('AI_BASE_URL is required when AI_PROVIDER is openai-compatible');
+    }
+    if (!model) {
+      throw new Error('AI_MODEL is required when AI_PROVIDER is openai-compatible');
+    }
+    return env.OPENAI_API_KEY || 'not-needed';
+  }
+
+  if (provider === 'claude') {
+    if (!env.CLAUDE_API_KEY) {
+      throw new Error('CLAUDE_API_KEY is required when AI_PROVIDER is claude');
+    }
+    return env.CLAUDE_API_KEY;
+  }
+
+  if (!env.OPENAI_API_KEY) {
+    throw new Error('OPENAI_API_KEY is required when AI_PROVIDER is openai');
+  }
+  return env.OPENAI_API_KEY;
+}
+
+export function loadConfig(
+  overrides: Partial<{
+    mode: BotMode;
+    dryRun: boolean;
+    paper: boolean;
+    strategyModules: string[];
+    strategyParams: Record<string, unknown>;
+    profile: string;
+    profileFile: string;
+  }> = {},
+  options: { requireCredentials?: boolean } = {}
+): BotConfig {
+  const requireCredentials = options.requireCredentials ?? true;
+
   // Parse and validate environment variables
-  const result = EnvSchema.safeParse(process.env);
+  const result = (requireCredentials ? EnvSchema : OfflineEnvSchema).safeParse(process.env);
 
   if (!result.success) {
     const errors = result.error.errors.map((e) => `${e.path.join('.')}: ${e.message}`);
@@ -17,21 +74,29 @@ export function loadConfig(overrides: Partial<{ mode: BotMode; dryRun: boolean }
 
   const env = result.data;
 
-  // Determine AI API key based on provider
-  let aiApiKey: string;
-  if (env.AI_PROVIDER === 'claude') {
-    if (!env.CLAUDE_API_KEY) {
-      throw new Error('CLAUDE_API_KEY is required when AI_PROVIDER is claude');
-    }
-    aiApiKey = env.CLAUDE_API_KEY;
-  } else {
-    if (!env.OPENAI_API_KEY) {
-      throw new Error('OPENAI_API_KEY is required when AI_PROVIDER is openai');
-    }
-    aiApiKey = env.OPENAI_API_KEY;
-  }
+  // Determine AI API keys based on provider (for each member, if an ensemble is configured)
+  const ensemble = env.AI_ENSEMBLE.map((member) => ({
+    ...member,
+    apiKey: resolveApiKey(env, member.provider, member.model, requireCredentials),
+  }));
+  const aiApiKey = ensemble.length > 0
+    ? ensemble[0].apiKey
+    : resolveApiKey(env, env.AI_PROVIDER, env.AI_MODEL, requireCredentials);
 
   const network = NETWORKS[env.CHAIN];
+  const mode = overrides.mode || 'resolver';
+
+  // The selected profile's section for this strategy, with STRATEGY_PARAMS applied on top
+  const profileFile = overrides.profileFile ?? env.STRATEGY_PROFILE_FILE;
+  const profileName = overrides.profile ?? env.STRATEGY_PROFILE;
+  if (overrides.profile && !profileFile) {
+    throw new Error('STRATEGY_PROFILE_FILE (or --profile-file) is required to select a profile');
+  }
+  const profile = profileFile ? loadStrategyProfile(profileFile, profileName) : undefined;
+  const strategyParams = {
+    ...(profile?.[mode] ?? {}),
+    ...(overrides.strategyParams ?? env.STRATEGY_PARAMS),
+  };
 
   const config: BotConfig = {
     // Network
@@ -45,8 +110,16 @@ export function loadConfig(overrides: Partial<{ mode: BotMode; dryRun: boolean }
     privateKey: env.PRIVATE_KEY,
 
     // Bot settings
-    mode: overrides.mode || 'resolver',
+    mode,
     dryRun: overrides.dryRun || false,
+    strategyModules: [...env.STRATEGY_MODULES, ...(overrides.strategyModules ?? [])],
+    strategyParams,
+    strategyProfile: profile ? profileName : undefined,
+    paper: overrides.paper || false,
+    paperBalance: env.PAPER_BALANCE,
+
+    // Trading
+    feeds: [...new Set(env.TRADE_FEEDS.map((feed) => ORACLE[feed]))],
 
     // Risk management
     risk: {
@@ -54,13 +127,35 @@ export function loadConfig(overrides: Partial<{ mode: BotMode; dryRun: boolean }
       maxConcurrentChallenges: Number(env.MAX_CONCURRENT_CHALLENGES),
       minBalanceReserve: Number(env.MIN_BALANCE_RESERVE),
       maxDailyLoss: Number(env.MAX_DAILY_LOSS),
+      kellyFraction: env.KELLY_FRACTION,
+      minEdgePercent: env.MIN_EDGE_PERCENT,
     },
 
     // AI settings
     ai: {
       provider: env.AI_PROVIDER,
       apiKey: aiApiKey,
+      model: env.AI_MODEL,
       maxTokens: 1024,
+      baseUrl: env.AI_BASE_URL,
+      timeout: env.AI_TIMEOUT,
+      outputMode: env.AI_OUTPUT_MODE,
+      cacheTtl: env.AI_CACHE_TTL,
+      dailyBudget: env.AI_DAILY_BUDGET,
+      pricing:
+        env.AI_PRICE_INPUT !== undefined || env.AI_PRICE_OUTPUT !== undefined
+          ? { input: env.AI_PRICE_INPUT ?? 0, output: env.AI_PRICE_OUTPUT ?? 0 }
+          : undefined,
+      ensemble: ensemble.length > 0 ? { mode: env.AI_ENSEMBLE_MODE, members: ensemble } : undefined,
+      rules: loadRuleSet(env.AI_RULES_FILE),
+      fallback: env.AI_FALLBACK,
+      calibration: { method: env.AI_CALIBRATION, minSamples: env.AI_CALIBRATION_MIN_SAMPLES },
+      prompts: {
+        template: env.PROMPT_TEMPLATE,
+        challenger: env.PROMPT_TEMPLATE_B,
+        split: env.PROMPT_SPLIT,
+        dir: env.PROMPT_DIR,
+      },
     },
 
     // Polling intervals
@@ -68,7 +163,22 @@ export function loadConfig(overrides: Partial<{ mode: BotMode; dryRun: boolean }
       priceCheck: Number(env.PRICE_CHECK_INTERVAL),
       challengeMonitor: Number(env.CHALLENGE_MONITOR_INTERVAL),
       resolverCheck: Number(env.RESOLVER_CHECK_INTERVAL),
+      resolveDelay: env.RESOLVE_DELAY_MS,
+    },
+    batch: {
+      maxActions: env.BATCH_MAX_ACTIONS,
+      maxCpuUsageMs: env.BATCH_MAX_CPU_MS,
+      maxNetUsageWords: env.BATCH_MAX_NET_WORDS,
+    },
+    resources: {
+      checkInterval: env.RESOURCE_CHECK_INTERVAL,
+      minCpuPercent: env.RESOURCE_MIN_CPU_PERCENT,
+      minNetPercent: env.RESOURCE_MIN_NET_PERCENT,
+      minRamBytes: env.RESOURCE_MIN_RAM_BYTES,
+      stakeBudget: env.RESOURCE_STAKE_BUDGET,
+      stakeAmount: env.RESOURCE_STAKE_AMOUNT,
     },
+    challengeStatusIndex: env.CHALLENGE_STATUS_INDEX,
 
     // Database
     databasePath: env.DATABASE_PATH,
@@ -83,10 +193,14 @@ export function loadConfig(overrides: Partial<{ mode: BotMode; dryRun: boolean }
   return config;
 }
 
-export function validateConfig(config: BotConfig): void {
+export function validateConfig(
+  config: BotConfig,
+  requiresAI: boolean = config.mode !== 'resolver'
+): void {
   // Validate mode-specific requirements
-  if (config.mode !== 'resolver') {
-    if (!config.ai.apiKey) {
+  if (requiresAI) {
+    const providers = config.ai.ensemble?.members ?? [config.ai];
+    if (providers.some((p) => p.provider !== 'rules' && !p.apiKey)) {
       throw new Error(`AI API key is required for ${config.mode} mode`);
     }
   }
@@ -0,0 +1,50 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import YAML from 'yaml';
+import { StrategyProfileSchema, StrategyProfilesFileSchema } from './schema';
+
+export type StrategyProfile = ReturnType<typeof StrategyProfileSchema.parse>;
+
+/**
+ * Read a YAML or JSON config file (relative paths are resolved from the working directory)
+ */
+export function readConfigFile(filePath: string, what: string): unknown {
+  try {
+    const text = fs.readFileSync(path.resolve(process.cwd(), filePath), 'utf-8');
+    // YAML is a superset of JSON, so one parser covers both
+    return YAML.parse(text);
+  } catch (error) {
+    throw new Error(
+      `Failed to read ${what} from ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Read a strategy profile file (YAML or JSON) and return the named profile.
+ * The file maps profile names to per-strategy sections, e.g.
+ *
+ *   default:
+ *     passive: { minCreateConfidence: 75 }
+ *   night:
+ *     aggressive: { maxCreateStake: 100, createCooldownMs: 7200000 }
+ */
+export function loadStrategyProfile(filePath: string, name: string): StrategyProfile {
+  const raw = readConfigFile(filePath, 'strategy profiles');
+
+  const result = StrategyProfilesFileSchema.safeParse(raw ?? {});
+  if (!result.success) {
+    const errors = result.error.errors.map((e) => `${e.path.join('.') || '(root)'}: ${e.message}`);
+    throw new Error(`Invalid strategy profiles in ${filePath}:\n${errors.join('\n')}`);
+  }
+
+  const profile = result.data[name];
+  if (!profile) {
+    const available = Object.keys(result.data);
+    throw new Error(
+      `Strategy profile "${name}" not found in ${filePath}. Available: ${available.join(', ') || '(none)'}`
+    );
+  }
+
+  return profile;
+}
@@ -0,0 +1,22 @@
+import { RuleSetSchema } from './schema';
+import { readConfigFile } from './profiles';
+import { RuleSet } from '../types';
+
+/**
+ * Rules of the rule-based predictor: the defaults, with a YAML or JSON file's values on top, e.g.
+ *
+ *   rsiMeanReversion: { weight: 2, overbought: 75, oversold: 25 }
+ *   momentum: { weight: 0 }
+ *   minScore: 0.4
+ */
+export function loadRuleSet(filePath?: string): RuleSet {
+  const raw = filePath ? readConfigFile(filePath, 'AI rules') : {};
+
+  const result = RuleSetSchema.safeParse(raw ?? {});
+  if (!result.success) {
+    const errors = result.error.errors.map((e) => `${e.path.join('.') || '(root)'}: ${e.message}`);
+    throw new Error(`Invalid AI rules${filePath ? ` in ${filePath}` : ''}:\n${errors.join('\n')}`);
+  }
+
+  return result.data;
+}
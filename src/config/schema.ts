@@ -1,21 +1,39 @@
 import { z } from 'zod';
 
-export const BotModeSchema = z.enum(['resolver', 'passive', 'aggressive']);
-export const AIProviderSchema = z.enum(['claude', 'openai']);
+// Strategy names are checked against the strategy registry (custom modules can add more)
+export const BotModeSchema = z.string().min(1);
+export const AIProviderSchema = z.enum(['claude', 'openai', 'openai-compatible', 'rules']);
+export const AIOutputModeSchema = z.enum(['json', 'json_schema', 'text']);
+export const EnsembleModeSchema = z.enum(['majority', 'weighted', 'unanimous']);
+
+// provider[:model], e.g. claude:claude-sonnet-4-20250514 or openai-compatible:llama3.1:8b
+export const AIMemberSchema = z.string().transform((spec, ctx) => {
+  const [provider, ...model] = spec.split(':');
+  const parsed = AIProviderSchema.safeParse(provider);
+  if (!parsed.success) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown AI provider in "${spec}"` });
+    return z.NEVER;
+  }
+  return { provider: parsed.data, model: model.join(':') || undefined };
+});
 export const ChainNameSchema = z.enum(['proton', 'proton-test']);
 export const LogLevelSchema = z.enum(['error', 'warn', 'info', 'debug']);
+export const OracleFeedSchema = z.enum(['BTC_USD', 'ETH_USD', 'XPR_USD']);
 
 export const RiskConfigSchema = z.object({
   maxPercentPerChallenge: z.number().min(1).max(50).default(5),
   maxConcurrentChallenges: z.number().min(1).max(10).default(3),
   minBalanceReserve: z.number().min(0).default(100),
   maxDailyLoss: z.number().min(0).default(500),
+  kellyFraction: z.number().min(0).max(1).default(0.25),
+  minEdgePercent: z.number().min(0).default(0),
 });
 
 export const IntervalConfigSchema = z.object({
   priceCheck: z.number().min(10000).default(60000),
   challengeMonitor: z.number().min(5000).default(30000),
   resolverCheck: z.number().min(5000).default(15000),
+  resolveDelay: z.number().min(0).default(500),
 });
 
 export const AIConfigSchema = z.object({
@@ -23,8 +41,90 @@ export const AIConfigSchema = z.object({
   apiKey: z.string().min(1),
   model: z.string().optional(),
   maxTokens: z.number().optional().default(1024),
+  baseUrl: z.string().url().optional(),
+  timeout: z.number().int().positive().optional(),
+  outputMode: AIOutputModeSchema.optional(),
 });
 
+// ========== Strategy Profiles ==========
+// Tunables of the built-in trading strategies. Defaults are the original hard-coded values.
+
+const confidence = z.number().min(0).max(100);
+const durationSeconds = z.number().int().min(300).max(86400);
+
+const durationRange = (p: { minDuration: number; maxDuration: number }) => p.minDuration <= p.maxDuration;
+const durationRangeError = { message: 'minDuration must not exceed maxDuration', path: ['minDuration'] };
+
+export const PassiveProfileSchema = z
+  .object({
+    minCreateConfidence: confidence.default(75),
+    minAcceptConfidence: confidence.default(75),
+    maxStakePercent: z.number().positive().max(50).default(3),
+    maxCreateStake: z.number().positive().default(100), // XPR
+    createCooldownMs: z.number().int().min(0).default(120000),
+    maxPriceMovePercent: z.number().min(0).default(0.3),
+    minDuration: durationSeconds.default(14400),
+    maxDuration: durationSeconds.default(86400),
+  })
+  .strict()
+  .refine(durationRange, durationRangeError);
+
+export const AggressiveProfileSchema = z
+  .object({
+    minCreateConfidence: confidence.default(50),
+    minAcceptConfidence: confidence.default(50),
+    cautiousCreateConfidence: confidence.default(75),
+    cautiousAcceptConfidence: confidence.default(75),
+    cautiousThreshold: z.number().min(0).max(1).default(0.7), // fraction of MAX_DAILY_LOSS
+    createCooldownMs: z.number().int().min(0).default(3600000),
+    minDuration: durationSeconds.default(14400),
+    maxDuration: durationSeconds.default(86400),
+    maxAcceptStake: z.number().positive().default(250), // XPR
+    maxCreateStake: z.number().positive().default(250), // XPR
+    maxPriceMovePercent: z.number().min(0).default(0.5),
+  })
+  .strict()
+  .refine(durationRange, durationRangeError);
+
+// One named profile: a section per strategy. Built-in sections are validated here,
+// sections for custom strategies are checked by their own schema when selected
+export const StrategyProfileSchema = z
+  .object({
+    passive: PassiveProfileSchema.optional(),
+    aggressive: AggressiveProfileSchema.optional(),
+  })
+  .catchall(z.record(z.unknown()));
+
+// A profile file maps profile names to profiles
+export const StrategyProfilesFileSchema = z.record(z.string(), StrategyProfileSchema);
+
+// ========== Rule-Based Predictor ==========
+// Indicator rules of the 'rules' provider. Each rule votes between -1 (DOWN) and +1 (UP);
+// the weighted mean is the score, and a weight of 0 turns a rule off
+
+const weight = z.number().min(0);
+
+export const RuleSetSchema = z
+  .object({
+    rsiMeanReversion: z
+      .object({
+        weight: weight.default(1),
+        overbought: z.number().min(50).max(100).default(70),
+        oversold: z.number().min(0).max(50).default(30),
+      })
+      .strict()
+      .default({}),
+    emaCrossover: z.object({ weight: weight.default(1) }).strict().default({}),
+    smaAlignment: z.object({ weight: weight.default(0.5) }).strict().default({}),
+    trendAlignment: z.object({ weight: weight.default(1) }).strict().default({}),
+    momentum: z.object({ weight: weight.default(0.5) }).strict().default({}),
+    minScore: z.number().min(0).max(1).default(0.25), // |score| below this is NEUTRAL
+    maxConfidence: confidence.default(85), // confidence of a unanimous score
+    duration: durationSeconds.default(14400),
+    stakePercent: z.number().positive().max(50).default(3),
+  })
+  .strict();
+
 export const EnvSchema = z.object({
   // Required
   PRIVATE_KEY: z.string().min(1, 'PRIVATE_KEY is required'),
@@ -34,21 +134,105 @@ export const EnvSchema = z.object({
   PERMISSION: z.string().default('active'),
   CHAIN: ChainNameSchema.default('proton'),
 
+  // Trading - comma-separated oracle feeds, e.g. "BTC_USD,ETH_USD"
+  TRADE_FEEDS: z
+    .string()
+    .default('BTC_USD')
+    .transform((v) => v.split(',').map((f) => f.trim().toUpperCase()).filter(Boolean))
+    .pipe(z.array(OracleFeedSchema).min(1)),
+
   // AI
   AI_PROVIDER: AIProviderSchema.default('claude'),
   CLAUDE_API_KEY: z.string().optional(),
   OPENAI_API_KEY: z.string().optional(),
+  // Model override, and the endpoint of a self-hosted OpenAI-compatible server
+  AI_MODEL: z.string().optional(),
+  AI_BASE_URL: z.string().url().optional(),
+  AI_TIMEOUT: z.string().transform(Number).pipe(z.number().int().positive()).optional(), // ms
+  AI_OUTPUT_MODE: AIOutputModeSchema.optional(), // default: structured output where the provider has it
+  // Ensemble: comma-separated provider[:model] members queried in parallel, and how votes combine
+  AI_ENSEMBLE: z
+    .string()
+    .default('')
+    .transform((v) => v.split(',').map((m) => m.trim()).filter(Boolean))
+    .pipe(z.array(AIMemberSchema)),
+  AI_ENSEMBLE_MODE: EnsembleModeSchema.default('majority'),
+  // Rules of the 'rules' provider (YAML or JSON), and answering with them when the AI call fails
+  AI_RULES_FILE: z.string().optional(),
+  AI_FALLBACK: z.enum(['rules']).optional(),
+  // Seconds to reuse an identical AI answer (0 disables the cache)
+  AI_CACHE_TTL: z.string().transform(Number).pipe(z.number().int().min(0)).default('300'),
+  // Daily AI spend limit in USD (unset = no limit), and model price overrides in USD per million tokens
+  AI_DAILY_BUDGET: z.string().transform(Number).pipe(z.number().positive()).optional(),
+  AI_PRICE_INPUT: z.string().transform(Number).pipe(z.number().min(0)).optional(),
+  AI_PRICE_OUTPUT: z.string().transform(Number).pipe(z.number().min(0)).optional(),
+
+  // Calibration of AI confidence against settled battles, once there are enough of them
+  AI_CALIBRATION: z.enum(['isotonic', 'off']).default('isotonic'),
+  AI_CALIBRATION_MIN_SAMPLES: z.string().transform(Number).pipe(z.number().int().min(1)).default('30'),
+
+  // Prediction prompt template, and a second template to A/B test against it
+  PROMPT_TEMPLATE: z.string().default('prediction-v2'),
+  PROMPT_TEMPLATE_B: z.string().optional(),
+  PROMPT_SPLIT: z.string().transform(Number).pipe(z.number().min(0).max(1)).default('0.5'), // share sent to B
+  PROMPT_DIR: z.string().optional(),
 
   // Risk
   MAX_PERCENT_PER_CHALLENGE: z.string().transform(Number).pipe(z.number()).default('5'),
   MAX_CONCURRENT_CHALLENGES: z.string().transform(Number).pipe(z.number()).default('3'),
   MIN_BALANCE_RESERVE: z.string().transform(Number).pipe(z.number()).default('100'),
   MAX_DAILY_LOSS: z.string().transform(Number).pipe(z.number()).default('500'),
+  KELLY_FRACTION: z.string().transform(Number).pipe(z.number().min(0).max(1)).default('0.25'),
+  MIN_EDGE_PERCENT: z.string().transform(Number).pipe(z.number().min(0)).default('0'),
 
   // Intervals
   PRICE_CHECK_INTERVAL: z.string().transform(Number).pipe(z.number()).default('60000'),
   CHALLENGE_MONITOR_INTERVAL: z.string().transform(Number).pipe(z.number()).default('30000'),
   RESOLVER_CHECK_INTERVAL: z.string().transform(Number).pipe(z.number()).default('15000'),
+  RESOLVE_DELAY_MS: z.string().transform(Number).pipe(z.number().int().min(0)).default('500'),
+
+  // Resolve/expire actions per transaction, and optional CPU (ms) / NET (words) caps per transaction
+  BATCH_MAX_ACTIONS: z.string().transform(Number).pipe(z.number().int().min(1)).default('10'),
+  BATCH_MAX_CPU_MS: z.string().transform(Number).pipe(z.number().int().positive()).optional(),
+  BATCH_MAX_NET_WORDS: z.string().transform(Number).pipe(z.number().int().positive()).optional(),
+
+  // Account CPU/NET/RAM: check interval, low thresholds, and the XPR the bot may stake
+  // for CPU/NET on its own (0 = never)
+  RESOURCE_CHECK_INTERVAL: z.string().transform(Number).pipe(z.number().int().positive()).default('60000'),
+  RESOURCE_MIN_CPU_PERCENT: z.string().transform(Number).pipe(z.number().min(0).max(100)).default('10'),
+  RESOURCE_MIN_NET_PERCENT: z.string().transform(Number).pipe(z.number().min(0).max(100)).default('10'),
+  RESOURCE_MIN_RAM_BYTES: z.string().transform(Number).pipe(z.number().int().min(0)).default('2048'),
+  RESOURCE_STAKE_BUDGET: z.string().transform(Number).pipe(z.number().min(0)).default('0'),
+  RESOURCE_STAKE_AMOUNT: z.string().transform(Number).pipe(z.number().positive()).default('10'),
+
+  // Custom strategies - comma-separated module paths or package names,
+  // and JSON parameters for the selected strategy
+  STRATEGY_MODULES: z
+    .string()
+    .default('')
+    .transform((v) => v.split(',').map((m) => m.trim()).filter(Boolean)),
+  STRATEGY_PARAMS: z
+    .string()
+    .default('{}')
+    .transform((v, ctx) => {
+      try {
+        return JSON.parse(v);
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'STRATEGY_PARAMS must be valid JSON' });
+        return z.NEVER;
+      }
+    })
+    .pipe(z.record(z.unknown())),
+
+  // Strategy profile file (YAML or JSON) and the profile to use from it
+  STRATEGY_PROFILE_FILE: z.string().optional(),
+  STRATEGY_PROFILE: z.string().default('default'),
+
+  // Paper trading - virtual starting balance in XPR
+  PAPER_BALANCE: z.string().transform(Number).pipe(z.number().positive()).default('10000'),
+
+  // Secondary index position of challenge status, if the contract has one
+  CHALLENGE_STATUS_INDEX: z.string().transform(Number).pipe(z.number().int().min(2)).optional(),
 
   // Logging
   LOG_LEVEL: LogLevelSchema.default('info'),
@@ -58,4 +242,10 @@ export const EnvSchema = z.object({
   COINGECKO_API_KEY: z.string().optional(),
 });
 
+// For offline commands (e.g. backtest) that never sign or call the AI provider
+export const OfflineEnvSchema = EnvSchema.extend({
+  PRIVATE_KEY: z.string().default(''),
+  ACCOUNT_NAME: z.string().default('backtest'),
+});
+
 export type EnvConfig = z.infer<typeof EnvSchema>;
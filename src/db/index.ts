@@ -1,2 +1,2 @@
-export { initDatabase, saveDatabase, DatabaseInstance } from './sqlite';
+export { initDatabase, saveDatabase, DatabaseInstance, IN_MEMORY } from './sqlite';
 export { DatabaseQueries } from './queries';
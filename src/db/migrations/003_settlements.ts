@@ -0,0 +1,27 @@
+import type { Database } from 'sql.js';
+
+export const migration003 = {
+  version: 3,
+  name: 'settlements',
+  up: (db: Database) => {
+    // One row per settled battle - the primary key guarantees each challenge
+    // is only counted once in performance, streaks and confidence buckets
+    db.run(`
+      CREATE TABLE IF NOT EXISTS settlements (
+        challenge_id INTEGER PRIMARY KEY,
+        our_role TEXT NOT NULL,
+        outcome TEXT NOT NULL,
+        stake REAL NOT NULL,
+        payout REAL NOT NULL,
+        pnl REAL NOT NULL,
+        confidence INTEGER,
+        duration INTEGER,
+        oracle_index INTEGER,
+        settled_date TEXT NOT NULL,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    db.run(`CREATE INDEX IF NOT EXISTS idx_settlement_date ON settlements(settled_date)`);
+  },
+};
@@ -0,0 +1,11 @@
+import type { Database } from 'sql.js';
+
+export const migration004 = {
+  version: 4,
+  name: 'price_feeds',
+  up: (db: Database) => {
+    // Price history per oracle feed - existing rows are all BTC/USD (feed 4)
+    db.run(`ALTER TABLE price_history ADD COLUMN oracle_index INTEGER NOT NULL DEFAULT 4`);
+    db.run(`CREATE INDEX IF NOT EXISTS idx_price_feed_timestamp ON price_history(oracle_index, timestamp)`);
+  },
+};
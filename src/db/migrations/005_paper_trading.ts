@@ -0,0 +1,48 @@
+import type { Database } from 'sql.js';
+
+export const migration005 = {
+  version: 5,
+  name: 'paper_trading',
+  up: (db: Database) => {
+    // Virtual balance for paper mode (single row)
+    db.run(`
+      CREATE TABLE IF NOT EXISTS paper_account (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        starting_balance REAL NOT NULL,
+        balance REAL NOT NULL,
+        started_at INTEGER NOT NULL,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // Virtual challenges - same shape as challenges, plus the paper outcome.
+    // source_id is the on-chain challenge we paper-accepted (null for our own creates)
+    db.run(`
+      CREATE TABLE IF NOT EXISTS paper_challenges (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        source_id INTEGER,
+        creator TEXT NOT NULL,
+        opponent TEXT,
+        amount TEXT NOT NULL,
+        direction INTEGER NOT NULL,
+        oracle_index INTEGER NOT NULL,
+        duration INTEGER NOT NULL,
+        start_price TEXT,
+        end_price TEXT,
+        created_at INTEGER NOT NULL,
+        started_at INTEGER,
+        expires_at INTEGER,
+        status INTEGER NOT NULL,
+        winner TEXT,
+        our_role TEXT NOT NULL,
+        outcome TEXT,
+        payout REAL,
+        pnl REAL,
+        settled_at INTEGER
+      )
+    `);
+
+    db.run(`CREATE INDEX IF NOT EXISTS idx_paper_status ON paper_challenges(status)`);
+    db.run(`CREATE INDEX IF NOT EXISTS idx_paper_source ON paper_challenges(source_id)`);
+  },
+};
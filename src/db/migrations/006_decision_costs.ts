@@ -0,0 +1,15 @@
+import type { Database } from 'sql.js';
+
+export const migration006 = {
+  version: 6,
+  name: 'decision_costs',
+  up: (db: Database) => {
+    // Token usage, latency and estimated USD cost of the AI call behind each decision
+    // (NULL for decisions that made no call, e.g. cache hits and executed creates)
+    db.run(`ALTER TABLE decisions ADD COLUMN input_tokens INTEGER`);
+    db.run(`ALTER TABLE decisions ADD COLUMN output_tokens INTEGER`);
+    db.run(`ALTER TABLE decisions ADD COLUMN latency_ms INTEGER`);
+    db.run(`ALTER TABLE decisions ADD COLUMN cost_usd REAL`);
+    db.run(`CREATE INDEX IF NOT EXISTS idx_decision_created ON decisions(created_at)`);
+  },
+};
@@ -0,0 +1,28 @@
+import type { Database } from 'sql.js';
+
+export const migration007 = {
+  version: 7,
+  name: 'decision_votes',
+  up: (db: Database) => {
+    // Each ensemble member's vote behind a decision (vote is 'error' if the member failed)
+    db.run(`
+      CREATE TABLE IF NOT EXISTS decision_votes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        decision_id INTEGER NOT NULL,
+        member TEXT NOT NULL,
+        vote TEXT NOT NULL,
+        confidence INTEGER,
+        reasoning TEXT,
+        input_tokens INTEGER,
+        output_tokens INTEGER,
+        latency_ms INTEGER,
+        cost_usd REAL,
+        error TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    db.run(`CREATE INDEX IF NOT EXISTS idx_vote_decision ON decision_votes(decision_id)`);
+    db.run(`CREATE INDEX IF NOT EXISTS idx_vote_member ON decision_votes(member)`);
+  },
+};
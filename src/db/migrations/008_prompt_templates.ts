@@ -0,0 +1,11 @@
+import type { Database } from 'sql.js';
+
+export const migration008 = {
+  version: 8,
+  name: 'prompt_templates',
+  up: (db: Database) => {
+    // Prompt template (id and content hash) behind prediction decisions and the creates they led to
+    db.run(`ALTER TABLE decisions ADD COLUMN prompt_template TEXT`);
+    db.run(`ALTER TABLE decisions ADD COLUMN prompt_hash TEXT`);
+  },
+};
@@ -0,0 +1,21 @@
+import type { Database } from 'sql.js';
+
+export const migration009 = {
+  version: 9,
+  name: 'resolver_races',
+  up: (db: Database) => {
+    // One row per battle we tried to resolve: whether our resolve landed first ('won'),
+    // another resolver's did ('lost') or ours failed for another reason ('failed', retried)
+    db.run(`
+      CREATE TABLE IF NOT EXISTS resolver_races (
+        challenge_id INTEGER PRIMARY KEY,
+        outcome TEXT NOT NULL,
+        ends_at INTEGER NOT NULL,
+        latency_ms INTEGER NOT NULL,
+        tx_id TEXT,
+        error TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+  },
+};
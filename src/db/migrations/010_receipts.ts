@@ -0,0 +1,24 @@
+import type { Database } from 'sql.js';
+
+export const migration010 = {
+  version: 10,
+  name: 'receipts',
+  up: (db: Database) => {
+    // XPR the contract actually sent us, read from the traces of our transactions
+    // (resolver rewards, and payouts/refunds of our battles when our tx triggered them)
+    db.run(`
+      CREATE TABLE IF NOT EXISTS receipts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        tx_id TEXT NOT NULL,
+        challenge_id INTEGER,
+        action TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        amount REAL NOT NULL,
+        memo TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    db.run(`CREATE INDEX IF NOT EXISTS idx_receipts_challenge ON receipts(challenge_id)`);
+  },
+};
@@ -0,0 +1,19 @@
+import type { Database } from 'sql.js';
+
+export const migration011 = {
+  version: 11,
+  name: 'contract_errors',
+  up: (db: Database) => {
+    // Failed transactions per day, by error category and action
+    db.run(`
+      CREATE TABLE IF NOT EXISTS contract_errors (
+        date TEXT NOT NULL,
+        category TEXT NOT NULL,
+        action TEXT NOT NULL,
+        count INTEGER NOT NULL DEFAULT 0,
+        last_error TEXT,
+        PRIMARY KEY (date, category, action)
+      )
+    `);
+  },
+};
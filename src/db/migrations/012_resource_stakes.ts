@@ -0,0 +1,18 @@
+import type { Database } from 'sql.js';
+
+export const migration012 = {
+  version: 12,
+  name: 'resource_stakes',
+  up: (db: Database) => {
+    // XPR the bot staked for its own CPU/NET, counted against RESOURCE_STAKE_BUDGET
+    db.run(`
+      CREATE TABLE IF NOT EXISTS resource_stakes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        tx_id TEXT NOT NULL,
+        cpu REAL NOT NULL,
+        net REAL NOT NULL,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+  },
+};
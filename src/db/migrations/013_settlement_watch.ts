@@ -0,0 +1,25 @@
+import type { Database } from 'sql.js';
+
+export const migration013 = {
+  version: 13,
+  name: 'settlement_watch',
+  up: (db: Database) => {
+    // Our battles seen ACTIVE and not settled yet. Kept apart from the challenges
+    // table, which the challenge monitor diffs against to find transitions.
+    db.run(`
+      CREATE TABLE IF NOT EXISTS settlement_watch (
+        challenge_id INTEGER PRIMARY KEY,
+        our_role TEXT NOT NULL,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // Carry over the battles settlement was tracking through the challenges table
+    db.run(`
+      INSERT OR IGNORE INTO settlement_watch (challenge_id, our_role)
+      SELECT id, our_role FROM challenges
+      WHERE status = 1 AND our_role IS NOT NULL
+        AND id NOT IN (SELECT challenge_id FROM settlements)
+    `);
+  },
+};
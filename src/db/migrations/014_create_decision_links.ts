@@ -0,0 +1,12 @@
+import type { Database } from 'sql.js';
+
+export const migration014 = {
+  version: 14,
+  name: 'create_decision_links',
+  up: (db: Database) => {
+    // What a 'create' decision put on chain, so settlement links it to the right challenge
+    // (NULL for other actions, and for creates logged before this migration)
+    db.run(`ALTER TABLE decisions ADD COLUMN oracle_index INTEGER`);
+    db.run(`ALTER TABLE decisions ADD COLUMN tx_id TEXT`);
+  },
+};
@@ -0,0 +1,11 @@
+import type { Database } from 'sql.js';
+
+export const migration015 = {
+  version: 15,
+  name: 'paper_settlements',
+  up: (db: Database) => {
+    // Paper battles settle into the same table (under their negative view ids),
+    // flagged so live and paper results are read apart
+    db.run(`ALTER TABLE settlements ADD COLUMN paper INTEGER NOT NULL DEFAULT 0`);
+  },
+};
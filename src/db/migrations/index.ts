@@ -1,4 +1,17 @@
 import { migration001 } from './001_initial';
 import { migration002 } from './002_confidence_streaks';
+import { migration003 } from './003_settlements';
+import { migration004 } from './004_price_feeds';
+import { migration005 } from './005_paper_trading';
+import { migration006 } from './006_decision_costs';
+import { migration007 } from './007_decision_votes';
+import { migration008 } from './008_prompt_templates';
+import { migration009 } from './009_resolver_races';
+import { migration010 } from './010_receipts';
+import { migration011 } from './011_contract_errors';
+import { migration012 } from './012_resource_stakes';
+import { migration013 } from './013_settlement_watch';
+import { migration014 } from './014_create_decision_links';
+import { migration015 } from './015_paper_settlements';
 
-export const migrations = [migration001, migration002];
+export const migrations = [migration001, migration002, migration003, migration004, migration005, migration006, migration007, migration008, migration009, migration010, migration011, migration012, migration013, migration014, migration015];
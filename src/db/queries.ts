@@ -1,6 +1,26 @@
 import type { Database } from 'sql.js';
-import { Challenge, BotPerformance } from '../types';
-import { todayDate } from '../utils/time';
+import {
+  AIUsage,
+  AIVote,
+  Challenge,
+  BattleStatus,
+  BotPerformance,
+  CalibrationSample,
+  ContractErrorCategory,
+  ContractErrorCount,
+  DailyCosts,
+  DurationPerformance,
+  ModelVoteStats,
+  PromptTemplateStats,
+  PaperChallenge,
+  PaperSummary,
+  Receipt,
+  ResolverRaceOutcome,
+  ResolverRaceStats,
+  DIRECTION,
+  ORACLE,
+} from '../types';
+import { nowMs, todayDate } from '../utils/time';
 import { saveDatabase } from './sqlite';
 
 export class DatabaseQueries {
@@ -18,14 +38,21 @@ export class DatabaseQueries {
 
   // ========== Price History ==========
 
-  insertPrice(price: number, timestamp: number): void {
-    this.db.run('INSERT INTO price_history (price, timestamp) VALUES (?, ?)', [price, timestamp]);
+  insertPrice(price: number, timestamp: number, oracleIndex: number = ORACLE.BTC_USD): void {
+    this.db.run(
+      'INSERT INTO price_history (price, timestamp, oracle_index) VALUES (?, ?, ?)',
+      [price, timestamp, oracleIndex]
+    );
     this.save();
   }
 
-  getRecentPrices(limit: number = 60): { price: number; timestamp: number }[] {
+  getRecentPrices(
+    limit: number = 60,
+    oracleIndex: number = ORACLE.BTC_USD
+  ): { price: number; timestamp: number }[] {
     const result = this.db.exec(
-      `SELECT price, timestamp FROM price_history ORDER BY timestamp DESC LIMIT ${limit}`
+      `SELECT price, timestamp FROM price_history WHERE oracle_index = ${oracleIndex}
+       ORDER BY timestamp DESC LIMIT ${limit}`
     );
 
     if (result.length === 0) return [];
@@ -36,18 +63,57 @@ export class DatabaseQueries {
     }));
   }
 
-  getPriceAt(timestamp: number): number | null {
+  getPriceAt(timestamp: number, oracleIndex: number = ORACLE.BTC_USD): number | null {
     const result = this.db.exec(
-      `SELECT price FROM price_history WHERE timestamp <= ${timestamp} ORDER BY timestamp DESC LIMIT 1`
+      `SELECT price FROM price_history WHERE oracle_index = ${oracleIndex} AND timestamp <= ${timestamp}
+       ORDER BY timestamp DESC LIMIT 1`
     );
 
     if (result.length === 0 || result[0].values.length === 0) return null;
     return result[0].values[0][0] as number;
   }
 
+  // Full price history for one feed, oldest first (used by the backtester)
+  getPriceRange(
+    oracleIndex: number,
+    from: number = 0,
+    to: number = Number.MAX_SAFE_INTEGER
+  ): { price: number; timestamp: number }[] {
+    const result = this.db.exec(
+      `SELECT price, timestamp FROM price_history
+       WHERE oracle_index = ${oracleIndex} AND timestamp >= ${from} AND timestamp <= ${to}
+       ORDER BY timestamp ASC`
+    );
+
+    if (result.length === 0) return [];
+
+    return result[0].values.map((row: any[]) => ({
+      price: row[0] as number,
+      timestamp: row[1] as number,
+    }));
+  }
+
   // ========== Challenges ==========
 
   upsertChallenge(challenge: Challenge, ourRole?: string): void {
+    this.writeChallenge(challenge, ourRole);
+    this.save();
+  }
+
+  upsertChallenges(challenges: Challenge[], account?: string): void {
+    for (const c of challenges) {
+      let ourRole: string | null = null;
+      if (account) {
+        if (c.creator === account) ourRole = 'creator';
+        else if (c.opponent === account) ourRole = 'opponent';
+      }
+      this.writeChallenge(c, ourRole || undefined);
+    }
+    // Save once for the whole batch - a full-table sync can be thousands of rows
+    this.save();
+  }
+
+  private writeChallenge(challenge: Challenge, ourRole?: string): void {
     // Check if exists
     const existing = this.db.exec(`SELECT id FROM challenges WHERE id = ${challenge.id}`);
 
@@ -56,7 +122,8 @@ export class DatabaseQueries {
       this.db.run(
         `UPDATE challenges SET
           opponent = ?, start_price = ?, end_price = ?, started_at = ?,
-          expires_at = ?, status = ?, winner = ?, synced_at = CURRENT_TIMESTAMP
+          expires_at = ?, status = ?, winner = ?, our_role = COALESCE(?, our_role),
+          synced_at = CURRENT_TIMESTAMP
         WHERE id = ?`,
         [
           challenge.opponent || null,
@@ -66,6 +133,7 @@ export class DatabaseQueries {
           challenge.expires_at || null,
           challenge.status,
           challenge.winner || null,
+          ourRole || null,
           challenge.id,
         ]
       );
@@ -95,18 +163,6 @@ export class DatabaseQueries {
         ]
       );
     }
-    this.save();
-  }
-
-  upsertChallenges(challenges: Challenge[], account?: string): void {
-    for (const c of challenges) {
-      let ourRole: string | null = null;
-      if (account) {
-        if (c.creator === account) ourRole = 'creator';
-        else if (c.opponent === account) ourRole = 'opponent';
-      }
-      this.upsertChallenge(c, ourRole || undefined);
-    }
   }
 
   getOurChallenges(account: string): Challenge[] {
@@ -124,12 +180,25 @@ export class DatabaseQueries {
     return this.rowsToObjects(result[0]) as Challenge[];
   }
 
+  // Last known status of every tracked challenge, for detecting transitions
+  getChallengeStatuses(): Map<number, BattleStatus> {
+    const statuses = new Map<number, BattleStatus>();
+    const result = this.db.exec('SELECT id, status FROM challenges');
+    if (result.length === 0) return statuses;
+
+    for (const row of result[0].values) {
+      statuses.set(row[0] as number, row[1] as BattleStatus);
+    }
+    return statuses;
+  }
+
   getChallengeById(id: number): Challenge | null {
     const result = this.db.exec(`SELECT * FROM challenges WHERE id = ${id}`);
     if (result.length === 0 || result[0].values.length === 0) return null;
     return this.rowsToObjects(result[0])[0] as Challenge;
   }
 
+  // Our battles last seen as ACTIVE - candidates for settlement
   // ========== Decisions ==========
 
   logDecision(params: {
@@ -141,6 +210,11 @@ export class DatabaseQueries {
     aiProvider?: string;
     aiModel?: string;
     priceAtDecision?: number;
+    usage?: AIUsage; // the AI call this decision was based on
+    votes?: AIVote[]; // ensemble members' votes
+    prompt?: { id: string; hash: string }; // template the prediction prompt was built from
+    oracleIndex?: number; // feed a created challenge is on
+    txId?: string; // transaction that created it
   }): void {
     // Calculate confidence bucket for tracking
     const confidenceBucket = params.confidence !== undefined
@@ -150,8 +224,10 @@ export class DatabaseQueries {
     this.db.run(
       `INSERT INTO decisions (
         challenge_id, action, direction, confidence, confidence_bucket, reasoning,
-        ai_provider, ai_model, price_at_decision
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        ai_provider, ai_model, price_at_decision,
+        input_tokens, output_tokens, latency_ms, cost_usd, prompt_template, prompt_hash,
+        oracle_index, tx_id
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       [
         params.challengeId ?? null,
         params.action,
@@ -160,13 +236,142 @@ export class DatabaseQueries {
         confidenceBucket,
         params.reasoning ?? null,
         params.aiProvider ?? null,
-        params.aiModel ?? null,
+        params.aiModel ?? params.usage?.model ?? null,
         params.priceAtDecision ?? null,
+        params.usage?.inputTokens ?? null,
+        params.usage?.outputTokens ?? null,
+        params.usage?.latencyMs ?? null,
+        params.usage?.costUsd ?? null,
+        params.prompt?.id ?? null,
+        params.prompt?.hash ?? null,
+        params.oracleIndex ?? null,
+        params.txId ?? null,
       ]
     );
+
+    if (params.votes && params.votes.length > 0) {
+      const decisionId = this.db.exec('SELECT last_insert_rowid()')[0].values[0][0] as number;
+      for (const vote of params.votes) {
+        this.db.run(
+          `INSERT INTO decision_votes (
+            decision_id, member, vote, confidence, reasoning,
+            input_tokens, output_tokens, latency_ms, cost_usd, error
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            decisionId,
+            vote.member,
+            vote.vote,
+            vote.confidence ?? null,
+            vote.reasoning ?? null,
+            vote.usage?.inputTokens ?? null,
+            vote.usage?.outputTokens ?? null,
+            vote.usage?.latencyMs ?? null,
+            vote.usage?.costUsd ?? null,
+            vote.error ?? null,
+          ]
+        );
+      }
+    }
     this.save();
   }
 
+  /**
+   * Per ensemble member: how its votes on our creates/accepts compare with the settled outcomes.
+   * A vote is "for our side" if it matches the direction we took, or is an accept, and "against"
+   * if it is the other direction or a reject. NEUTRAL votes took no side, so they are counted apart.
+   * 'create' rows repeat the votes of the analysis that led to them, so they only count toward outcomes.
+   */
+  getModelVoteStats(): ModelVoteStats[] {
+    const result = this.db.exec(`
+      SELECT
+        member,
+        COALESCE(SUM(CASE WHEN action != 'create' THEN 1 ELSE 0 END), 0),
+        COALESCE(SUM(CASE WHEN action != 'create' AND vote = 'error' THEN 1 ELSE 0 END), 0),
+        COALESCE(SUM(CASE WHEN outcome IS NOT NULL AND (for_us OR against) THEN 1 ELSE 0 END), 0),
+        COALESCE(SUM(CASE WHEN outcome IS NOT NULL AND vote = 'NEUTRAL' THEN 1 ELSE 0 END), 0),
+        COALESCE(SUM(CASE WHEN (outcome = 'win' AND for_us) OR (outcome = 'loss' AND against) THEN 1 ELSE 0 END), 0),
+        COALESCE(SUM(CASE WHEN outcome = 'win' AND for_us THEN 1 ELSE 0 END), 0),
+        COALESCE(SUM(CASE WHEN outcome = 'loss' AND for_us THEN 1 ELSE 0 END), 0),
+        COALESCE(SUM(CASE WHEN action != 'create' THEN cost_usd ELSE 0 END), 0)
+      FROM (
+        SELECT
+          v.member,
+          v.vote,
+          v.cost_usd,
+          d.action,
+          s.outcome,
+          v.vote = 'accept' OR v.vote = d.direction AS for_us,
+          v.vote = 'reject' OR (v.vote IN ('UP', 'DOWN') AND v.vote != d.direction) AS against
+        FROM decision_votes v
+        JOIN decisions d ON d.id = v.decision_id
+        LEFT JOIN settlements s ON s.challenge_id = d.challenge_id AND d.action IN ('create', 'accept')
+      )
+      GROUP BY member
+      ORDER BY member
+    `);
+    if (result.length === 0) return [];
+
+    return result[0].values.map((row) => ({
+      member: row[0] as string,
+      votes: row[1] as number,
+      errors: row[2] as number,
+      settled: row[3] as number,
+      neutral: row[4] as number,
+      correct: row[5] as number,
+      backedWins: row[6] as number,
+      backedLosses: row[7] as number,
+      costUsd: row[8] as number,
+    }));
+  }
+
+  /**
+   * Per prompt template version: predictions made with it, challenges it led us to create,
+   * and how those battles settled
+   */
+  getPromptTemplateStats(): PromptTemplateStats[] {
+    const result = this.db.exec(`
+      SELECT
+        d.prompt_template,
+        d.prompt_hash,
+        SUM(CASE WHEN d.action = 'analyze_create' THEN 1 ELSE 0 END),
+        SUM(CASE WHEN d.action = 'create' THEN 1 ELSE 0 END),
+        COUNT(s.challenge_id),
+        COALESCE(SUM(CASE WHEN s.outcome = 'win' THEN 1 ELSE 0 END), 0),
+        COALESCE(SUM(CASE WHEN s.outcome = 'loss' THEN 1 ELSE 0 END), 0),
+        COALESCE(SUM(CASE WHEN s.outcome = 'tie' THEN 1 ELSE 0 END), 0),
+        COALESCE(SUM(s.pnl), 0),
+        COALESCE(SUM(d.cost_usd), 0),
+        MIN(d.created_at)
+      FROM decisions d
+      LEFT JOIN settlements s ON s.challenge_id = d.challenge_id AND d.action = 'create'
+      WHERE d.prompt_template IS NOT NULL
+      GROUP BY d.prompt_template, d.prompt_hash
+      ORDER BY MIN(d.created_at)
+    `);
+    if (result.length === 0) return [];
+
+    return result[0].values.map((row) => {
+      const wins = row[5] as number;
+      const losses = row[6] as number;
+      const ties = row[7] as number;
+      const settled = wins + losses + ties;
+      return {
+        template: row[0] as string,
+        hash: row[1] as string,
+        predictions: row[2] as number,
+        created: row[3] as number,
+        settled,
+        wins,
+        losses,
+        ties,
+        winRate: settled > 0 ? (wins / settled) * 100 : 0,
+        pnl: row[8] as number,
+        costUsd: row[9] as number,
+        firstUsed: row[10] as string,
+      };
+    });
+  }
+
   // Get confidence bucket from percentage
   private getConfidenceBucket(confidence: number): string {
     if (confidence >= 90) return 'very_high';
@@ -175,6 +380,49 @@ export class DatabaseQueries {
     return 'low';
   }
 
+  /**
+   * Attach the unlinked 'create' decision that produced an on-chain challenge to it.
+   * The challenge id isn't known when we create, so we match a signed create on the
+   * same feed and direction, logged within 60s of the challenge (clock slack).
+   */
+  linkCreateDecision(
+    challenge: Pick<Challenge, 'id' | 'created_at' | 'oracle_index' | 'direction'>
+  ): void {
+    const existing = this.db.exec(
+      `SELECT id FROM decisions WHERE challenge_id = ${challenge.id} AND action = 'create'`
+    );
+    if (existing.length > 0 && existing[0].values.length > 0) return;
+
+    this.db.run(
+      `UPDATE decisions SET challenge_id = ? WHERE id = (
+        SELECT id FROM decisions
+        WHERE action = 'create' AND challenge_id IS NULL AND tx_id IS NOT NULL
+          AND oracle_index = ? AND direction = ?
+          AND CAST(strftime('%s', created_at) AS INTEGER) BETWEEN ? AND ?
+        ORDER BY id DESC LIMIT 1
+      )`,
+      [
+        challenge.id,
+        challenge.oracle_index,
+        challenge.direction === DIRECTION.UP ? 'UP' : 'DOWN',
+        challenge.created_at - 60,
+        challenge.created_at + 60,
+      ]
+    );
+    this.save();
+  }
+
+  // Confidence of the create/accept decision that put us in this battle
+  getDecisionConfidence(challengeId: number): number | undefined {
+    const result = this.db.exec(
+      `SELECT confidence FROM decisions
+       WHERE challenge_id = ${challengeId} AND action IN ('create', 'accept') AND confidence IS NOT NULL
+       ORDER BY id DESC LIMIT 1`
+    );
+    if (result.length === 0 || result[0].values.length === 0) return undefined;
+    return result[0].values[0][0] as number;
+  }
+
   getRecentDecisions(limit: number = 20): any[] {
     const result = this.db.exec(
       `SELECT * FROM decisions ORDER BY created_at DESC LIMIT ${limit}`
@@ -183,10 +431,74 @@ export class DatabaseQueries {
     return this.rowsToObjects(result[0]);
   }
 
+  // ========== AI Costs ==========
+
+  // Estimated USD spent on AI calls on a day (UTC)
+  getAISpend(date: string = todayDate()): number {
+    const result = this.db.exec(
+      `SELECT COALESCE(SUM(cost_usd), 0) FROM decisions WHERE date(created_at) = ?`,
+      [date]
+    );
+    return (result[0]?.values[0]?.[0] as number) || 0;
+  }
+
+  /**
+   * AI spend next to trading P&L and resolver earnings, per day since the given date (newest first)
+   */
+  getDailyCosts(sinceDate: string): DailyCosts[] {
+    const days = new Map<string, DailyCosts>();
+    const day = (date: string): DailyCosts => {
+      let entry = days.get(date);
+      if (!entry) {
+        entry = { date, calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0, tradingPnl: 0, resolverEarnings: 0 };
+        days.set(date, entry);
+      }
+      return entry;
+    };
+
+    const costs = this.db.exec(
+      `SELECT date(created_at) AS day, COUNT(*), COALESCE(SUM(input_tokens), 0),
+              COALESCE(SUM(output_tokens), 0), COALESCE(SUM(cost_usd), 0)
+       FROM decisions
+       WHERE input_tokens IS NOT NULL AND date(created_at) >= ?
+       GROUP BY day`,
+      [sinceDate]
+    );
+    for (const [date, calls, inputTokens, outputTokens, costUsd] of costs[0]?.values ?? []) {
+      Object.assign(day(date as string), { calls, inputTokens, outputTokens, costUsd });
+    }
+
+    const results = this.db.exec(
+      `SELECT date, COALESCE(total_won, 0) - COALESCE(total_lost, 0), COALESCE(resolver_earnings, 0)
+       FROM performance WHERE date >= ?`,
+      [sinceDate]
+    );
+    for (const [date, tradingPnl, resolverEarnings] of results[0]?.values ?? []) {
+      Object.assign(day(date as string), { tradingPnl, resolverEarnings });
+    }
+
+    return [...days.values()].sort((a, b) => b.date.localeCompare(a.date));
+  }
+
   // ========== Performance ==========
 
-  getPerformance(date: string = todayDate()): BotPerformance {
-    const result = this.db.exec(`SELECT * FROM performance WHERE date = '${date}'`);
+  /**
+   * Results of battles settled on a day. Paper results aren't booked into the
+   * performance table, so they're summed from their settlements instead.
+   */
+  getPerformance(date: string = todayDate(), paper: boolean = false): BotPerformance {
+    const result = paper
+      ? this.db.exec(
+          `SELECT
+            COALESCE(SUM(CASE WHEN outcome = 'win' THEN 1 ELSE 0 END), 0) as wins,
+            COALESCE(SUM(CASE WHEN outcome = 'loss' THEN 1 ELSE 0 END), 0) as losses,
+            COALESCE(SUM(CASE WHEN outcome = 'tie' THEN 1 ELSE 0 END), 0) as ties,
+            COALESCE(SUM(CASE WHEN outcome = 'win' THEN pnl ELSE 0 END), 0) as total_won,
+            COALESCE(SUM(CASE WHEN outcome = 'loss' THEN stake ELSE 0 END), 0) as total_lost
+          FROM settlements WHERE paper = 1 AND settled_date = ?`,
+          [date]
+        )
+      : this.db.exec(`SELECT * FROM performance WHERE date = '${date}'`);
 
     if (result.length === 0 || result[0].values.length === 0) {
       return {
@@ -359,6 +671,146 @@ export class DatabaseQueries {
     };
   }
 
+  // ========== Settlements ==========
+
+  /**
+   * Start watching our battles for settlement (already watched or settled ones are ignored)
+   */
+  watchSettlements(battles: { challengeId: number; role: string }[]): void {
+    for (const { challengeId, role } of battles) {
+      this.db.run(
+        `INSERT OR IGNORE INTO settlement_watch (challenge_id, our_role)
+         SELECT ?, ? WHERE NOT EXISTS (SELECT 1 FROM settlements WHERE challenge_id = ?)`,
+        [challengeId, role, challengeId]
+      );
+    }
+    this.save();
+  }
+
+  // Battles waiting to be settled, oldest first
+  getWatchedSettlements(): number[] {
+    const result = this.db.exec(`SELECT challenge_id FROM settlement_watch ORDER BY challenge_id ASC`);
+    if (result.length === 0) return [];
+    return result[0].values.map((row) => row[0] as number);
+  }
+
+  unwatchSettlement(challengeId: number): void {
+    this.db.run(`DELETE FROM settlement_watch WHERE challenge_id = ?`, [challengeId]);
+    this.save();
+  }
+
+  isSettled(challengeId: number): boolean {
+    const result = this.db.exec(`SELECT challenge_id FROM settlements WHERE challenge_id = ${challengeId}`);
+    return result.length > 0 && result[0].values.length > 0;
+  }
+
+  /**
+   * Record a settled battle. Returns false if it was already recorded,
+   * so callers only update performance the first time.
+   */
+  recordSettlement(params: {
+    challengeId: number;
+    role: string;
+    outcome: string;
+    stake: number;
+    payout: number;
+    pnl: number;
+    confidence?: number;
+    duration?: number;
+    oracleIndex?: number;
+    date?: string;
+    paper?: boolean;
+  }): boolean {
+    this.db.run(
+      `INSERT OR IGNORE INTO settlements (
+        challenge_id, our_role, outcome, stake, payout, pnl, confidence, duration, oracle_index, settled_date, paper
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        params.challengeId,
+        params.role,
+        params.outcome,
+        params.stake,
+        params.payout,
+        params.pnl,
+        params.confidence ?? null,
+        params.duration ?? null,
+        params.oracleIndex ?? null,
+        params.date ?? todayDate(),
+        params.paper ? 1 : 0,
+      ]
+    );
+    const inserted = this.db.getRowsModified() > 0;
+    if (inserted) this.save();
+    return inserted;
+  }
+
+  /**
+   * Record the transfers the contract sent us in one of our transactions
+   */
+  recordReceipts(txId: string, receipts: Receipt[]): void {
+    if (receipts.length === 0) return;
+    for (const receipt of receipts) {
+      this.db.run(
+        `INSERT INTO receipts (tx_id, challenge_id, action, kind, amount, memo) VALUES (?, ?, ?, ?, ?, ?)`,
+        [txId, receipt.challengeId ?? null, receipt.action, receipt.kind, receipt.amount, receipt.memo]
+      );
+    }
+    this.save();
+  }
+
+  // XPR we received as payout or refund of a battle, if one of our transactions showed it
+  getReceivedPayout(challengeId: number): number | undefined {
+    const result = this.db.exec(
+      `SELECT COUNT(*), COALESCE(SUM(amount), 0) FROM receipts
+       WHERE challenge_id = ${challengeId} AND kind IN ('payout', 'refund')`
+    );
+    const [count, amount] = result[0].values[0] as number[];
+    return count > 0 ? amount : undefined;
+  }
+
+  // Confidence behind each settled battle and whether we won (confidence calibration)
+  getCalibrationSamples(paper: boolean = false): CalibrationSample[] {
+    const result = this.db.exec(
+      `SELECT confidence, outcome FROM settlements
+       WHERE confidence IS NOT NULL AND paper = ${paper ? 1 : 0} ORDER BY challenge_id`
+    );
+    if (result.length === 0) return [];
+    return result[0].values.map((row) => ({
+      confidence: row[0] as number,
+      won: row[1] === 'win',
+    }));
+  }
+
+  // Our settled battles by duration
+  getDurationPerformance(paper: boolean = false): DurationPerformance[] {
+    const result = this.db.exec(`
+      SELECT
+        duration,
+        COUNT(*),
+        SUM(CASE WHEN outcome = 'win' THEN 1 ELSE 0 END),
+        SUM(CASE WHEN outcome = 'loss' THEN 1 ELSE 0 END),
+        SUM(CASE WHEN outcome = 'tie' THEN 1 ELSE 0 END)
+      FROM settlements
+      WHERE duration IS NOT NULL AND paper = ${paper ? 1 : 0}
+      GROUP BY duration
+      ORDER BY duration
+    `);
+    if (result.length === 0) return [];
+
+    return result[0].values.map((row) => {
+      const settled = row[1] as number;
+      const wins = row[2] as number;
+      return {
+        duration: row[0] as number,
+        settled,
+        wins,
+        losses: row[3] as number,
+        ties: row[4] as number,
+        winRate: settled > 0 ? (wins / settled) * 100 : 0,
+      };
+    });
+  }
+
   // ========== Confidence Performance ==========
 
   incrementConfidenceWin(confidence: number, amount: number): void {
@@ -478,6 +930,260 @@ export class DatabaseQueries {
     return result[0].values[0][0] as number || 0;
   }
 
+  // ========== Resolver Races ==========
+
+  /**
+   * Record how our resolve of a battle went. A 'failed' attempt is overwritten by
+   * the next one; 'won' and 'lost' are final.
+   */
+  recordResolverRace(params: {
+    challengeId: number;
+    outcome: ResolverRaceOutcome;
+    endsAt: number; // battle end, seconds
+    latencyMs: number; // battle end to our submit
+    txId?: string;
+    error?: string;
+  }): void {
+    this.db.run(
+      `INSERT INTO resolver_races (challenge_id, outcome, ends_at, latency_ms, tx_id, error)
+       VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT(challenge_id) DO UPDATE SET
+         outcome = excluded.outcome, latency_ms = excluded.latency_ms,
+         tx_id = excluded.tx_id, error = excluded.error, created_at = CURRENT_TIMESTAMP
+       WHERE resolver_races.outcome = 'failed'`,
+      [
+        params.challengeId,
+        params.outcome,
+        params.endsAt,
+        Math.round(params.latencyMs),
+        params.txId ?? null,
+        params.error ?? null,
+      ]
+    );
+    this.save();
+  }
+
+  // Whether the race for a battle is over (we resolved it, or someone else did)
+  isResolverRaceDecided(challengeId: number): boolean {
+    const result = this.db.exec(
+      `SELECT 1 FROM resolver_races WHERE challenge_id = ${challengeId} AND outcome IN ('won', 'lost')`
+    );
+    return result.length > 0 && result[0].values.length > 0;
+  }
+
+  getResolverRaceStats(): ResolverRaceStats | null {
+    const result = this.db.exec(`
+      SELECT
+        COALESCE(SUM(CASE WHEN outcome = 'won' THEN 1 ELSE 0 END), 0),
+        COALESCE(SUM(CASE WHEN outcome = 'lost' THEN 1 ELSE 0 END), 0),
+        COALESCE(SUM(CASE WHEN outcome = 'failed' THEN 1 ELSE 0 END), 0),
+        COALESCE(AVG(CASE WHEN outcome = 'won' THEN latency_ms END), 0)
+      FROM resolver_races
+    `);
+    const [won, lost, failed, avgLatencyMs] = result[0].values[0] as number[];
+    if (won + lost + failed === 0) return null;
+
+    return {
+      won,
+      lost,
+      failed,
+      winRate: won + lost > 0 ? (won / (won + lost)) * 100 : 0,
+      avgLatencyMs,
+    };
+  }
+
+  // ========== Contract Errors ==========
+
+  /**
+   * Count a failed transaction against its error category, once per action in it
+   */
+  recordContractError(category: ContractErrorCategory, actions: string[], error: string): void {
+    const date = todayDate();
+    for (const action of new Set(actions)) {
+      this.db.run(
+        `INSERT INTO contract_errors (date, category, action, count, last_error)
+         VALUES (?, ?, ?, 1, ?)
+         ON CONFLICT(date, category, action) DO UPDATE SET
+           count = count + 1, last_error = excluded.last_error`,
+        [date, category, action, error]
+      );
+    }
+    this.save();
+  }
+
+  // Failed transactions by category and action over the last `days` days, most frequent first
+  getContractErrorCounts(days: number = 30): ContractErrorCount[] {
+    const since = new Date(nowMs() - days * 86400 * 1000).toISOString().split('T')[0];
+    const result = this.db.exec(
+      `SELECT category, action, SUM(count), MAX(date), last_error
+       FROM contract_errors
+       WHERE date >= ?
+       GROUP BY category, action
+       ORDER BY SUM(count) DESC`,
+      [since]
+    );
+    if (result.length === 0) return [];
+
+    return result[0].values.map((row) => ({
+      category: row[0] as ContractErrorCategory,
+      action: row[1] as string,
+      count: row[2] as number,
+      lastDate: row[3] as string,
+      lastError: (row[4] as string) ?? '',
+    }));
+  }
+
+  // ========== Resource Stakes ==========
+
+  recordResourceStake(txId: string, cpu: number, net: number): void {
+    this.db.run(`INSERT INTO resource_stakes (tx_id, cpu, net) VALUES (?, ?, ?)`, [txId, cpu, net]);
+    this.save();
+  }
+
+  // XPR staked for CPU/NET by the bot so far
+  getResourceStakeTotal(): number {
+    const result = this.db.exec(`SELECT COALESCE(SUM(cpu + net), 0) FROM resource_stakes`);
+    return result[0].values[0][0] as number;
+  }
+
+  // ========== Paper Trading ==========
+
+  /**
+   * Create the paper account with a starting balance (no-op if it already exists)
+   */
+  initPaperAccount(startingBalance: number, startedAt: number): void {
+    this.db.run(
+      'INSERT OR IGNORE INTO paper_account (id, starting_balance, balance, started_at) VALUES (1, ?, ?, ?)',
+      [startingBalance, startingBalance, startedAt]
+    );
+    if (this.db.getRowsModified() > 0) this.save();
+  }
+
+  getPaperBalance(): number {
+    const result = this.db.exec('SELECT balance FROM paper_account WHERE id = 1');
+    if (result.length === 0 || result[0].values.length === 0) return 0;
+    return result[0].values[0][0] as number;
+  }
+
+  adjustPaperBalance(delta: number): void {
+    this.db.run(
+      'UPDATE paper_account SET balance = balance + ?, updated_at = CURRENT_TIMESTAMP WHERE id = 1',
+      [delta]
+    );
+    this.save();
+  }
+
+  insertPaperChallenge(
+    challenge: Omit<Challenge, 'id'>,
+    ourRole: PaperChallenge['our_role'],
+    sourceId?: number
+  ): number {
+    this.db.run(
+      `INSERT INTO paper_challenges (
+        source_id, creator, opponent, amount, direction, oracle_index, duration,
+        start_price, created_at, started_at, expires_at, status, our_role
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        sourceId ?? null,
+        challenge.creator,
+        challenge.opponent || null,
+        challenge.amount,
+        challenge.direction,
+        challenge.oracle_index,
+        challenge.duration,
+        challenge.start_price || null,
+        challenge.created_at,
+        challenge.started_at || null,
+        challenge.expires_at || null,
+        challenge.status,
+        ourRole,
+      ]
+    );
+    const result = this.db.exec('SELECT last_insert_rowid()');
+    this.save();
+    return result[0].values[0][0] as number;
+  }
+
+  /**
+   * Update the mutable fields of a paper challenge (status, fill, settlement)
+   */
+  updatePaperChallenge(challenge: PaperChallenge): void {
+    this.db.run(
+      `UPDATE paper_challenges SET
+        opponent = ?, start_price = ?, end_price = ?, started_at = ?, status = ?, winner = ?,
+        outcome = ?, payout = ?, pnl = ?, settled_at = ?
+      WHERE id = ?`,
+      [
+        challenge.opponent || null,
+        challenge.start_price || null,
+        challenge.end_price || null,
+        challenge.started_at || null,
+        challenge.status,
+        challenge.winner || null,
+        challenge.outcome,
+        challenge.payout,
+        challenge.pnl,
+        challenge.settled_at,
+        challenge.id,
+      ]
+    );
+    this.save();
+  }
+
+  getPaperChallenge(id: number): PaperChallenge | null {
+    const result = this.db.exec(`SELECT * FROM paper_challenges WHERE id = ${id}`);
+    if (result.length === 0 || result[0].values.length === 0) return null;
+    return this.rowsToObjects(result[0])[0] as PaperChallenge;
+  }
+
+  // Open and active paper battles, oldest first
+  getLivePaperChallenges(): PaperChallenge[] {
+    const result = this.db.exec('SELECT * FROM paper_challenges WHERE status IN (0, 1) ORDER BY id ASC');
+    if (result.length === 0) return [];
+    return this.rowsToObjects(result[0]) as PaperChallenge[];
+  }
+
+  // On-chain challenges we have already paper-accepted
+  getPaperAcceptedIds(): Set<number> {
+    const result = this.db.exec('SELECT source_id FROM paper_challenges WHERE source_id IS NOT NULL');
+    if (result.length === 0) return new Set();
+    return new Set(result[0].values.map((row) => row[0] as number));
+  }
+
+  getPaperSummary(): PaperSummary | null {
+    const account = this.db.exec('SELECT starting_balance, balance, started_at FROM paper_account WHERE id = 1');
+    if (account.length === 0 || account[0].values.length === 0) return null;
+    const [startingBalance, balance, startedAt] = account[0].values[0] as number[];
+
+    const result = this.db.exec(`
+      SELECT
+        COALESCE(SUM(CASE WHEN status = 0 THEN 1 ELSE 0 END), 0),
+        COALESCE(SUM(CASE WHEN status = 1 THEN 1 ELSE 0 END), 0),
+        COALESCE(SUM(CASE WHEN status IN (0, 1) THEN CAST(amount AS INTEGER) ELSE 0 END), 0),
+        COALESCE(SUM(CASE WHEN outcome = 'win' THEN 1 ELSE 0 END), 0),
+        COALESCE(SUM(CASE WHEN outcome = 'loss' THEN 1 ELSE 0 END), 0),
+        COALESCE(SUM(CASE WHEN outcome = 'tie' THEN 1 ELSE 0 END), 0),
+        COALESCE(SUM(pnl), 0)
+      FROM paper_challenges
+    `);
+    const [open, active, stakedRaw, wins, losses, ties, pnl] = result[0].values[0] as number[];
+    const total = wins + losses + ties;
+
+    return {
+      startingBalance,
+      balance,
+      startedAt,
+      open,
+      active,
+      staked: stakedRaw / 10000,
+      wins,
+      losses,
+      ties,
+      winRate: total > 0 ? (wins / total) * 100 : 0,
+      pnl,
+    };
+  }
+
   // Helper to convert sql.js result to objects
   private rowsToObjects(result: { columns: string[]; values: any[][] }): Record<string, any>[] {
     const { columns, values } = result;
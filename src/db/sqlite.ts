@@ -13,9 +13,18 @@ async function getSql() {
   return sqlPromise;
 }
 
+// Pass as dbPath for a throwaway database that is never written to disk
+export const IN_MEMORY = ':memory:';
+
 export async function initDatabase(dbPath: string, logger?: Logger): Promise<Database> {
   const SQL = await getSql();
 
+  if (dbPath === IN_MEMORY) {
+    const db: Database = new SQL.Database();
+    runMigrations(db, logger);
+    return db;
+  }
+
   // Ensure directory exists
   const dir = path.dirname(dbPath);
   if (!fs.existsSync(dir)) {
@@ -79,6 +88,8 @@ function runMigrations(db: Database, logger?: Logger): void {
 }
 
 export function saveDatabase(db: Database, dbPath: string): void {
+  if (dbPath === IN_MEMORY) return;
+
   const data = db.export();
   const buffer = Buffer.from(data);
   fs.writeFileSync(dbPath, buffer);
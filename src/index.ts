@@ -1,15 +1,55 @@
 #!/usr/bin/env node
-import { Command } from 'commander';
+import { Command, InvalidArgumentError } from 'commander';
 import { loadConfig, validateConfig } from './config';
 import { PriceBattleBot } from './bot';
 import { initDatabase, DatabaseQueries } from './db';
 import { RpcClient } from './blockchain';
-import { OracleService, ChallengeService } from './services';
-import { BotMode } from './types';
-import { formatUSD, formatDuration, todayDate } from './utils';
+import { OracleService, ChallengeService, readResources } from './services';
+import { StrategyDefinition, getStrategyDefinition, listStrategies, loadStrategyModules } from './strategies';
+import { BotConfig, BotMode, OracleFeed, ORACLE, assetSymbol } from './types';
+import { formatUSD, formatDuration, todayDate, createLogger } from './utils';
+import {
+  runBacktest,
+  formatReport,
+  loadCandles,
+  PriceSample,
+  DeterministicAIClient,
+  RecordedAIClient,
+} from './backtest';
+import { RuleBasedClient, CalibrationModel, reliabilityTable } from './ai';
 
 const program = new Command();
 
+// Repeatable option collector (e.g. --strategy-module a --strategy-module b)
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+/**
+ * Parse --strategy-params JSON (undefined if not given)
+ */
+function parseStrategyParams(json?: string): Record<string, unknown> | undefined {
+  if (json === undefined) return undefined;
+  const params = JSON.parse(json);
+  if (typeof params !== 'object' || params === null || Array.isArray(params)) {
+    throw new Error('--strategy-params must be a JSON object');
+  }
+  return params;
+}
+
+/**
+ * Load configured strategy modules and look up the selected strategy (exits if unknown)
+ */
+function resolveStrategy(config: BotConfig): StrategyDefinition<any> {
+  loadStrategyModules(config.strategyModules);
+  const definition = getStrategyDefinition(config.mode);
+  if (!definition) {
+    console.error(`Invalid mode: ${config.mode}. Must be one of ${listStrategies().join(', ')}.`);
+    process.exit(1);
+  }
+  return definition;
+}
+
 program
   .name('pricebattle-bot')
   .description('PriceBattle trading and resolver bot for XPR Network')
@@ -19,18 +59,32 @@ program
 program
   .command('start')
   .description('Start the bot')
-  .option('-m, --mode <mode>', 'Bot mode: resolver, passive, aggressive', 'resolver')
+  .option('-m, --mode <mode>', 'Strategy: resolver, passive, aggressive or a custom strategy', 'resolver')
   .option('--dry-run', 'Run without executing transactions')
+  .option('--paper', 'Paper trade: virtual balance and challenges, settled against the oracle')
+  .option('--strategy-module <specifier>', 'Load custom strategies from a file path or package (repeatable)', collect, [])
+  .option('--strategy-params <json>', 'JSON parameters for the selected strategy (overrides STRATEGY_PARAMS)')
+  .option('--profile <name>', 'Strategy profile to use (overrides STRATEGY_PROFILE)')
+  .option('--profile-file <file>', 'YAML/JSON strategy profile file (overrides STRATEGY_PROFILE_FILE)')
   .action(async (options) => {
     try {
       const mode = options.mode as BotMode;
-      if (!['resolver', 'passive', 'aggressive'].includes(mode)) {
-        console.error(`Invalid mode: ${mode}. Must be resolver, passive, or aggressive.`);
+      if (options.paper && mode === 'resolver') {
+        console.error('Paper trading needs a trading strategy (e.g. passive or aggressive).');
         process.exit(1);
       }
 
-      const config = loadConfig({ mode, dryRun: options.dryRun || false });
-      validateConfig(config);
+      const config = loadConfig({
+        mode,
+        dryRun: options.dryRun || false,
+        paper: options.paper || false,
+        strategyModules: options.strategyModule,
+        strategyParams: parseStrategyParams(options.strategyParams),
+        profile: options.profile,
+        profileFile: options.profileFile,
+      });
+      const definition = resolveStrategy(config);
+      validateConfig(config, definition.requiresAI ?? true);
 
       const bot = new PriceBattleBot(config);
 
@@ -96,6 +150,68 @@ program
 ║  Resolver Fees:  ${(totalPerf.resolverEarnings.toFixed(4) + ' XPR').padEnd(42)} ║
 ╚══════════════════════════════════════════════════════════════╝
       `);
+
+      const races = db.getResolverRaceStats();
+      if (races) {
+        console.log(`╔══════════════════════════════════════════════════════════════╗
+║                       Resolver Races                         ║
+╠══════════════════════════════════════════════════════════════╣
+║  Won / Lost:     ${`${races.won} / ${races.lost}`.padEnd(42)} ║
+║  Failed:         ${String(races.failed).padEnd(42)} ║
+║  Win Rate:       ${(races.winRate.toFixed(1) + '%').padEnd(42)} ║
+║  Avg Latency:    ${(`${Math.round(races.avgLatencyMs)} ms after battle end`).padEnd(42)} ║
+╚══════════════════════════════════════════════════════════════╝
+`);
+      }
+
+      const account = await rpc.getAccount(config.account).catch(() => null);
+      if (account) {
+        const resources = readResources(account, config.resources);
+        const staked = db.getResourceStakeTotal();
+        const usage = (u: { percentAvailable: number; max: number }) =>
+          u.max < 0 ? 'unlimited' : `${u.percentAvailable.toFixed(1)}% available`;
+        console.log(`╔══════════════════════════════════════════════════════════════╗
+║                      Account Resources                       ║
+╠══════════════════════════════════════════════════════════════╣
+║  CPU:            ${usage(resources.cpu).padEnd(42)} ║
+║  NET:            ${usage(resources.net).padEnd(42)} ║
+║  RAM:            ${(resources.ram.quota < 0 ? 'unlimited' : `${resources.ram.free} bytes free`).padEnd(42)} ║
+║  Low:            ${(resources.low.join(', ') || 'none').padEnd(42)} ║
+║  Bot Staked:     ${(`${staked.toFixed(4)} / ${config.resources.stakeBudget} XPR budget`).padEnd(42)} ║
+╚══════════════════════════════════════════════════════════════╝
+`);
+      }
+
+      const contractErrors = db.getContractErrorCounts(30);
+      if (contractErrors.length > 0) {
+        const rows = contractErrors
+          .map((e) => `║  ${`${e.category} (${e.action})`.padEnd(50)}${String(e.count).padStart(8)}  ║`)
+          .join('\n');
+        console.log(`╔══════════════════════════════════════════════════════════════╗
+║                  Failed Transactions (30d)                   ║
+╠══════════════════════════════════════════════════════════════╣
+${rows}
+╚══════════════════════════════════════════════════════════════╝
+`);
+      }
+
+      const paper = db.getPaperSummary();
+      if (paper) {
+        const since = new Date(paper.startedAt * 1000).toISOString().split('T')[0];
+        console.log(`╔══════════════════════════════════════════════════════════════╗
+║                       Paper Trading                          ║
+╠══════════════════════════════════════════════════════════════╣
+║  Since:          ${since.padEnd(42)} ║
+║  Balance:        ${(paper.balance.toFixed(4) + ' XPR').padEnd(42)} ║
+║  Staked:         ${(paper.staked.toFixed(4) + ' XPR').padEnd(42)} ║
+║  Start Balance:  ${(paper.startingBalance.toFixed(4) + ' XPR').padEnd(42)} ║
+║  Open / Active:  ${`${paper.open} / ${paper.active}`.padEnd(42)} ║
+║  Record:         ${`${paper.wins}W / ${paper.losses}L / ${paper.ties}T`.padEnd(42)} ║
+║  Win Rate:       ${(paper.winRate.toFixed(1) + '%').padEnd(42)} ║
+║  Paper P&L:      ${(paper.pnl.toFixed(4) + ' XPR').padEnd(42)} ║
+╚══════════════════════════════════════════════════════════════╝
+`);
+      }
     } catch (error) {
       console.error('Failed to get status:', error instanceof Error ? error.message : error);
       process.exit(1);
@@ -115,7 +231,9 @@ program
       const rpc = new RpcClient(config.endpoints);
       const dbInstance = await initDatabase(config.databasePath);
       const db = new DatabaseQueries(dbInstance, config.databasePath);
-      const challengeService = new ChallengeService(rpc, db, config.account);
+      const challengeService = new ChallengeService(rpc, db, config.account, undefined, {
+        statusIndexPosition: config.challengeStatusIndex,
+      });
 
       console.log('Checking for resolvable battles...\n');
 
@@ -185,18 +303,229 @@ program
     }
   });
 
+// Costs command
+program
+  .command('costs')
+  .description('Compare AI spend with trading P&L and resolver earnings')
+  .option('-d, --days <number>', 'Number of days to show', '30')
+  .option('--xpr-price <usd>', 'XPR price in USD for the comparison (default: current oracle price)')
+  .action(async (options) => {
+    try {
+      const config = loadConfig({}, { requireCredentials: false });
+      const dbInstance = await initDatabase(config.databasePath);
+      const db = new DatabaseQueries(dbInstance, config.databasePath);
+
+      const days = Math.max(1, parseInt(options.days, 10) || 30);
+      const since = new Date(Date.now() - (days - 1) * 86400000).toISOString().split('T')[0];
+      const rows = db.getDailyCosts(since);
+
+      if (rows.length === 0) {
+        console.log(`No AI calls or battle results in the last ${days} days.`);
+        return;
+      }
+
+      let xprPrice: number | undefined = options.xprPrice ? parseFloat(options.xprPrice) : undefined;
+      if (xprPrice === undefined) {
+        try {
+          const oracle = new OracleService(new RpcClient(config.endpoints));
+          xprPrice = (await oracle.getPrice(ORACLE.XPR_USD)).price;
+        } catch {
+          console.warn('Could not fetch the XPR price - showing XPR amounts only (use --xpr-price).');
+        }
+      }
+
+      const usd = (xpr: number) => (xprPrice !== undefined ? `$${(xpr * xprPrice).toFixed(2)}` : '-');
+
+      console.log(`\nAI Costs vs Earnings (last ${days} days${xprPrice !== undefined ? `, XPR = $${xprPrice.toFixed(4)}` : ''}):\n`);
+      console.log('Date\t\tCalls\tTokens (in/out)\t\tAI Cost\t\tTrading P&L\t\tResolver\t\tNet');
+      console.log('─'.repeat(120));
+
+      const total = { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0, tradingPnl: 0, resolverEarnings: 0 };
+      for (const r of rows) {
+        total.calls += r.calls;
+        total.inputTokens += r.inputTokens;
+        total.outputTokens += r.outputTokens;
+        total.costUsd += r.costUsd;
+        total.tradingPnl += r.tradingPnl;
+        total.resolverEarnings += r.resolverEarnings;
+
+        const net = xprPrice !== undefined ? `$${((r.tradingPnl + r.resolverEarnings) * xprPrice - r.costUsd).toFixed(2)}` : '-';
+        console.log(
+          `${r.date}\t${r.calls}\t${`${r.inputTokens}/${r.outputTokens}`.padEnd(16)}\t$${r.costUsd.toFixed(4)}\t\t` +
+            `${r.tradingPnl.toFixed(4)} XPR\t\t${r.resolverEarnings.toFixed(4)} XPR\t\t${net}`
+        );
+      }
+
+      console.log('─'.repeat(120));
+      console.log(`AI calls:         ${total.calls} (${total.inputTokens} input / ${total.outputTokens} output tokens)`);
+      console.log(`AI spend:         $${total.costUsd.toFixed(4)}`);
+      console.log(`Trading P&L:      ${total.tradingPnl.toFixed(4)} XPR (${usd(total.tradingPnl)})`);
+      console.log(`Resolver:         ${total.resolverEarnings.toFixed(4)} XPR (${usd(total.resolverEarnings)})`);
+      if (config.ai.dailyBudget !== undefined) {
+        console.log(`Today's spend:    $${db.getAISpend().toFixed(4)} of $${config.ai.dailyBudget.toFixed(2)} budget`);
+      }
+
+      if (xprPrice !== undefined) {
+        // Resolving needs no AI, so only trading P&L counts toward paying for it
+        const tradingUsd = total.tradingPnl * xprPrice;
+        console.log(`\nTrading P&L minus AI spend: $${(tradingUsd - total.costUsd).toFixed(2)} - ${
+          tradingUsd >= total.costUsd ? 'the AI is paying for itself' : 'the AI is NOT paying for itself'
+        }`);
+      }
+      console.log('');
+    } catch (error) {
+      console.error('Failed to get costs:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+// Models command
+program
+  .command('models')
+  .description('Compare AI ensemble members by their votes on settled battles')
+  .action(async () => {
+    try {
+      const config = loadConfig({}, { requireCredentials: false });
+      const dbInstance = await initDatabase(config.databasePath);
+      const db = new DatabaseQueries(dbInstance, config.databasePath);
+
+      const stats = db.getModelVoteStats();
+      if (stats.length === 0) {
+        console.log('No ensemble votes recorded yet (set AI_ENSEMBLE to query several models).');
+        return;
+      }
+
+      console.log('\nAI Ensemble Members:\n');
+      console.log('Member\t\t\t\tVotes\tErrors\tSettled\tNeutral\tCorrect\tBacked W/L\tCost');
+      console.log('─'.repeat(100));
+
+      for (const m of stats) {
+        const accuracy = m.settled > 0 ? `${((m.correct / m.settled) * 100).toFixed(1)}%` : '-';
+        console.log(
+          `${m.member.padEnd(32)}${m.votes}\t${m.errors}\t${m.settled}\t${m.neutral}\t${accuracy}\t` +
+            `${m.backedWins}/${m.backedLosses}\t\t$${m.costUsd.toFixed(4)}`
+        );
+      }
+
+      console.log('\nCorrect: voted for our side and we won, or against it and we lost.');
+      console.log('Neutral votes on settled battles took no side and are not counted as settled.');
+      console.log('');
+    } catch (error) {
+      console.error('Failed to get model stats:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+// Prompt templates command
+program
+  .command('prompts')
+  .description('Compare prediction prompt template versions by settled win rate')
+  .action(async () => {
+    try {
+      const config = loadConfig({}, { requireCredentials: false });
+      const dbInstance = await initDatabase(config.databasePath);
+      const db = new DatabaseQueries(dbInstance, config.databasePath);
+
+      const stats = db.getPromptTemplateStats();
+      if (stats.length === 0) {
+        console.log('No predictions with a recorded prompt template yet.');
+        return;
+      }
+
+      console.log('\nPrompt Templates:\n');
+      console.log('Template\t\t\tHash\t\tPredict\tCreated\tSettled\tW/L/T\t\tWin Rate\tP&L\t\tAI Cost');
+      console.log('─'.repeat(120));
+
+      for (const t of stats) {
+        const winRate = t.settled > 0 ? `${t.winRate.toFixed(1)}%` : '-';
+        console.log(
+          `${t.template.padEnd(24)}${t.hash}\t${t.predictions}\t${t.created}\t${t.settled}\t` +
+            `${`${t.wins}/${t.losses}/${t.ties}`.padEnd(12)}\t${winRate}\t\t` +
+            `${t.pnl >= 0 ? '+' : ''}${t.pnl.toFixed(4)} XPR\t$${t.costUsd.toFixed(4)}`
+        );
+      }
+
+      const active = [config.ai.prompts.template, config.ai.prompts.challenger].filter(Boolean).join(' vs ');
+      console.log(`\nConfigured: ${active}${config.ai.prompts.challenger ? ` (${(config.ai.prompts.split * 100).toFixed(0)}% to ${config.ai.prompts.challenger})` : ''}`);
+      console.log('An edited template gets a new hash and is listed as a separate version.');
+      console.log('');
+    } catch (error) {
+      console.error('Failed to get prompt template stats:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+// Calibration command
+program
+  .command('calibration')
+  .description('Show AI confidence against realized win rate on settled battles')
+  .option('-b, --bin <points>', 'Confidence bin size (at least 1)', (value) => {
+    const bin = parseInt(value, 10);
+    if (!Number.isFinite(bin) || bin < 1) {
+      throw new InvalidArgumentError('Bin size must be a whole number of at least 1.');
+    }
+    return bin;
+  }, 10)
+  .action(async (options) => {
+    try {
+      const config = loadConfig({}, { requireCredentials: false });
+      const dbInstance = await initDatabase(config.databasePath);
+      const db = new DatabaseQueries(dbInstance, config.databasePath);
+
+      const samples = db.getCalibrationSamples();
+      if (samples.length === 0) {
+        console.log('No settled battles with a recorded confidence yet.');
+        return;
+      }
+
+      const { method, minSamples } = config.ai.calibration;
+      const model = CalibrationModel.fit(samples, minSamples);
+
+      console.log('\nReliability:\n');
+      console.log('Confidence\tBattles\tMean\tWin Rate\tCalibrated');
+      console.log('─'.repeat(60));
+
+      for (const row of reliabilityTable(samples, model, options.bin)) {
+        console.log(
+          `${`${row.from}-${row.to}%`.padEnd(12)}\t${row.battles}\t${row.meanConfidence.toFixed(1)}%\t` +
+            `${row.winRate.toFixed(1)}%\t\t${row.calibrated.toFixed(1)}%`
+        );
+      }
+
+      console.log('');
+      if (method === 'off') {
+        console.log('Calibration is off (AI_CALIBRATION=off): thresholds use the stated confidence.');
+      } else if (!model.active) {
+        console.log(`Not calibrating yet: ${samples.length}/${minSamples} settled battles (AI_CALIBRATION_MIN_SAMPLES).`);
+      } else {
+        console.log(`Isotonic fit on ${samples.length} settled battles. Thresholds and stakes use:`);
+        for (const confidence of [50, 60, 70, 75, 80, 90]) {
+          console.log(`  stated ${confidence}% -> ${model.calibrate(confidence).toFixed(1)}%`);
+        }
+      }
+      console.log('');
+    } catch (error) {
+      console.error('Failed to get calibration:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
 // Price command
 program
   .command('price')
-  .description('Show current BTC price from oracle')
+  .description('Show current oracle prices for the traded feeds')
   .action(async () => {
     try {
       const config = loadConfig();
       const rpc = new RpcClient(config.endpoints);
       const oracle = new OracleService(rpc);
 
-      const { price } = await oracle.getBTCPrice();
-      console.log(`\nCurrent BTC Price: ${formatUSD(price)}\n`);
+      console.log('');
+      for (const oracleIndex of config.feeds) {
+        const { price } = await oracle.getPrice(oracleIndex);
+        console.log(`Current ${assetSymbol(oracleIndex)} Price: ${formatUSD(price)}`);
+      }
+      console.log('');
     } catch (error) {
       console.error('Failed to get price:', error instanceof Error ? error.message : error);
       process.exit(1);
@@ -213,7 +542,9 @@ program
       const rpc = new RpcClient(config.endpoints);
       const dbInstance = await initDatabase(config.databasePath);
       const db = new DatabaseQueries(dbInstance, config.databasePath);
-      const challengeService = new ChallengeService(rpc, db, config.account);
+      const challengeService = new ChallengeService(rpc, db, config.account, undefined, {
+        statusIndexPosition: config.challengeStatusIndex,
+      });
 
       const [open, active] = await Promise.all([
         challengeService.getOpenChallenges(),
@@ -226,7 +557,7 @@ program
       } else {
         for (const c of open) {
           const expiresIn = c.expires_at - Math.floor(Date.now() / 1000);
-          console.log(`  #${c.id}: ${c.creator} bets ${c.direction === 1 ? 'UP' : 'DOWN'}`);
+          console.log(`  #${c.id}: ${c.creator} bets ${assetSymbol(c.oracle_index)} ${c.direction === 1 ? 'UP' : 'DOWN'}`);
           console.log(`      Amount: ${(parseInt(c.amount, 10) / 10000).toFixed(4)} XPR`);
           console.log(`      Duration: ${formatDuration(c.duration)}`);
           console.log(`      Expires: ${expiresIn > 0 ? formatDuration(expiresIn) : 'Expired'}`);
@@ -241,7 +572,7 @@ program
         for (const c of active) {
           const endTime = c.started_at + c.duration;
           const remaining = endTime - Math.floor(Date.now() / 1000);
-          console.log(`  #${c.id}: ${c.creator} vs ${c.opponent}`);
+          console.log(`  #${c.id}: ${c.creator} vs ${c.opponent} (${assetSymbol(c.oracle_index)})`);
           console.log(`      Creator: ${c.direction === 1 ? 'UP' : 'DOWN'} | Opponent: ${c.direction === 1 ? 'DOWN' : 'UP'}`);
           console.log(`      Amount: ${(parseInt(c.amount, 10) / 10000).toFixed(4)} XPR each`);
           console.log(`      Remaining: ${remaining > 0 ? formatDuration(remaining) : 'Ready to resolve'}`);
@@ -254,4 +585,141 @@ program
     }
   });
 
+// Strategies command
+program
+  .command('strategies')
+  .description('List available strategies (built-in and from strategy modules)')
+  .option('--strategy-module <specifier>', 'Also load strategies from a file path or package (repeatable)', collect, [])
+  .action(async (options) => {
+    try {
+      const config = loadConfig({ strategyModules: options.strategyModule }, { requireCredentials: false });
+      loadStrategyModules(config.strategyModules);
+
+      console.log('\nAvailable strategies:\n');
+      for (const name of listStrategies()) {
+        const definition = getStrategyDefinition(name)!;
+        console.log(`  ${name.padEnd(16)} ${definition.description || ''}`);
+      }
+      console.log('');
+    } catch (error) {
+      console.error('Failed to list strategies:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+// Backtest command
+program
+  .command('backtest')
+  .description('Replay price history through a strategy against a simulated contract')
+  .option('-m, --mode <mode>', 'Strategy to test: passive, aggressive or a custom strategy', 'passive')
+  .option('-f, --feed <feed>', 'Oracle feed: BTC_USD, ETH_USD, XPR_USD', 'BTC_USD')
+  .option('-c, --candles <file>', 'OHLC candles (JSON or CSV) instead of stored price history')
+  .option('--from <date>', 'Start date (ISO 8601)')
+  .option('--to <date>', 'End date (ISO 8601)')
+  .option('--ai <source>', 'AI stand-in: deterministic, rules (AI_RULES_FILE), recorded', 'deterministic')
+  .option('--decisions <file>', 'Recorded decisions JSON (for --ai recorded)')
+  .option('--balance <xpr>', 'Starting balance in XPR', '10000')
+  .option('--tick <seconds>', 'Seconds between strategy ticks', '60')
+  .option('--warmup <hours>', 'Hours of history before the first tick', '48')
+  .option('--offer-every <minutes>', 'Minutes between simulated opponent challenges (0 = none)', '60')
+  .option('--offer-stake <xpr>', 'Stake of simulated opponent challenges', '100')
+  .option('--fill-delay <minutes>', 'Minutes before the simulated opponent accepts our challenges', '5')
+  .option('--seed <number>', 'Random seed for simulated opponent challenges', '1')
+  .option('--strategy-module <specifier>', 'Load custom strategies from a file path or package (repeatable)', collect, [])
+  .option('--strategy-params <json>', 'JSON parameters for the strategy (overrides STRATEGY_PARAMS)')
+  .option('--profile <name>', 'Strategy profile to use (overrides STRATEGY_PROFILE)')
+  .option('--profile-file <file>', 'YAML/JSON strategy profile file (overrides STRATEGY_PROFILE_FILE)')
+  .option('-v, --verbose', 'Show strategy logs')
+  .action(async (options) => {
+    try {
+      const mode = options.mode as BotMode;
+      if (mode === 'resolver') {
+        console.error('Backtesting needs a trading strategy (e.g. passive or aggressive).');
+        process.exit(1);
+      }
+
+      const feed = options.feed as OracleFeed;
+      if (!(feed in ORACLE)) {
+        console.error(`Invalid feed: ${feed}. Must be one of ${Object.keys(ORACLE).join(', ')}.`);
+        process.exit(1);
+      }
+      const oracleIndex = ORACLE[feed];
+
+      const parseDate = (value?: string) =>
+        value ? Math.floor(new Date(value).getTime() / 1000) : undefined;
+      const from = parseDate(options.from);
+      const to = parseDate(options.to);
+      if ((from !== undefined && isNaN(from)) || (to !== undefined && isNaN(to))) {
+        console.error('Invalid --from/--to date.');
+        process.exit(1);
+      }
+
+      const config = loadConfig(
+        {
+          mode,
+          dryRun: true,
+          strategyModules: options.strategyModule,
+          strategyParams: parseStrategyParams(options.strategyParams),
+          profile: options.profile,
+          profileFile: options.profileFile,
+        },
+        { requireCredentials: false }
+      );
+      resolveStrategy(config);
+
+      let aiClient;
+      if (options.ai === 'recorded') {
+        if (!options.decisions) {
+          console.error('--decisions <file> is required with --ai recorded.');
+          process.exit(1);
+        }
+        aiClient = new RecordedAIClient(options.decisions);
+      } else if (options.ai === 'deterministic') {
+        aiClient = new DeterministicAIClient();
+      } else if (options.ai === 'rules') {
+        aiClient = new RuleBasedClient(config.ai.rules);
+      } else {
+        console.error(`Invalid AI stand-in: ${options.ai}. Must be deterministic, rules or recorded.`);
+        process.exit(1);
+      }
+
+      let samples: PriceSample[];
+      if (options.candles) {
+        samples = loadCandles(options.candles);
+      } else {
+        const dbInstance = await initDatabase(config.databasePath);
+        const db = new DatabaseQueries(dbInstance, config.databasePath);
+        samples = db.getPriceRange(oracleIndex);
+      }
+      if (samples.length === 0) {
+        console.error(`No ${assetSymbol(oracleIndex)} price data found.`);
+        process.exit(1);
+      }
+
+      const report = await runBacktest({
+        config,
+        oracleIndex,
+        samples,
+        aiClient,
+        from,
+        to,
+        startingBalance: parseFloat(options.balance),
+        tickInterval: parseInt(options.tick, 10),
+        warmup: parseFloat(options.warmup) * 3600,
+        offerInterval: parseFloat(options.offerEvery) * 60,
+        offerStake: parseFloat(options.offerStake),
+        fillDelay: parseFloat(options.fillDelay) * 60,
+        seed: parseInt(options.seed, 10),
+        logger: createLogger(options.verbose ? 'info' : 'error'),
+      });
+
+      console.log('');
+      console.log(formatReport(report));
+      console.log('');
+    } catch (error) {
+      console.error('Backtest failed:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
 program.parse();
@@ -0,0 +1,67 @@
+import { EventEmitter } from 'events';
+import { ChallengeService } from './challenges';
+import { ChallengeEvent, ChallengeTransition, BATTLE_STATUS } from '../types';
+import { Logger } from '../utils';
+
+/**
+ * Mirrors the pricebattle::challenges table into the local database
+ * and emits an event for every state transition:
+ * opened, accepted, expired, resolved, tied, cancelled
+ * (plus 'transition' for all of them)
+ */
+export class ChallengeMonitor extends EventEmitter {
+  private challengeService: ChallengeService;
+  private logger?: Logger;
+  private syncing = false;
+
+  constructor(challengeService: ChallengeService, logger?: Logger) {
+    super();
+    this.challengeService = challengeService;
+    this.logger = logger;
+  }
+
+  on(event: ChallengeEvent | 'transition', listener: (transition: ChallengeTransition) => void): this {
+    return super.on(event, listener);
+  }
+
+  /**
+   * Run one sync and emit the resulting transitions
+   */
+  async poll(): Promise<ChallengeTransition[]> {
+    // Skip if the previous sync is still paging through the table
+    if (this.syncing) {
+      this.logger?.debug('Challenge sync already in progress, skipping');
+      return [];
+    }
+
+    this.syncing = true;
+    try {
+      const transitions = await this.challengeService.syncChallenges();
+
+      for (const transition of transitions) {
+        const { event, challenge, previousStatus, ours } = transition;
+        const meta = {
+          challengeId: challenge.id,
+          creator: challenge.creator,
+          opponent: challenge.opponent || undefined,
+          from: previousStatus,
+          to: challenge.status,
+          winner: challenge.status === BATTLE_STATUS.RESOLVED ? challenge.winner : undefined,
+        };
+
+        if (ours) {
+          this.logger?.info(`Our challenge ${event}`, meta);
+        } else {
+          this.logger?.debug(`Challenge ${event}`, meta);
+        }
+
+        this.emit(event, transition);
+        this.emit('transition', transition);
+      }
+
+      return transitions;
+    } finally {
+      this.syncing = false;
+    }
+  }
+}
@@ -2,37 +2,188 @@ import { RpcClient } from '../blockchain';
 import { DatabaseQueries } from '../db';
 import {
   Challenge,
+  ChallengeTransition,
   PriceBattleConfig,
   PlayerStats,
   BATTLE_STATUS,
+  STATUS_EVENTS,
 } from '../types';
 import { Logger, nowSeconds } from '../utils';
 
+/**
+ * One fetch of the challenges table, shared by every view in a tick
+ */
+export interface ChallengeSnapshot {
+  fetchedAt: number; // ms
+  all: Challenge[];
+  open: Challenge[];
+  active: Challenge[];
+  ours: Challenge[];
+}
+
 export class ChallengeService {
   private rpc: RpcClient;
   private db: DatabaseQueries;
   private account: string;
   private logger?: Logger;
+  private statusIndexPosition?: number;
+
+  private snapshot: ChallengeSnapshot | null = null;
+  private pendingSnapshot: Promise<ChallengeSnapshot> | null = null;
+  private snapshotGeneration = 0; // bumped on invalidation, so a fetch started before it isn't kept
+  // Upper bound on snapshot age - the bot also invalidates at the start of every tick
+  private readonly SNAPSHOT_TTL_MS = 60000;
 
   constructor(
     rpc: RpcClient,
     db: DatabaseQueries,
     account: string,
-    logger?: Logger
+    logger?: Logger,
+    options: { statusIndexPosition?: number } = {}
   ) {
     this.rpc = rpc;
     this.db = db;
     this.account = account;
     this.logger = logger;
+    this.statusIndexPosition = options.statusIndexPosition;
+  }
+
+  /**
+   * Get the current challenge snapshot, fetching it at most once until invalidated
+   */
+  async getSnapshot(): Promise<ChallengeSnapshot> {
+    if (this.snapshot && Date.now() - this.snapshot.fetchedAt < this.SNAPSHOT_TTL_MS) {
+      return this.snapshot;
+    }
+
+    // Concurrent callers share the same in-flight fetch
+    if (!this.pendingSnapshot) {
+      const generation = this.snapshotGeneration;
+      const pending: Promise<ChallengeSnapshot> = this.fetchSnapshot()
+        .then((snapshot) => {
+          if (generation === this.snapshotGeneration) this.snapshot = snapshot;
+          return snapshot;
+        })
+        .finally(() => {
+          if (this.pendingSnapshot === pending) this.pendingSnapshot = null;
+        });
+      this.pendingSnapshot = pending;
+    }
+
+    return this.pendingSnapshot;
+  }
+
+  /**
+   * Drop the cached snapshot so the next view fetches fresh rows. A fetch
+   * already in flight still answers its callers but isn't cached.
+   */
+  invalidateSnapshot(): void {
+    this.snapshot = null;
+    this.pendingSnapshot = null;
+    this.snapshotGeneration++;
+  }
+
+  private async fetchSnapshot(): Promise<ChallengeSnapshot> {
+    let open: Challenge[];
+    let active: Challenge[];
+    let all: Challenge[];
+
+    if (this.statusIndexPosition !== undefined) {
+      // Contract exposes a status index - only fetch the rows we care about
+      [open, active] = await Promise.all([
+        this.getChallengesByStatus(BATTLE_STATUS.OPEN),
+        this.getChallengesByStatus(BATTLE_STATUS.ACTIVE),
+      ]);
+      all = [...open, ...active];
+    } else {
+      all = await this.getAllChallenges();
+      open = all.filter((c) => c.status === BATTLE_STATUS.OPEN);
+      active = all.filter((c) => c.status === BATTLE_STATUS.ACTIVE);
+    }
+
+    const ours = all.filter(
+      (c) => c.creator === this.account || c.opponent === this.account
+    );
+
+    this.logger?.debug('Fetched challenge snapshot', {
+      total: all.length,
+      open: open.length,
+      active: active.length,
+      ours: ours.length,
+      indexed: this.statusIndexPosition !== undefined,
+    });
+
+    return { fetchedAt: Date.now(), all, open, active, ours };
+  }
+
+  /**
+   * Get all challenges with a given status via the contract's secondary index
+   */
+  private async getChallengesByStatus(status: number): Promise<Challenge[]> {
+    return this.rpc.getAllTableRows<Challenge>(
+      {
+        scope: 'pricebattle',
+        code: 'pricebattle',
+        table: 'challenges',
+        index_position: this.statusIndexPosition,
+        key_type: 'i64',
+        lower_bound: status,
+        upper_bound: status,
+        limit: 200,
+      },
+      (c) => c.id
+    );
   }
 
   /**
-   * Sync challenges from blockchain to local database
+   * Sync the full challenges table from blockchain to local database
+   * Returns the state transitions seen since the last sync
    */
-  async syncChallenges(): Promise<void> {
-    const challenges = await this.getAllChallenges();
+  async syncChallenges(): Promise<ChallengeTransition[]> {
+    const challenges = await this.fetchAllChallenges();
+    const known = this.db.getChallengeStatuses();
+
+    // On the very first sync just seed the table - everything would look "new"
+    const seeding = known.size === 0;
+    const transitions: ChallengeTransition[] = [];
+
+    if (!seeding) {
+      for (const challenge of challenges) {
+        const previousStatus = known.get(challenge.id) ?? null;
+        if (previousStatus === challenge.status) continue;
+
+        transitions.push({
+          event: STATUS_EVENTS[challenge.status],
+          challenge,
+          previousStatus,
+          ours: challenge.creator === this.account || challenge.opponent === this.account,
+        });
+      }
+    }
+
     this.db.upsertChallenges(challenges, this.account);
-    this.logger?.debug('Synced challenges', { count: challenges.length });
+    this.logger?.debug('Synced challenges', {
+      count: challenges.length,
+      transitions: transitions.length,
+      seeding,
+    });
+
+    return transitions;
+  }
+
+  /**
+   * Get every challenge from blockchain, paging through the table with next_key
+   */
+  async fetchAllChallenges(pageSize: number = 200): Promise<Challenge[]> {
+    return this.rpc.getAllTableRows<Challenge>(
+      {
+        scope: 'pricebattle',
+        code: 'pricebattle',
+        table: 'challenges',
+        limit: pageSize,
+      },
+      (c) => c.id
+    );
   }
 
   /**
@@ -53,16 +204,14 @@ export class ChallengeService {
    * Get open challenges (status = 0)
    */
   async getOpenChallenges(): Promise<Challenge[]> {
-    const all = await this.getAllChallenges();
-    return all.filter((c) => c.status === BATTLE_STATUS.OPEN);
+    return (await this.getSnapshot()).open;
   }
 
   /**
    * Get active challenges (status = 1)
    */
   async getActiveChallenges(): Promise<Challenge[]> {
-    const all = await this.getAllChallenges();
-    return all.filter((c) => c.status === BATTLE_STATUS.ACTIVE);
+    return (await this.getSnapshot()).active;
   }
 
   /**
@@ -108,10 +257,7 @@ export class ChallengeService {
    * Get our challenges (as creator or opponent)
    */
   async getOurChallenges(): Promise<Challenge[]> {
-    const all = await this.getAllChallenges();
-    return all.filter(
-      (c) => c.creator === this.account || c.opponent === this.account
-    );
+    return (await this.getSnapshot()).ours;
   }
 
   /**
@@ -0,0 +1,166 @@
+import { ChallengeService } from './challenges';
+import { Challenge, PriceBattleConfig, BATTLE_STATUS } from '../types';
+import { Logger, nowMs, nowSeconds } from '../utils';
+
+export interface RulesCheck {
+  ok: boolean;
+  violations: string[]; // empty when ok
+}
+
+/**
+ * Caches the on-chain pricebattle::config (refreshed after refreshMs) and checks
+ * creates and accepts against its limits before they are signed
+ */
+export class ContractRulesService {
+  private challengeService: ChallengeService;
+  private logger?: Logger;
+  private refreshMs: number;
+  private config: PriceBattleConfig | null = null;
+  private fetchedAt = 0; // ms, 0 = never
+
+  constructor(challengeService: ChallengeService, logger?: Logger, refreshMs: number = 5 * 60 * 1000) {
+    this.challengeService = challengeService;
+    this.logger = logger;
+    this.refreshMs = refreshMs;
+  }
+
+  /**
+   * Contract settings, from the cache unless they are older than refreshMs.
+   * A failed refresh keeps the last known settings.
+   */
+  async getConfig(): Promise<PriceBattleConfig | null> {
+    if (this.fetchedAt === 0 || nowMs() - this.fetchedAt >= this.refreshMs) {
+      await this.refresh();
+    }
+    return this.config;
+  }
+
+  /**
+   * Re-read the contract settings now
+   */
+  async refresh(): Promise<PriceBattleConfig | null> {
+    try {
+      const config = await this.challengeService.getConfig();
+      if (config && this.config && !sameLimits(config, this.config)) {
+        this.logger?.info('Contract settings changed', { ...limits(config) });
+      }
+      this.config = config;
+      this.fetchedAt = nowMs();
+    } catch (error) {
+      this.logger?.warn('Failed to refresh contract settings', {
+        error: error instanceof Error ? error.message : String(error),
+        cached: this.config !== null,
+      });
+    }
+    return this.config;
+  }
+
+  /**
+   * Stake limits in XPR
+   */
+  stakeLimits(config: PriceBattleConfig): { min: number; max: number } {
+    return {
+      min: parseInt(config.min_stake, 10) / 10000,
+      max: parseInt(config.max_stake, 10) / 10000,
+    };
+  }
+
+  /**
+   * Check a challenge we are about to create: contract running, stake and duration within
+   * limits, and (when the 24h volatility is known) a typical move over the duration large
+   * enough to clear min_price_move_bps - below it the battle ties
+   */
+  async checkCreate(params: {
+    stake: number;
+    duration: number;
+    oracleIndex: number;
+    volatility24h?: number; // 24h range as % of price
+  }): Promise<RulesCheck> {
+    const config = await this.getConfig();
+    const violations = config ? this.commonViolations(config, params.stake) : ['contract settings unavailable'];
+
+    if (config && (params.duration < config.min_duration || params.duration > config.max_duration)) {
+      violations.push(
+        `duration ${params.duration}s outside ${config.min_duration}-${config.max_duration}s`
+      );
+    }
+
+    if (config && params.volatility24h !== undefined) {
+      const moveBps = expectedMoveBps(params.volatility24h, params.duration);
+      if (moveBps < config.min_price_move_bps) {
+        violations.push(
+          `expected move ${moveBps.toFixed(1)} bps over ${params.duration}s below the ${config.min_price_move_bps} bps minimum`
+        );
+      }
+    }
+
+    return this.report('create', violations, params);
+  }
+
+  /**
+   * Check a challenge we are about to accept: contract running, stake within limits,
+   * still open, not ours and not past the challenge expiry
+   */
+  async checkAccept(challenge: Challenge, account: string): Promise<RulesCheck> {
+    const config = await this.getConfig();
+    const stake = parseInt(challenge.amount, 10) / 10000;
+    const violations = config ? this.commonViolations(config, stake) : ['contract settings unavailable'];
+
+    if (challenge.status !== BATTLE_STATUS.OPEN) {
+      violations.push(`challenge is not open (status ${challenge.status})`);
+    }
+    if (challenge.creator === account) {
+      violations.push('cannot accept our own challenge');
+    }
+    if (config && nowSeconds() >= challenge.created_at + config.challenge_expiry) {
+      violations.push(`challenge expired (${config.challenge_expiry}s after creation)`);
+    }
+
+    return this.report('accept', violations, { challengeId: challenge.id, stake });
+  }
+
+  private commonViolations(config: PriceBattleConfig, stake: number): string[] {
+    const violations: string[] = [];
+    if (config.paused) {
+      violations.push('contract is paused');
+    }
+
+    const { min, max } = this.stakeLimits(config);
+    if (stake < min || stake > max) {
+      violations.push(`stake ${stake} XPR outside ${min}-${max} XPR`);
+    }
+    return violations;
+  }
+
+  private report(action: string, violations: string[], details: Record<string, unknown>): RulesCheck {
+    if (violations.length > 0) {
+      this.logger?.warn(`Contract rules check failed, not signing ${action}`, { ...details, violations });
+    } else {
+      this.logger?.info(`Contract rules check passed for ${action}`, details);
+    }
+    return { ok: violations.length === 0, violations };
+  }
+}
+
+function limits(config: PriceBattleConfig) {
+  return {
+    paused: config.paused,
+    minStake: config.min_stake,
+    maxStake: config.max_stake,
+    minDuration: config.min_duration,
+    maxDuration: config.max_duration,
+    challengeExpiry: config.challenge_expiry,
+    feePercent: config.fee_percent,
+    resolverPercent: config.resolver_percent,
+    minPriceMoveBps: config.min_price_move_bps,
+  };
+}
+
+// The 24h range scaled to the duration (square-root of time), in basis points
+function expectedMoveBps(volatility24h: number, duration: number): number {
+  return volatility24h * 100 * Math.sqrt(duration / 86400);
+}
+
+function sameLimits(a: PriceBattleConfig, b: PriceBattleConfig): boolean {
+  return JSON.stringify(limits(a)) === JSON.stringify(limits(b));
+}
@@ -1,4 +1,10 @@
 export { OracleService, OraclePrice } from './oracle';
-export { ChallengeService } from './challenges';
+export { ChallengeService, ChallengeSnapshot } from './challenges';
+export { ChallengeMonitor } from './challenge-monitor';
 export { ResolverService } from './resolver';
+export { ResolverScheduler } from './resolver-scheduler';
+export { ContractRulesService, RulesCheck } from './contract-rules';
+export { ResourceMonitor, readResources } from './resources';
+export { SettlementService, computeSettlement } from './settlement';
+export { PaperTrader, PaperChallengeService, PAPER_OPPONENT } from './paper';
 export { MarketDataService, MarketData, MultiTimeframeData, OHLCCandle } from './market-data';
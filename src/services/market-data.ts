@@ -51,14 +51,18 @@ export interface MultiTimeframeData {
   momentum: 'strong_up' | 'up' | 'neutral' | 'down' | 'strong_down';
 }
 
+interface CoinCache {
+  data: MultiTimeframeData | null;
+  expiry: number;
+  lastApiCall: number;
+}
+
 export class MarketDataService {
   private logger?: Logger;
   private apiKey?: string;
-  private cache: MultiTimeframeData | null = null;
-  private cacheExpiry: number = 0;
-  private lastApiCall: number = 0;
+  private caches = new Map<string, CoinCache>(); // keyed by CoinGecko coin id
   // Rate limiting config - CoinGecko Demo plan allows 30 calls/min
-  // With 5-min cache and 4 calls per refresh, we use ~0.8 calls/min (still safe)
+  // With 5-min cache and 4 calls per refresh, we use ~0.8 calls/min per coin (still safe)
   private readonly CACHE_TTL_MS = 300000; // 5 minute cache (fresher data for faster decisions)
   private readonly MIN_API_INTERVAL_MS = 240000; // Min 4 minutes between API calls
   private readonly COINGECKO_RATE_LIMIT_DELAY = 2000; // 2s between requests (safe margin)
@@ -82,67 +86,56 @@ export class MarketDataService {
    * Get comprehensive BTC market data with multi-timeframe analysis
    */
   async getBTCMarketData(): Promise<MultiTimeframeData> {
+    return this.getMarketData('bitcoin');
+  }
+
+  /**
+   * Get comprehensive market data with multi-timeframe analysis for a CoinGecko coin
+   */
+  async getMarketData(coinId: string): Promise<MultiTimeframeData> {
+    let cache = this.caches.get(coinId);
+    if (!cache) {
+      cache = { data: null, expiry: 0, lastApiCall: 0 };
+      this.caches.set(coinId, cache);
+    }
+
     // Check cache
-    if (this.cache && Date.now() < this.cacheExpiry) {
-      return this.cache;
+    if (cache.data && Date.now() < cache.expiry) {
+      return cache.data;
     }
 
     try {
       // Rate limit check
-      const timeSinceLastCall = Date.now() - this.lastApiCall;
-      if (timeSinceLastCall < this.MIN_API_INTERVAL_MS && this.cache) {
-        this.logger?.debug('Using cached data to avoid rate limiting');
-        return this.cache;
+      const timeSinceLastCall = Date.now() - cache.lastApiCall;
+      if (timeSinceLastCall < this.MIN_API_INTERVAL_MS && cache.data) {
+        this.logger?.debug('Using cached data to avoid rate limiting', { coinId });
+        return cache.data;
       }
 
       // Fetch sequentially with delays to avoid rate limits
       // CoinGecko free tier: ~10-30 calls/minute
-      const current = await this.fetchCurrentData();
+      const current = await this.fetchCurrentData(coinId);
       await this.delay(this.COINGECKO_RATE_LIMIT_DELAY);
 
-      const candles1h = await this.fetchOHLC(1);    // 1-hour candles
+      const candles1h = await this.fetchOHLC(coinId, 1);    // 1-hour candles
       await this.delay(this.COINGECKO_RATE_LIMIT_DELAY);
 
-      const candles4h = await this.fetchOHLC(4);    // 4-hour candles
+      const candles4h = await this.fetchOHLC(coinId, 4);    // 4-hour candles
       await this.delay(this.COINGECKO_RATE_LIMIT_DELAY);
 
-      const candles1d = await this.fetchOHLC(24);   // Daily candles
-
-      this.lastApiCall = Date.now();
-
-      // Calculate technical indicators
-      const closes1h = candles1h.map(c => c.close);
-      const sma20 = this.calculateSMA(closes1h, 20);
-      const sma50 = this.calculateSMA(closes1h, 50);
-      const ema12 = this.calculateEMA(closes1h, 12);
-      const ema26 = this.calculateEMA(closes1h, 26);
-      const rsi14 = this.calculateRSI(closes1h, 14);
-
-      // Determine trends
-      const trend1h = this.determineTrend(candles1h.slice(-6)); // Last 6 hours
-      const trend24h = this.determineTrend(candles1h);
-      const momentum = this.determineMomentum(current.price, sma20, ema12, ema26, rsi14);
-
-      const data: MultiTimeframeData = {
-        current,
-        candles1h,
-        candles4h,
-        candles1d,
-        sma20,
-        sma50,
-        ema12,
-        ema26,
-        rsi14,
-        trend1h,
-        trend24h,
-        momentum,
-      };
+      const candles1d = await this.fetchOHLC(coinId, 24);   // Daily candles
+
+      cache.lastApiCall = Date.now();
+
+      const data = this.buildAnalysis(current, candles1h, candles4h, candles1d);
+      const { rsi14, trend1h, momentum } = data;
 
       // Cache the result
-      this.cache = data;
-      this.cacheExpiry = Date.now() + this.CACHE_TTL_MS;
+      cache.data = data;
+      cache.expiry = Date.now() + this.CACHE_TTL_MS;
 
       this.logger?.debug('Fetched market data', {
+        coinId,
         price: current.price,
         change1h: current.change1h,
         change24h: current.change24h,
@@ -154,19 +147,58 @@ export class MarketDataService {
       return data;
     } catch (error) {
       this.logger?.error('Failed to fetch market data', {
+        coinId,
         error: error instanceof Error ? error.message : String(error),
       });
 
       // Return cached data if available, even if expired
-      if (this.cache) {
-        this.logger?.warn('Using stale cached market data');
-        return this.cache;
+      if (cache.data) {
+        this.logger?.warn('Using stale cached market data', { coinId });
+        return cache.data;
       }
 
       throw error;
     }
   }
 
+  /**
+   * Compute indicators, trends and momentum from current data and candles
+   */
+  protected buildAnalysis(
+    current: MarketData,
+    candles1h: OHLCCandle[],
+    candles4h: OHLCCandle[],
+    candles1d: OHLCCandle[]
+  ): MultiTimeframeData {
+    // Calculate technical indicators
+    const closes1h = candles1h.map(c => c.close);
+    const sma20 = this.calculateSMA(closes1h, 20);
+    const sma50 = this.calculateSMA(closes1h, 50);
+    const ema12 = this.calculateEMA(closes1h, 12);
+    const ema26 = this.calculateEMA(closes1h, 26);
+    const rsi14 = this.calculateRSI(closes1h, 14);
+
+    // Determine trends
+    const trend1h = this.determineTrend(candles1h.slice(-6)); // Last 6 hours
+    const trend24h = this.determineTrend(candles1h);
+    const momentum = this.determineMomentum(current.price, sma20, ema12, ema26, rsi14);
+
+    return {
+      current,
+      candles1h,
+      candles4h,
+      candles1d,
+      sma20,
+      sma50,
+      ema12,
+      ema26,
+      rsi14,
+      trend1h,
+      trend24h,
+      momentum,
+    };
+  }
+
   /**
    * Fetch with retry on rate limit
    */
@@ -204,8 +236,8 @@ export class MarketDataService {
   /**
    * Fetch current market data from CoinGecko
    */
-  private async fetchCurrentData(): Promise<MarketData> {
-    const url = 'https://api.coingecko.com/api/v3/coins/bitcoin?localization=false&tickers=false&community_data=false&developer_data=false&sparkline=false';
+  private async fetchCurrentData(coinId: string): Promise<MarketData> {
+    const url = `https://api.coingecko.com/api/v3/coins/${coinId}?localization=false&tickers=false&community_data=false&developer_data=false&sparkline=false`;
 
     const data = await this.fetchWithRetry(url);
     const market = data.market_data;
@@ -233,7 +265,7 @@ export class MarketDataService {
   /**
    * Fetch OHLC candles from CoinGecko
    */
-  private async fetchOHLC(hours: number): Promise<OHLCCandle[]> {
+  private async fetchOHLC(coinId: string, hours: number): Promise<OHLCCandle[]> {
     // CoinGecko OHLC endpoint: days parameter determines granularity
     // 1-2 days = 30min candles, 3-30 days = 4hr candles, 31+ days = daily
     let days: number;
@@ -245,7 +277,7 @@ export class MarketDataService {
       days = 90; // Will get daily candles
     }
 
-    const url = `https://api.coingecko.com/api/v3/coins/bitcoin/ohlc?vs_currency=usd&days=${days}`;
+    const url = `https://api.coingecko.com/api/v3/coins/${coinId}/ohlc?vs_currency=usd&days=${days}`;
 
     const data = await this.fetchWithRetry(url);
 
@@ -269,7 +301,7 @@ export class MarketDataService {
   /**
    * Aggregate candles into larger timeframes
    */
-  private aggregateCandles(candles: OHLCCandle[], factor: number): OHLCCandle[] {
+  protected aggregateCandles(candles: OHLCCandle[], factor: number): OHLCCandle[] {
     const result: OHLCCandle[] = [];
 
     for (let i = 0; i < candles.length; i += factor) {
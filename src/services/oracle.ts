@@ -1,6 +1,6 @@
 import { RpcClient } from '../blockchain';
 import { ORACLE } from '../types';
-import { priceToU64, u64ToPrice, Logger } from '../utils';
+import { priceToU64, u64ToPrice, Logger, nowMs } from '../utils';
 
 export interface OraclePrice {
   price: number;
@@ -69,7 +69,7 @@ export class OracleService {
 
     return {
       price,
-      timestamp: Date.now(),
+      timestamp: nowMs(),
       feedIndex,
     };
   }
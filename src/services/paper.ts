@@ -0,0 +1,379 @@
+import { Action, RpcClient, TransactOptions, TransactResult, Transactor } from '../blockchain';
+import { DatabaseQueries } from '../db';
+import {
+  Challenge,
+  Direction,
+  PaperChallenge,
+  PriceBattleConfig,
+  BATTLE_STATUS,
+  DIRECTION,
+  assetSymbol,
+} from '../types';
+import { Logger, nowMs, nowSeconds, parseXPR, priceToU64, u64ToPrice, formatXPRWithSymbol } from '../utils';
+import { ChallengeService, ChallengeSnapshot } from './challenges';
+import { OracleService } from './oracle';
+import { computeSettlement } from './settlement';
+
+// Virtual counterparty that takes the other side of our paper challenges
+export const PAPER_OPPONENT = 'paper';
+
+// Used when the contract config can't be read
+const FALLBACK_CONFIG: Pick<PriceBattleConfig, 'fee_percent' | 'resolver_percent' | 'challenge_expiry' | 'min_price_move_bps'> = {
+  fee_percent: 3,
+  resolver_percent: 2,
+  challenge_expiry: 3600,
+  min_price_move_bps: 0,
+};
+
+/**
+ * Paper challenges are shown to the strategy with negative ids
+ * so they can never collide with on-chain challenge ids
+ */
+function toView(paper: PaperChallenge): Challenge {
+  return { ...paper, id: -paper.id };
+}
+
+/**
+ * Executes our actions against virtual challenges instead of the chain.
+ * Creates and accepts lock virtual stake, our creates are filled by a virtual
+ * opponent on the next tick, and battles settle against the recorded oracle
+ * price at started_at + duration. Resolves/expires of on-chain battles carry
+ * no stake, so they are passed through to the real signer.
+ */
+export class PaperTrader implements Transactor {
+  private chain: Transactor;
+  private challengeService: ChallengeService;
+  private oracleService: OracleService;
+  private db: DatabaseQueries;
+  private account: string;
+  private logger?: Logger;
+  private txCount = 0;
+
+  constructor(
+    chain: Transactor,
+    challengeService: ChallengeService,
+    oracleService: OracleService,
+    db: DatabaseQueries,
+    account: string,
+    startingBalance: number,
+    logger?: Logger
+  ) {
+    this.chain = chain;
+    this.challengeService = challengeService;
+    this.oracleService = oracleService;
+    this.db = db;
+    this.account = account;
+    this.logger = logger;
+
+    this.db.initPaperAccount(startingBalance, nowSeconds());
+  }
+
+  async transact(actions: Action[], options?: TransactOptions): Promise<TransactResult> {
+    const onChain = (a: Action) =>
+      a.account === 'pricebattle' &&
+      (a.name === 'resolve' || a.name === 'expire') &&
+      Number(a.data.challenge_id) >= 0;
+    if (actions.every(onChain)) {
+      return this.chain.transact(actions, options);
+    }
+
+    // A batch of resolves/expires can mix real battles with paper ones: the real ones still go on-chain
+    if (actions.some(onChain)) {
+      await this.chain.transact(actions.filter(onChain), options);
+      actions = actions.filter((a) => !onChain(a));
+    }
+
+    const stake = actions
+      .filter((a) => a.account === 'eosio.token' && a.name === 'transfer')
+      .reduce((sum, a) => sum + parseFloat(String(a.data.quantity).split(' ')[0]), 0);
+
+    if (stake > this.db.getPaperBalance() + 1e-9) {
+      throw new Error('assertion failure with message: overdrawn balance (paper)');
+    }
+
+    for (const action of actions) {
+      if (action.account !== 'pricebattle') continue;
+
+      switch (action.name) {
+        case 'create':
+          await this.create(action);
+          break;
+        case 'accept':
+          await this.accept(action);
+          break;
+        case 'cancel':
+        case 'expire':
+          if (Number(action.data.challenge_id) < 0) {
+            this.close(-Number(action.data.challenge_id), action.name === 'cancel' ? BATTLE_STATUS.CANCELLED : BATTLE_STATUS.EXPIRED);
+          }
+          break;
+        case 'resolve':
+          if (Number(action.data.challenge_id) < 0) {
+            await this.settle(-Number(action.data.challenge_id));
+          }
+          break;
+      }
+    }
+
+    if (stake > 0) {
+      this.db.adjustPaperBalance(-stake);
+    }
+
+    this.logger?.info('[PAPER] Executed transaction', {
+      actions: actions.map((a) => `${a.account}::${a.name}`),
+    });
+
+    const id = `paper_${nowMs().toString(16)}_${++this.txCount}`;
+    return {
+      transaction_id: id,
+      processed: {
+        id,
+        block_num: 0,
+        block_time: new Date(nowMs()).toISOString(),
+        receipt: null,
+        elapsed: 0,
+        net_usage: 0,
+        scheduled: false,
+        action_traces: [],
+      },
+    };
+  }
+
+  /**
+   * Fill, expire and settle paper challenges (call once per tick)
+   */
+  async update(): Promise<PaperChallenge[]> {
+    const now = nowSeconds();
+    const settled: PaperChallenge[] = [];
+
+    for (const challenge of this.db.getLivePaperChallenges()) {
+      try {
+        if (challenge.status === BATTLE_STATUS.OPEN) {
+          if (now >= challenge.expires_at) {
+            this.close(challenge.id, BATTLE_STATUS.EXPIRED);
+          } else if (challenge.created_at < now) {
+            await this.fill(challenge);
+          }
+        } else if (now >= challenge.started_at + challenge.duration) {
+          const result = await this.settle(challenge.id);
+          if (result) settled.push(result);
+        }
+      } catch (error) {
+        this.logger?.error('Failed to update paper challenge', {
+          paperId: challenge.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return settled;
+  }
+
+  private async create(action: Action): Promise<void> {
+    const config = await this.getConfig();
+    const now = nowSeconds();
+
+    const id = this.db.insertPaperChallenge(
+      {
+        creator: this.account,
+        opponent: '',
+        amount: String(parseXPR(String(action.data.amount).split(' ')[0])),
+        direction: Number(action.data.direction) as Direction,
+        oracle_index: action.data.oracle_index,
+        duration: Number(action.data.duration),
+        start_price: '',
+        end_price: '',
+        created_at: now,
+        started_at: 0,
+        expires_at: now + config.challenge_expiry,
+        status: BATTLE_STATUS.OPEN,
+        winner: '',
+      },
+      'creator'
+    );
+
+    this.logger?.info('[PAPER] Created challenge', {
+      paperId: id,
+      asset: assetSymbol(action.data.oracle_index),
+      amount: action.data.amount,
+      direction: action.data.direction === DIRECTION.UP ? 'UP' : 'DOWN',
+      duration: action.data.duration,
+    });
+  }
+
+  private async accept(action: Action): Promise<void> {
+    const challengeId = Number(action.data.challenge_id);
+    const challenge = await this.challengeService.getChallenge(challengeId);
+
+    if (!challenge || challenge.status !== BATTLE_STATUS.OPEN) {
+      throw new Error('assertion failure with message: challenge is not open');
+    }
+    if (this.db.getPaperAcceptedIds().has(challengeId)) {
+      throw new Error('assertion failure with message: challenge already accepted (paper)');
+    }
+
+    // Like the contract, the start price is the oracle price at accept time
+    const { price } = await this.oracleService.getPrice(challenge.oracle_index);
+    const now = nowSeconds();
+
+    const id = this.db.insertPaperChallenge(
+      {
+        ...challenge,
+        opponent: this.account,
+        start_price: priceToU64(price),
+        started_at: now,
+        status: BATTLE_STATUS.ACTIVE,
+      },
+      'opponent',
+      challengeId
+    );
+
+    this.logger?.info('[PAPER] Accepted challenge', {
+      paperId: id,
+      challengeId,
+      asset: assetSymbol(challenge.oracle_index),
+      amount: formatXPRWithSymbol(challenge.amount),
+      startPrice: price,
+    });
+  }
+
+  /**
+   * The virtual opponent takes the other side at the current oracle price
+   */
+  private async fill(challenge: PaperChallenge): Promise<void> {
+    const { price } = await this.oracleService.getPrice(challenge.oracle_index);
+
+    challenge.opponent = PAPER_OPPONENT;
+    challenge.start_price = priceToU64(price);
+    challenge.started_at = nowSeconds();
+    challenge.status = BATTLE_STATUS.ACTIVE;
+    this.db.updatePaperChallenge(challenge);
+
+    this.logger?.debug('[PAPER] Challenge filled', { paperId: challenge.id, startPrice: price });
+  }
+
+  private close(paperId: number, status: typeof BATTLE_STATUS.CANCELLED | typeof BATTLE_STATUS.EXPIRED): void {
+    const challenge = this.db.getPaperChallenge(paperId);
+    if (!challenge || challenge.status !== BATTLE_STATUS.OPEN) return;
+
+    challenge.status = status;
+    this.db.updatePaperChallenge(challenge);
+    this.db.adjustPaperBalance(parseInt(challenge.amount, 10) / 10000);
+  }
+
+  /**
+   * Settle against the last recorded price at or before the end time
+   * (falls back to the current oracle price if none was recorded)
+   */
+  private async settle(paperId: number): Promise<PaperChallenge | null> {
+    const challenge = this.db.getPaperChallenge(paperId);
+    if (!challenge || challenge.status !== BATTLE_STATUS.ACTIVE) return null;
+
+    const config = await this.getConfig();
+    const endTime = challenge.started_at + challenge.duration;
+    const endPrice =
+      this.db.getPriceAt(endTime, challenge.oracle_index) ??
+      (await this.oracleService.getPrice(challenge.oracle_index)).price;
+    const startPrice = u64ToPrice(challenge.start_price);
+
+    challenge.end_price = priceToU64(endPrice);
+    const moveBps = startPrice > 0 ? (Math.abs(endPrice - startPrice) / startPrice) * 10000 : 0;
+    if (endPrice === startPrice || moveBps < config.min_price_move_bps) {
+      challenge.status = BATTLE_STATUS.TIE;
+    } else {
+      const creatorWins = (challenge.direction === DIRECTION.UP) === (endPrice > startPrice);
+      challenge.status = BATTLE_STATUS.RESOLVED;
+      challenge.winner = creatorWins ? challenge.creator : challenge.opponent;
+    }
+
+    const view = toView(challenge);
+    const result = computeSettlement(view, this.account, config);
+    if (!result) return null;
+
+    challenge.outcome = result.outcome;
+    challenge.payout = result.payout;
+    challenge.pnl = result.pnl;
+    challenge.settled_at = nowSeconds();
+    this.db.updatePaperChallenge(challenge);
+    this.db.adjustPaperBalance(result.payout);
+
+    // Settle it like a live battle, flagged paper, so the daily-loss guard and calibration see it
+    if (result.role === 'creator') {
+      this.db.linkCreateDecision(view);
+    }
+    this.db.recordSettlement({
+      ...result,
+      confidence: this.db.getDecisionConfidence(challenge.source_id ?? view.id),
+      duration: challenge.duration,
+      oracleIndex: challenge.oracle_index,
+      paper: true,
+    });
+
+    this.logger?.info('[PAPER] Battle settled', {
+      paperId: challenge.id,
+      asset: assetSymbol(challenge.oracle_index),
+      outcome: result.outcome,
+      pnl: result.pnl.toFixed(4),
+      startPrice,
+      endPrice,
+    });
+
+    return challenge;
+  }
+
+  private async getConfig(): Promise<typeof FALLBACK_CONFIG> {
+    try {
+      return (await this.challengeService.getConfig()) ?? FALLBACK_CONFIG;
+    } catch {
+      return FALLBACK_CONFIG;
+    }
+  }
+}
+
+/**
+ * Challenge views for paper mode: the live on-chain book, with our paper
+ * challenges standing in for real ones when counting, sizing and accepting
+ */
+export class PaperChallengeService extends ChallengeService {
+  private paperDb: DatabaseQueries;
+
+  constructor(
+    rpc: RpcClient,
+    db: DatabaseQueries,
+    account: string,
+    logger?: Logger,
+    options: { statusIndexPosition?: number } = {}
+  ) {
+    super(rpc, db, account, logger, options);
+    this.paperDb = db;
+  }
+
+  /**
+   * Our paper challenges are merged into the open list (so ours are counted and
+   * never accepted), and on-chain challenges we've paper-accepted are hidden.
+   * Paper battles stay out of active/ours - the paper trader settles them.
+   */
+  async getSnapshot(): Promise<ChallengeSnapshot> {
+    const snapshot = await super.getSnapshot();
+    const accepted = this.paperDb.getPaperAcceptedIds();
+    const paperOpen = this.paperDb
+      .getLivePaperChallenges()
+      .filter((c) => c.status === BATTLE_STATUS.OPEN)
+      .map(toView);
+
+    return {
+      ...snapshot,
+      open: [...snapshot.open.filter((c) => !accepted.has(c.id)), ...paperOpen],
+    };
+  }
+
+  async getOurActiveChallengesCount(): Promise<number> {
+    return this.paperDb
+      .getLivePaperChallenges()
+      .filter((c) => c.status === BATTLE_STATUS.ACTIVE).length;
+  }
+
+  async getBalance(): Promise<number> {
+    return this.paperDb.getPaperBalance();
+  }
+}
@@ -0,0 +1,166 @@
+import { ResolverService } from './resolver';
+import { ChallengeService } from './challenges';
+import { errorHandling } from '../blockchain';
+import { Challenge, ChallengeTransition, ResolveResult, BATTLE_STATUS } from '../types';
+import { Logger, nowMs } from '../utils';
+
+// setTimeout fires at once for longer delays; wait in steps of this instead
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+// A resolve that failed for a reason that may pass (network, battle not ended
+// by the node's clock) is tried again after 2s, 4s, 8s..., then left to the sweep
+const RETRY_DELAY_MS = 2000;
+const MAX_RETRIES = 4;
+
+/**
+ * Arms a timer for the end of every active battle (started_at + duration) and
+ * resolves it the moment it becomes resolvable, instead of waiting for the next
+ * strategy tick. Battles that end together are submitted in parallel, and ones
+ * that fail retryably are re-armed with a short backoff.
+ */
+export class ResolverScheduler {
+  private resolverService: ResolverService;
+  private challengeService: ChallengeService;
+  private logger?: Logger;
+  private delayMs: number;
+
+  private timers = new Map<number, NodeJS.Timeout>();
+  private retries = new Map<number, number>(); // failed attempts per battle
+  private due: Challenge[] = [];
+
+  constructor(
+    resolverService: ResolverService,
+    challengeService: ChallengeService,
+    logger?: Logger,
+    delayMs: number = 500 // after the end, so the block's timestamp is past it
+  ) {
+    this.resolverService = resolverService;
+    this.challengeService = challengeService;
+    this.logger = logger;
+    this.delayMs = delayMs;
+  }
+
+  /**
+   * Schedule every battle that is active now (later ones arrive as 'accepted' transitions)
+   */
+  async start(): Promise<void> {
+    for (const challenge of await this.challengeService.getActiveChallenges()) {
+      this.schedule(challenge);
+    }
+    this.logger?.info('Resolver scheduler started', { scheduled: this.timers.size });
+  }
+
+  /**
+   * Clear all timers
+   */
+  stop(): void {
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+    this.retries.clear();
+    this.due = [];
+  }
+
+  /**
+   * Follow the challenge monitor: schedule battles as they start, drop them once
+   * they leave ACTIVE (resolved by anyone, tied)
+   */
+  onTransition(transition: ChallengeTransition): void {
+    if (transition.challenge.status === BATTLE_STATUS.ACTIVE) {
+      this.schedule(transition.challenge);
+    } else {
+      this.cancel(transition.challenge.id);
+    }
+  }
+
+  schedule(challenge: Challenge): void {
+    if (challenge.status !== BATTLE_STATUS.ACTIVE || this.timers.has(challenge.id)) return;
+
+    const wakeAt = (challenge.started_at + challenge.duration) * 1000 + this.delayMs;
+    this.arm(challenge, wakeAt);
+
+    this.logger?.debug('Scheduled resolve', {
+      challengeId: challenge.id,
+      at: new Date(wakeAt).toISOString(),
+    });
+  }
+
+  cancel(challengeId: number): void {
+    this.retries.delete(challengeId);
+    const timer = this.timers.get(challengeId);
+    if (!timer) return;
+    clearTimeout(timer);
+    this.timers.delete(challengeId);
+  }
+
+  /**
+   * Number of battles waiting for their end time
+   */
+  get scheduled(): number {
+    return this.timers.size;
+  }
+
+  private arm(challenge: Challenge, wakeAt: number): void {
+    const delay = Math.max(0, wakeAt - nowMs());
+    const timer =
+      delay > MAX_TIMER_MS
+        ? setTimeout(() => this.arm(challenge, wakeAt), MAX_TIMER_MS)
+        : setTimeout(() => this.fire(challenge), delay);
+    this.timers.set(challenge.id, timer);
+  }
+
+  private fire(challenge: Challenge): void {
+    this.timers.delete(challenge.id);
+    this.due.push(challenge);
+
+    // Collect every timer due in this turn of the event loop into one parallel submit
+    if (this.due.length === 1) {
+      setImmediate(() => this.flush());
+    }
+  }
+
+  private async flush(): Promise<void> {
+    const batch = this.due.splice(0);
+    this.logger?.info('Battles ended, resolving', {
+      challengeIds: batch.map((c) => c.id),
+    });
+
+    let results: ResolveResult[];
+    try {
+      results = await this.resolverService.resolveMany(batch);
+    } catch (error) {
+      this.logger?.error('Scheduled resolve failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      batch.forEach((challenge) => this.retry(challenge));
+      return;
+    }
+
+    for (const [i, result] of results.entries()) {
+      const retryable = !result.success && result.category && errorHandling(result.category) === 'retry';
+      if (retryable) {
+        this.retry(batch[i]);
+      } else {
+        this.retries.delete(result.challengeId);
+      }
+    }
+  }
+
+  private retry(challenge: Challenge): void {
+    // Already re-armed, e.g. by an 'accepted' transition meanwhile
+    if (this.timers.has(challenge.id)) return;
+
+    const attempt = (this.retries.get(challenge.id) ?? 0) + 1;
+    if (attempt > MAX_RETRIES) {
+      this.retries.delete(challenge.id);
+      this.logger?.warn('Scheduled resolve kept failing, leaving it to the sweep', { challengeId: challenge.id });
+      return;
+    }
+
+    this.retries.set(challenge.id, attempt);
+    const delay = RETRY_DELAY_MS * 2 ** (attempt - 1);
+    this.arm(challenge, nowMs() + delay);
+    this.logger?.debug('Re-armed resolve', { challengeId: challenge.id, attempt, delayMs: delay });
+  }
+}
@@ -1,9 +1,10 @@
-import { PriceBattleActions } from '../blockchain';
+import { PriceBattleActions, TransactResult, errorHandling, parseReceipts } from '../blockchain';
 import { ChallengeService } from './challenges';
 import { OracleService } from './oracle';
+import { ResourceMonitor } from './resources';
 import { DatabaseQueries } from '../db';
-import { Challenge, ResolveResult, BATTLE_STATUS } from '../types';
-import { Logger, formatXPR, nowSeconds } from '../utils';
+import { Challenge, ContractErrorCategory, ResolveResult, BATTLE_STATUS } from '../types';
+import { Logger, nowMs, nowSeconds } from '../utils';
 
 export class ResolverService {
   private actions: PriceBattleActions;
@@ -11,168 +12,298 @@ export class ResolverService {
   private oracleService: OracleService;
   private db: DatabaseQueries;
   private logger?: Logger;
+  private resources?: ResourceMonitor;
+  private inFlight = new Set<number>(); // battles with a resolve being submitted
 
   constructor(
     actions: PriceBattleActions,
     challengeService: ChallengeService,
     oracleService: OracleService,
     db: DatabaseQueries,
-    logger?: Logger
+    logger?: Logger,
+    resources?: ResourceMonitor // defers expires while the account is short of CPU/NET/RAM
   ) {
     this.actions = actions;
     this.challengeService = challengeService;
     this.oracleService = oracleService;
     this.db = db;
     this.logger = logger;
+    this.resources = resources;
   }
 
   /**
-   * Find and resolve all resolvable battles
+   * Find and resolve all resolvable battles, batched into as few transactions
+   * as the budget allows (other resolvers are racing us for each one)
    */
   async resolveAll(): Promise<ResolveResult[]> {
     const resolvable = await this.challengeService.getResolvableChallenges();
-    const results: ResolveResult[] = [];
 
     this.logger?.info('Checking for resolvable battles', {
       found: resolvable.length,
     });
 
-    for (const challenge of resolvable) {
-      const result = await this.resolveBattle(challenge);
-      results.push(result);
-
-      // Small delay between resolutions to avoid rate limiting
-      if (results.length < resolvable.length) {
-        await new Promise((r) => setTimeout(r, 1000));
-      }
-    }
-
-    return results;
+    return this.resolveMany(resolvable);
   }
 
   /**
-   * Resolve a single battle
+   * Resolve a single battle, recording whether we beat other resolvers to it
    */
   async resolveBattle(challenge: Challenge): Promise<ResolveResult> {
-    try {
-      // Verify battle is actually resolvable
-      const endTime = challenge.started_at + challenge.duration;
-      const now = nowSeconds();
+    const [result] = await this.resolveMany([challenge]);
+    return result;
+  }
 
-      if (now < endTime) {
-        return {
-          challengeId: challenge.id,
-          success: false,
-          error: `Battle not yet ended. Ends in ${endTime - now} seconds`,
-        };
+  /**
+   * Resolve several battles in batched transactions, recording for each whether
+   * we beat other resolvers to it
+   */
+  async resolveMany(challenges: Challenge[]): Promise<ResolveResult[]> {
+    const results = new Map<number, ResolveResult>();
+    const ready: Challenge[] = [];
+
+    for (const challenge of challenges) {
+      const reason = this.notResolvable(challenge);
+      if (reason) {
+        results.set(challenge.id, { challengeId: challenge.id, success: false, ...reason });
+      } else {
+        ready.push(challenge);
       }
+    }
 
-      if (challenge.status !== BATTLE_STATUS.ACTIVE) {
-        return {
+    if (ready.length > 0) {
+      // Contract now fetches price directly from oracle
+      for (const challenge of ready) {
+        this.logger?.info('Resolving battle', {
           challengeId: challenge.id,
-          success: false,
-          error: `Invalid status: ${challenge.status}`,
-        };
+          creator: challenge.creator,
+          opponent: challenge.opponent,
+          startPrice: challenge.start_price,
+        });
+        this.inFlight.add(challenge.id);
       }
 
-      // Contract now fetches price directly from oracle
-      this.logger?.info('Resolving battle', {
-        challengeId: challenge.id,
-        creator: challenge.creator,
-        opponent: challenge.opponent,
-        startPrice: challenge.start_price,
-      });
+      const submittedAt = nowMs();
+      try {
+        const outcomes = await this.actions.resolveBattles(
+          ready.map((c) => c.id),
+          (ids) => this.noLongerInStatus(ids, BATTLE_STATUS.ACTIVE)
+        );
+        for (const outcome of outcomes) {
+          const challenge = ready.find((c) => c.id === outcome.key)!;
+          results.set(
+            challenge.id,
+            outcome.success
+              ? await this.recordResolved(challenge, outcome.txId!, outcome.result, submittedAt)
+              : await this.recordResolveFailure(
+                  challenge,
+                  outcome.error ?? 'unknown error',
+                  outcome.category ?? 'unknown',
+                  submittedAt
+                )
+          );
+        }
+      } finally {
+        for (const challenge of ready) {
+          this.inFlight.delete(challenge.id);
+        }
+      }
+    }
 
-      // Execute resolve transaction - contract fetches price from oracle
-      const result = await this.actions.resolveBattle(challenge.id);
+    return challenges.map((c) => results.get(c.id)!);
+  }
 
-      // Calculate resolver reward (2% of total pot)
-      const pot = parseInt(challenge.amount, 10) * 2;
-      const resolverReward = pot * 0.02;
+  /**
+   * Challenges that have left a status since we read them (looked up in parallel),
+   * so a failed batch can drop them instead of splitting
+   */
+  private async noLongerInStatus(challengeIds: number[], status: number): Promise<number[]> {
+    const current = await Promise.all(
+      challengeIds.map((id) => this.challengeService.getChallenge(id).catch(() => undefined))
+    );
+    return challengeIds.filter((_id, i) => current[i] !== undefined && current[i]?.status !== status);
+  }
 
-      // Log the earnings
-      this.db.incrementResolverEarnings(resolverReward / 10000); // Convert from smallest unit
+  /**
+   * The contract's current resolver cut (%), for estimating rewards
+   */
+  private async resolverPercent(): Promise<number> {
+    const config = await this.challengeService.getConfig().catch(() => null);
+    return config?.resolver_percent ?? 2;
+  }
 
-      this.logger?.info('Battle resolved successfully', {
-        challengeId: challenge.id,
-        txId: result.transaction_id,
-        resolverReward: formatXPR(resolverReward),
-      });
+  /**
+   * Why a battle can't be resolved by us now, or null if it can
+   */
+  private notResolvable(challenge: Challenge): { error: string; category?: ContractErrorCategory } | null {
+    // The scheduler and the periodic sweep can both reach a battle - submit it once
+    if (this.inFlight.has(challenge.id) || this.db.isResolverRaceDecided(challenge.id)) {
+      return { error: 'Resolve already submitted' };
+    }
 
-      // Log decision (price is now fetched by contract on-chain)
-      this.db.logDecision({
-        challengeId: challenge.id,
-        action: 'resolve',
-      });
+    const endTime = challenge.started_at + challenge.duration;
+    const now = nowSeconds();
+    if (now < endTime) {
+      return { error: `Battle not yet ended. Ends in ${endTime - now} seconds`, category: 'not_ended' };
+    }
 
-      return {
-        challengeId: challenge.id,
-        success: true,
-        txId: result.transaction_id,
-        resolverReward: resolverReward / 10000,
-      };
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-
-      this.logger?.error('Failed to resolve battle', {
-        challengeId: challenge.id,
-        error: errorMessage,
-      });
+    if (challenge.status !== BATTLE_STATUS.ACTIVE) {
+      return { error: `Invalid status: ${challenge.status}` };
+    }
+    return null;
+  }
+
+  private async recordResolved(
+    challenge: Challenge,
+    txId: string,
+    result: TransactResult | undefined,
+    submittedAt: number
+  ): Promise<ResolveResult> {
+    const endTime = challenge.started_at + challenge.duration;
+
+    // What the contract actually sent us: the resolver reward, plus our payout if the battle was ours
+    const account = this.actions.getAccount();
+    const receipts = result
+      ? parseReceipts(result, account, () => challenge.creator === account || challenge.opponent === account)
+          .filter((r) => r.challengeId === challenge.id)
+      : [];
+    this.db.recordReceipts(txId, receipts);
+
+    // Without traces (dry run, paper, simulation) estimate it from the contract's resolver_percent
+    const traced = (result?.processed?.action_traces?.length ?? 0) > 0;
+    const resolverReward = traced
+      ? receipts.filter((r) => r.kind === 'resolver_reward').reduce((sum, r) => sum + r.amount, 0)
+      : (parseInt(challenge.amount, 10) * 2 * (await this.resolverPercent())) / 100 / 10000;
+
+    // Log the earnings
+    this.db.incrementResolverEarnings(resolverReward);
+
+    this.logger?.info('Battle resolved successfully', {
+      challengeId: challenge.id,
+      txId,
+      resolverReward: resolverReward.toFixed(4),
+      estimated: !traced,
+    });
+
+    // Log decision (price is now fetched by contract on-chain)
+    this.db.logDecision({
+      challengeId: challenge.id,
+      action: 'resolve',
+    });
+    this.db.recordResolverRace({
+      challengeId: challenge.id,
+      outcome: 'won',
+      endsAt: endTime,
+      latencyMs: submittedAt - endTime * 1000,
+      txId,
+    });
 
-      return {
+    return {
+      challengeId: challenge.id,
+      success: true,
+      txId,
+      resolverReward,
+    };
+  }
+
+  private async recordResolveFailure(
+    challenge: Challenge,
+    errorMessage: string,
+    category: ContractErrorCategory,
+    submittedAt: number
+  ): Promise<ResolveResult> {
+    const endTime = challenge.started_at + challenge.duration;
+
+    // Another resolver got there first if the contract says so, or (when the
+    // error doesn't tell) the battle is resolved or tied by now
+    let lost = category === 'already_resolved';
+    if (category === 'unknown' || category === 'not_open') {
+      const current = await this.challengeService.getChallenge(challenge.id).catch(() => null);
+      lost =
+        current !== null &&
+        (current.status === BATTLE_STATUS.RESOLVED || current.status === BATTLE_STATUS.TIE);
+    }
+
+    this.db.recordResolverRace({
+      challengeId: challenge.id,
+      outcome: lost ? 'lost' : 'failed',
+      endsAt: endTime,
+      latencyMs: submittedAt - endTime * 1000,
+      error: errorMessage,
+    });
+
+    if (lost) {
+      this.logger?.warn('Lost resolve race', {
         challengeId: challenge.id,
-        success: false,
-        error: errorMessage,
-      };
+        latencyMs: submittedAt - endTime * 1000,
+      });
+    } else {
+      // Retryable failures are re-armed by the scheduler and picked up again by the next sweep
+      const details = { challengeId: challenge.id, error: errorMessage, category };
+      if (errorHandling(category) === 'alert') {
+        this.logger?.error('Failed to resolve battle', details);
+      } else {
+        this.logger?.warn('Failed to resolve battle', details);
+      }
     }
+
+    return {
+      challengeId: challenge.id,
+      success: false,
+      error: errorMessage,
+      category,
+    };
   }
 
   /**
-   * Expire all expired challenges and claim refunds
+   * Expire all expired challenges and claim refunds, batched into as few
+   * transactions as the budget allows
    */
   async expireAll(): Promise<ResolveResult[]> {
+    // Expiring can wait; keep what CPU/NET is left for resolves
+    if (this.resources && !(await this.resources.allows('low'))) return [];
+
     const expired = await this.challengeService.getExpiredChallenges();
-    const results: ResolveResult[] = [];
 
     this.logger?.info('Checking for expired challenges', {
       found: expired.length,
     });
+    if (expired.length === 0) return [];
 
-    for (const challenge of expired) {
-      try {
-        const result = await this.actions.expireChallenge(challenge.id);
+    const outcomes = await this.actions.expireChallenges(
+      expired.map((c) => c.id),
+      (ids) => this.noLongerInStatus(ids, BATTLE_STATUS.OPEN)
+    );
 
-        this.logger?.info('Expired challenge', {
-          challengeId: challenge.id,
-          txId: result.transaction_id,
-        });
+    return outcomes.map((outcome) => {
+      if (outcome.success) {
+        // Expiring one of our own challenges refunds the stake
+        const account = this.actions.getAccount();
+        const ours = (id: number) => expired.some((c) => c.id === id && c.creator === account);
+        const receipts = outcome.result
+          ? parseReceipts(outcome.result, account, ours).filter((r) => r.challengeId === outcome.key)
+          : [];
+        this.db.recordReceipts(outcome.txId!, receipts);
 
-        results.push({
-          challengeId: challenge.id,
-          success: true,
-          txId: result.transaction_id,
+        this.logger?.info('Expired challenge', {
+          challengeId: outcome.key,
+          txId: outcome.txId,
+          refund: receipts.length > 0 ? receipts.reduce((sum, r) => sum + r.amount, 0) : undefined,
         });
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
+        return { challengeId: outcome.key, success: true, txId: outcome.txId };
+      }
 
+      // Someone else expired or the creator cancelled it first
+      const category = outcome.category ?? 'unknown';
+      if (errorHandling(category) === 'skip') {
+        this.logger?.info('Challenge no longer expirable', { challengeId: outcome.key, category });
+      } else {
         this.logger?.error('Failed to expire challenge', {
-          challengeId: challenge.id,
-          error: errorMessage,
-        });
-
-        results.push({
-          challengeId: challenge.id,
-          success: false,
-          error: errorMessage,
+          challengeId: outcome.key,
+          error: outcome.error,
+          category,
         });
       }
-
-      // Small delay between operations
-      if (results.length < expired.length) {
-        await new Promise((r) => setTimeout(r, 1000));
-      }
-    }
-
-    return results;
+      return { challengeId: outcome.key, success: false, error: outcome.error };
+    });
   }
 }
@@ -0,0 +1,196 @@
+import { AccountInfo, AccountResourceLimit, RpcClient, TransactionSigner } from '../blockchain';
+import { DatabaseQueries } from '../db';
+import { ActionPriority, ResourceConfig, ResourceKind, ResourceStatus, ResourceUsage } from '../types';
+import { Logger, formatXPRWithSymbol, nowMs } from '../utils';
+
+/**
+ * Tracks the bot account's CPU, NET and RAM. Warns when they run low, defers
+ * low-priority actions meanwhile, and optionally stakes XPR for CPU/NET
+ * within a budget.
+ */
+export class ResourceMonitor {
+  private rpc: RpcClient;
+  private signer: TransactionSigner;
+  private db: DatabaseQueries;
+  private account: string;
+  private permission: string;
+  private config: ResourceConfig;
+  private logger?: Logger;
+  private current: ResourceStatus | null = null;
+  private lastStakeAt = 0; // ms, 0 = never
+  private budgetWarned = false;
+
+  constructor(
+    rpc: RpcClient,
+    signer: TransactionSigner,
+    db: DatabaseQueries,
+    account: string,
+    permission: string,
+    config: ResourceConfig,
+    logger?: Logger
+  ) {
+    this.rpc = rpc;
+    this.signer = signer;
+    this.db = db;
+    this.account = account;
+    this.permission = permission;
+    this.config = config;
+    this.logger = logger;
+  }
+
+  /**
+   * Last known resources, null until the first successful check
+   */
+  get status(): ResourceStatus | null {
+    return this.current;
+  }
+
+  /**
+   * Read the account's resources now, warn about any that are low and stake
+   * for CPU/NET if allowed. A failed read keeps the last known status.
+   */
+  async check(): Promise<ResourceStatus | null> {
+    let status: ResourceStatus;
+    try {
+      status = readResources(await this.rpc.getAccount(this.account), this.config);
+    } catch (error) {
+      this.logger?.warn('Failed to check account resources', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return this.current;
+    }
+
+    const wasLow = this.current?.low ?? [];
+    this.current = status;
+
+    if (status.low.length > 0) {
+      this.logger?.warn('Account resources low, deferring low-priority actions', {
+        low: status.low,
+        ...summary(status),
+      });
+      await this.stake(status);
+    } else if (wasLow.length > 0) {
+      this.logger?.info('Account resources recovered', summary(status));
+    } else {
+      this.logger?.debug('Account resources', summary(status));
+    }
+    return status;
+  }
+
+  /**
+   * Whether an action of this priority should go ahead now. High-priority
+   * actions (resolves) always do; low-priority ones wait while resources are low.
+   */
+  async allows(priority: ActionPriority): Promise<boolean> {
+    if (priority === 'high') return true;
+    if (!this.current || nowMs() - this.current.checkedAt >= this.config.checkInterval) {
+      await this.check();
+    }
+    return !this.current || this.current.low.length === 0;
+  }
+
+  /**
+   * Forget the last check, e.g. after a transaction failed for lack of CPU/NET
+   */
+  invalidate(): void {
+    if (this.current) this.current.checkedAt = 0;
+  }
+
+  /**
+   * Stake XPR for the low resource(s), at most once per check interval and
+   * never beyond the budget. RAM has to be bought by hand.
+   */
+  private async stake(status: ResourceStatus): Promise<void> {
+    const kinds = status.low.filter((kind): kind is 'cpu' | 'net' => kind !== 'ram');
+    if (this.config.stakeBudget <= 0 || kinds.length === 0) return;
+    if (nowMs() - this.lastStakeAt < this.config.checkInterval) return;
+
+    const remaining = this.config.stakeBudget - this.db.getResourceStakeTotal();
+    const amount = Math.floor(Math.min(this.config.stakeAmount, remaining) * 10000) / 10000;
+    if (amount <= 0) {
+      if (!this.budgetWarned) {
+        this.logger?.warn('Resource stake budget used up', { budget: this.config.stakeBudget });
+        this.budgetWarned = true;
+      }
+      return;
+    }
+
+    // Split the stake between the resources that are low
+    const cpu = kinds.includes('cpu') ? (kinds.includes('net') ? Math.floor(amount * 5000) / 10000 : amount) : 0;
+    const net = Math.round((amount - cpu) * 10000) / 10000;
+
+    this.lastStakeAt = nowMs();
+    if (this.signer.isDryRun()) {
+      // Nothing is staked, so nothing counts against the budget
+      this.logger?.info('[DRY RUN] Would stake XPR for account resources', { cpu, net });
+      return;
+    }
+
+    try {
+      const result = await this.signer.transact([
+        {
+          account: 'eosio',
+          name: 'delegatebw',
+          authorization: [{ actor: this.account, permission: this.permission }],
+          data: {
+            from: this.account,
+            receiver: this.account,
+            stake_net_quantity: formatXPRWithSymbol(Math.round(net * 10000)),
+            stake_cpu_quantity: formatXPRWithSymbol(Math.round(cpu * 10000)),
+            transfer: false,
+          },
+        },
+      ]);
+      this.db.recordResourceStake(result.transaction_id, cpu, net);
+      this.logger?.info('Staked XPR for account resources', {
+        txId: result.transaction_id,
+        cpu,
+        net,
+        budgetLeft: remaining - amount,
+      });
+    } catch (error) {
+      this.logger?.error('Failed to stake for account resources', {
+        error: error instanceof Error ? error.message : String(error),
+        cpu,
+        net,
+      });
+    }
+  }
+}
+
+/**
+ * Resources from a get_account response, with the ones below the thresholds
+ */
+export function readResources(account: AccountInfo, config: ResourceConfig): ResourceStatus {
+  const cpu = usage(account.cpu_limit);
+  const net = usage(account.net_limit);
+  const quota = Number(account.ram_quota);
+  const ramUsage = Number(account.ram_usage);
+  const ram = { quota, usage: ramUsage, free: quota < 0 ? Infinity : quota - ramUsage };
+
+  const low: ResourceKind[] = [];
+  if (cpu.percentAvailable < config.minCpuPercent) low.push('cpu');
+  if (net.percentAvailable < config.minNetPercent) low.push('net');
+  if (ram.free < config.minRamBytes) low.push('ram');
+
+  return { cpu, net, ram, low, checkedAt: nowMs() };
+}
+
+function usage(limit: AccountResourceLimit): ResourceUsage {
+  const used = Number(limit.used);
+  const available = Number(limit.available);
+  const max = Number(limit.max);
+  // Unlimited accounts report -1
+  const percentAvailable = max < 0 ? 100 : max === 0 ? 0 : (Math.max(0, available) / max) * 100;
+  return { used, available, max, percentAvailable };
+}
+
+function summary(status: ResourceStatus) {
+  const describe = (u: ResourceUsage, unit: string) =>
+    u.max < 0 ? 'unlimited' : `${u.percentAvailable.toFixed(1)}% (${u.available} ${unit} free)`;
+  return {
+    cpu: describe(status.cpu, 'us'),
+    net: describe(status.net, 'bytes'),
+    ram: status.ram.quota < 0 ? 'unlimited' : `${status.ram.free} bytes free`,
+  };
+}
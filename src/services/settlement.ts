@@ -0,0 +1,166 @@
+import { ChallengeService } from './challenges';
+import { DatabaseQueries } from '../db';
+import {
+  Challenge,
+  PriceBattleConfig,
+  SettlementResult,
+  BATTLE_STATUS,
+} from '../types';
+import { Logger } from '../utils';
+
+/**
+ * Work out what a finished battle paid us.
+ * The winner takes the pot minus the treasury fee and the resolver's cut;
+ * a tie refunds both stakes in full.
+ */
+export function computeSettlement(
+  challenge: Challenge,
+  account: string,
+  config: Pick<PriceBattleConfig, 'fee_percent' | 'resolver_percent'>
+): SettlementResult | null {
+  let role: SettlementResult['role'];
+  if (challenge.creator === account) role = 'creator';
+  else if (challenge.opponent === account) role = 'opponent';
+  else return null;
+
+  const stake = parseInt(challenge.amount, 10) / 10000; // Convert from raw to XPR
+
+  if (challenge.status === BATTLE_STATUS.TIE) {
+    return { challengeId: challenge.id, role, outcome: 'tie', stake, payout: stake, pnl: 0 };
+  }
+
+  if (challenge.status !== BATTLE_STATUS.RESOLVED || !challenge.winner) {
+    return null;
+  }
+
+  if (challenge.winner !== account) {
+    return { challengeId: challenge.id, role, outcome: 'loss', stake, payout: 0, pnl: -stake };
+  }
+
+  const pot = stake * 2;
+  const payout = pot * (100 - config.fee_percent - config.resolver_percent) / 100;
+
+  return { challengeId: challenge.id, role, outcome: 'win', stake, payout, pnl: payout - stake };
+}
+
+/**
+ * Tracks our battles from ACTIVE to RESOLVED/TIE and books the result
+ * into daily performance, streaks and confidence buckets (once per battle).
+ */
+export class SettlementService {
+  private challengeService: ChallengeService;
+  private db: DatabaseQueries;
+  private account: string;
+  private logger?: Logger;
+
+  constructor(
+    challengeService: ChallengeService,
+    db: DatabaseQueries,
+    account: string,
+    logger?: Logger
+  ) {
+    this.challengeService = challengeService;
+    this.db = db;
+    this.account = account;
+    this.logger = logger;
+  }
+
+  /**
+   * Start tracking any of our battles that have become ACTIVE, and settle
+   * every tracked battle that has since finished
+   */
+  async settleAll(): Promise<SettlementResult[]> {
+    const ours = await this.challengeService.getOurChallenges();
+    const oursById = new Map(ours.map((c) => [c.id, c]));
+    this.db.watchSettlements(
+      ours
+        .filter((c) => c.status === BATTLE_STATUS.ACTIVE)
+        .map((c) => ({ challengeId: c.id, role: c.creator === this.account ? 'creator' : 'opponent' }))
+    );
+
+    const results: SettlementResult[] = [];
+    for (const challengeId of this.db.getWatchedSettlements()) {
+      try {
+        // Older battles may have dropped out of the recent window - look them up directly
+        const current = oursById.get(challengeId) ?? await this.challengeService.getChallenge(challengeId);
+        if (!current) continue;
+
+        if (current.status === BATTLE_STATUS.RESOLVED || current.status === BATTLE_STATUS.TIE) {
+          const result = await this.settle(current);
+          if (result) results.push(result);
+        }
+      } catch (error) {
+        this.logger?.error('Failed to settle battle', {
+          challengeId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Settle a single finished battle. Returns null if it isn't ours,
+   * isn't finished, or has already been settled.
+   */
+  async settle(challenge: Challenge): Promise<SettlementResult | null> {
+    if (this.db.isSettled(challenge.id)) {
+      this.db.unwatchSettlement(challenge.id);
+      return null;
+    }
+
+    const config = await this.challengeService.getConfig();
+    if (!config) {
+      throw new Error('PriceBattle config not found');
+    }
+
+    const result = computeSettlement(challenge, this.account, config);
+    if (!result) return null;
+
+    // Prefer what the contract actually paid us, when one of our transactions showed it
+    const received = this.db.getReceivedPayout(challenge.id);
+    if (received !== undefined && result.outcome !== 'loss') {
+      result.payout = received;
+      result.pnl = received - result.stake;
+    }
+
+    if (result.role === 'creator') {
+      this.db.linkCreateDecision(challenge);
+    }
+    const confidence = this.db.getDecisionConfidence(challenge.id);
+
+    const recorded = this.db.recordSettlement({
+      ...result,
+      confidence,
+      duration: challenge.duration,
+      oracleIndex: challenge.oracle_index,
+    });
+    this.db.unwatchSettlement(challenge.id);
+    if (!recorded) return null;
+
+    switch (result.outcome) {
+      case 'win':
+        this.db.incrementWin(result.pnl, undefined, confidence);
+        break;
+      case 'loss':
+        this.db.incrementLoss(result.stake, undefined, confidence);
+        break;
+      case 'tie':
+        this.db.incrementTie(undefined, confidence);
+        break;
+    }
+
+    this.logger?.info('Battle settled', {
+      challengeId: challenge.id,
+      role: result.role,
+      outcome: result.outcome,
+      stake: result.stake.toFixed(4),
+      payout: result.payout.toFixed(4),
+      pnl: result.pnl.toFixed(4),
+      confidence,
+    });
+
+    return result;
+  }
+}
@@ -1,8 +1,31 @@
 import { TradingStrategy } from './base';
-import { ResolverService, ChallengeService, OracleService, MarketDataService } from '../services';
+import { MIN_STAKE, StakeSizing, sizeForRisk, sizeAccept } from './sizing';
+import {
+  AIBudget,
+  ConfidenceCalibrator,
+  durationWindow,
+  logTransactionFailure,
+  recordAIFailure,
+  transactionRetry,
+} from './shared';
+import {
+  ResolverService,
+  SettlementService,
+  ChallengeService,
+  ContractRulesService,
+  ResourceMonitor,
+  OracleService,
+  MarketDataService,
+} from '../services';
 import { PriceBattleActions } from '../blockchain';
 import { DatabaseQueries } from '../db';
-import { createAIClient, buildPredictionPrompt } from '../ai';
+import {
+  createAIClient,
+  createPromptSelector,
+  buildPredictionPrompt,
+  buildAcceptPrompt,
+  PromptSelector,
+} from '../ai';
 import {
   Challenge,
   CreateDecision,
@@ -10,13 +33,17 @@ import {
   PredictionContext,
   AIClient,
   BotConfig,
+  PriceBattleConfig,
+  AggressiveProfile,
   DIRECTION,
+  ASSETS,
+  OracleIndex,
 } from '../types';
-import { Logger, formatXPRWithSymbol } from '../utils';
+import { Logger, nowMs, formatXPRWithSymbol, formatUSD, withRetry } from '../utils';
 
 /**
  * Aggressive trading strategy
- * - Creates challenges with any AI signal (>= 50% confidence)
+ * - Creates challenges with any AI signal (>= 50% confidence by default)
  * - Accepts challenges more readily
  * - Uses higher stake percentages
  * - Always resolves expired battles
@@ -26,29 +53,26 @@ export class AggressiveStrategy implements TradingStrategy {
   mode = 'aggressive' as const;
 
   private resolverService: ResolverService;
+  private settlementService: SettlementService;
   private challengeService: ChallengeService;
+  private contractRules: ContractRulesService;
   private oracleService: OracleService;
   private marketDataService: MarketDataService;
   private actions: PriceBattleActions;
   private db: DatabaseQueries;
   private aiClient: AIClient;
+  private prompts: PromptSelector; // prediction template, or an A/B split between two
   private config: BotConfig;
   private logger?: Logger;
-
-  // Lower confidence thresholds for aggressive mode
-  private readonly MIN_CREATE_CONFIDENCE = 50;
-  private readonly MIN_ACCEPT_CONFIDENCE = 50;
-  // Higher confidence thresholds for cautious mode (when approaching loss limit)
-  private readonly CAUTIOUS_CREATE_CONFIDENCE = 75;
-  private readonly CAUTIOUS_ACCEPT_CONFIDENCE = 75;
-  private readonly CAUTIOUS_THRESHOLD = 0.7; // Switch to cautious at 70% of daily loss limit
-  private readonly CREATE_COOLDOWN_MS = 3600000; // 1 hour between creates
-  private readonly MIN_DURATION = 14400; // 4 hours minimum - longer timeframes during quiet periods
-  private readonly MAX_DURATION = 86400; // 24 hours max for creating/accepting
-  private readonly MAX_ACCEPT_STAKE = 250; // Max 250 XPR when accepting challenges
-  private readonly MAX_CREATE_STAKE = 250; // Max 250 XPR when creating challenges
-  private readonly MAX_PRICE_MOVE_PERCENT = 0.5; // Skip if price moved > 0.5% since challenge created
-  private lastCreateTime = 0;
+  private resources?: ResourceMonitor; // account CPU/NET/RAM
+
+  // Thresholds (normal and cautious), stake caps and duration window (from the strategy profile).
+  // Cautious thresholds apply once daily losses reach cautiousThreshold of the daily loss limit
+  readonly params: AggressiveProfile;
+  private lastCreateTimes = new Map<OracleIndex, number>(); // per feed
+  private aiBudget: AIBudget;
+  private calibration: ConfidenceCalibrator;
+  private contract: PriceBattleConfig | null = null; // contract settings, refreshed every tick
   private cautiousMode = false;
 
   /**
@@ -57,35 +81,47 @@ export class AggressiveStrategy implements TradingStrategy {
   private getConfidenceThresholds(): { create: number; accept: number } {
     if (this.cautiousMode) {
       return {
-        create: this.CAUTIOUS_CREATE_CONFIDENCE,
-        accept: this.CAUTIOUS_ACCEPT_CONFIDENCE,
+        create: this.params.cautiousCreateConfidence,
+        accept: this.params.cautiousAcceptConfidence,
       };
     }
     return {
-      create: this.MIN_CREATE_CONFIDENCE,
-      accept: this.MIN_ACCEPT_CONFIDENCE,
+      create: this.params.minCreateConfidence,
+      accept: this.params.minAcceptConfidence,
     };
   }
 
   constructor(
     resolverService: ResolverService,
+    settlementService: SettlementService,
     challengeService: ChallengeService,
+    contractRules: ContractRulesService,
     oracleService: OracleService,
     marketDataService: MarketDataService,
     actions: PriceBattleActions,
     db: DatabaseQueries,
     config: BotConfig,
-    logger?: Logger
+    params: AggressiveProfile,
+    logger?: Logger,
+    aiClient?: AIClient,
+    resources?: ResourceMonitor
   ) {
     this.resolverService = resolverService;
+    this.settlementService = settlementService;
     this.challengeService = challengeService;
+    this.contractRules = contractRules;
     this.oracleService = oracleService;
     this.marketDataService = marketDataService;
     this.actions = actions;
     this.db = db;
     this.config = config;
+    this.params = params;
     this.logger = logger;
-    this.aiClient = createAIClient(config.ai, logger);
+    this.aiClient = aiClient ?? createAIClient(config.ai, logger);
+    this.prompts = createPromptSelector(config.ai.prompts);
+    this.aiBudget = new AIBudget(config.ai, db, logger);
+    this.calibration = new ConfidenceCalibrator(config.ai, db, config.paper);
+    this.resources = resources;
   }
 
   async tick(): Promise<void> {
@@ -93,14 +129,25 @@ export class AggressiveStrategy implements TradingStrategy {
     await this.resolveExpired();
     await this.expireExpired();
 
-    // Check if contract is paused
-    if (await this.challengeService.isPaused()) {
+    // Book any of our battles that have finished since the last tick, and refit
+    // the confidence calibration on them
+    await this.settlementService.settleAll();
+    this.calibration.refresh();
+
+    // Check if contract is paused (the duration limits are used when creating)
+    this.contract = await this.contractRules.getConfig();
+    if (this.contract?.paused) {
       this.logger?.warn('Contract is paused, skipping trading');
       return;
     }
 
+    // Creates and accepts wait while the account is short of CPU/NET/RAM, so resolves still go through
+    if (this.resources && !(await this.resources.allows('low'))) {
+      return;
+    }
+
     // Check daily loss limit
-    const todayPerf = this.db.getPerformance();
+    const todayPerf = this.db.getPerformance(undefined, this.config.paper);
     const dailyLoss = todayPerf.totalLost - todayPerf.totalWon;
     if (dailyLoss >= this.config.risk.maxDailyLoss) {
       this.logger?.warn('Daily loss limit reached, pausing trading', {
@@ -111,60 +158,80 @@ export class AggressiveStrategy implements TradingStrategy {
     }
 
     // Check if we're in cautious mode (approaching loss limit)
-    this.cautiousMode = dailyLoss >= this.config.risk.maxDailyLoss * this.CAUTIOUS_THRESHOLD;
+    this.cautiousMode = dailyLoss >= this.config.risk.maxDailyLoss * this.params.cautiousThreshold;
     if (this.cautiousMode) {
       this.logger?.info('Cautious mode active - using higher confidence thresholds', {
         dailyLoss,
-        threshold: this.config.risk.maxDailyLoss * this.CAUTIOUS_THRESHOLD,
+        threshold: this.config.risk.maxDailyLoss * this.params.cautiousThreshold,
         limit: this.config.risk.maxDailyLoss,
-        createThreshold: this.CAUTIOUS_CREATE_CONFIDENCE,
-        acceptThreshold: this.CAUTIOUS_ACCEPT_CONFIDENCE,
+        createThreshold: this.params.cautiousCreateConfidence,
+        acceptThreshold: this.params.cautiousAcceptConfidence,
       });
     }
 
-    // Get current context
-    const context = await this.buildContext();
+    // Get current context for each traded feed (a feed that fails sits this tick out)
+    const contexts = new Map<number, PredictionContext>();
+    for (const oracleIndex of this.config.feeds) {
+      try {
+        contexts.set(oracleIndex, await this.buildContext(oracleIndex));
+      } catch (error) {
+        this.logger?.error('Failed to build context, skipping feed', {
+          asset: ASSETS[oracleIndex].symbol,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
 
     // Check if we can create new challenges
     const activeCount = await this.challengeService.getOurActiveChallengesCount();
     const openChallenges = await this.challengeService.getOpenChallenges();
-    const ourOpenCount = openChallenges.filter(c => c.creator === this.config.account).length;
-    const totalOurChallenges = activeCount + ourOpenCount;
-
-    // Check cooldown and challenge limits before creating
-    // Only create if we have NO open challenges waiting - reduces expired challenges
-    const now = Date.now();
-    const cooldownOk = now - this.lastCreateTime >= this.CREATE_COOLDOWN_MS;
-    const noOpenChallenges = ourOpenCount === 0;
-
-    if (noOpenChallenges && totalOurChallenges < this.config.risk.maxConcurrentChallenges && cooldownOk) {
-      const createDecision = await this.shouldCreate(context);
-      if (createDecision) {
-        await this.executeCreate(createDecision, context);
-        this.lastCreateTime = now;
+    const ourOpen = openChallenges.filter(c => c.creator === this.config.account);
+    let totalOurChallenges = activeCount + ourOpen.length;
+
+    for (const context of contexts.values()) {
+      // Check cooldown and challenge limits before creating
+      // Only create if we have NO open challenges waiting on this feed - reduces expired challenges
+      const ourOpenCount = ourOpen.filter(c => c.oracle_index === context.oracleIndex).length;
+      const lastCreateTime = this.lastCreateTimes.get(context.oracleIndex) ?? 0;
+      const now = nowMs();
+      const cooldownOk = now - lastCreateTime >= this.params.createCooldownMs;
+      const noOpenChallenges = ourOpenCount === 0;
+
+      if (noOpenChallenges && totalOurChallenges < this.config.risk.maxConcurrentChallenges && cooldownOk) {
+        const createDecision = await this.shouldCreate(context);
+        if (createDecision) {
+          await this.executeCreate(createDecision, context);
+          this.lastCreateTimes.set(context.oracleIndex, now);
+          totalOurChallenges++;
+        }
+      } else if (!noOpenChallenges) {
+        this.logger?.info('Skipping create - waiting for open challenge to be accepted', {
+          asset: context.asset,
+          openChallenges: ourOpenCount,
+        });
+      } else if (!cooldownOk) {
+        this.logger?.info('Skipping create - cooldown active', {
+          asset: context.asset,
+          secondsRemaining: Math.ceil((this.params.createCooldownMs - (now - lastCreateTime)) / 1000),
+        });
+      } else if (totalOurChallenges >= this.config.risk.maxConcurrentChallenges) {
+        this.logger?.info('Skipping create - at max challenges', {
+          active: activeCount,
+          open: ourOpen.length,
+          total: totalOurChallenges,
+          max: this.config.risk.maxConcurrentChallenges,
+        });
       }
-    } else if (!noOpenChallenges) {
-      this.logger?.info('Skipping create - waiting for open challenge to be accepted', {
-        openChallenges: ourOpenCount,
-      });
-    } else if (!cooldownOk) {
-      this.logger?.info('Skipping create - cooldown active', {
-        secondsRemaining: Math.ceil((this.CREATE_COOLDOWN_MS - (now - this.lastCreateTime)) / 1000),
-      });
-    } else if (totalOurChallenges >= this.config.risk.maxConcurrentChallenges) {
-      this.logger?.info('Skipping create - at max challenges', {
-        active: activeCount,
-        open: ourOpenCount,
-        total: totalOurChallenges,
-        max: this.config.risk.maxConcurrentChallenges,
-      });
     }
 
-    // Aggressively check for challenges to accept
+    // Aggressively check for challenges to accept (only on feeds we trade)
     const acceptable = await this.challengeService.getAcceptableChallenges();
     for (const challenge of acceptable) {
       if (activeCount >= this.config.risk.maxConcurrentChallenges) break;
 
+      const context = contexts.get(challenge.oracle_index);
+      if (!context) continue;
+
       if (await this.shouldAccept(challenge, context)) {
         await this.executeAccept(challenge, context);
       }
@@ -173,8 +240,19 @@ export class AggressiveStrategy implements TradingStrategy {
 
   async shouldCreate(context: PredictionContext): Promise<CreateDecision | null> {
     try {
-      const prompt = buildPredictionPrompt(context);
-      const analysis = await this.aiClient.analyze(prompt);
+      if (this.aiBudget.exhausted()) return null;
+
+      const template = this.prompts.pick(context);
+      const window = durationWindow(this.params, this.contract, this.logger);
+      if (!window) return null;
+
+      const prompt = buildPredictionPrompt(context, template, {
+        durationWindow: window,
+        durationStats: this.db.getDurationPerformance(this.config.paper),
+      });
+      const analysis = await this.aiClient
+        .analyze(prompt, context)
+        .catch((error) => recordAIFailure(this.db, this.config.ai, error, context));
 
       // Log decision
       this.db.logDecision({
@@ -184,41 +262,59 @@ export class AggressiveStrategy implements TradingStrategy {
         reasoning: analysis.reasoning,
         aiProvider: this.config.ai.provider,
         priceAtDecision: context.currentPrice,
+        usage: analysis.usage,
+        votes: analysis.votes,
+        prompt: template,
       });
 
       // Accept any signal above threshold (adjusted for cautious mode)
+      // (thresholds apply to the confidence as calibrated against our settled battles)
       const thresholds = this.getConfidenceThresholds();
+      const probability = this.calibration.calibrate(analysis.confidence);
       if (
         analysis.direction === 'NEUTRAL' ||
-        analysis.confidence < thresholds.create
+        probability < thresholds.create
       ) {
         this.logger?.info('Skipping create - below threshold', {
           direction: analysis.direction,
           confidence: analysis.confidence,
+          calibrated: Math.round(probability),
           threshold: thresholds.create,
           cautiousMode: this.cautiousMode,
         });
         return null;
       }
 
-      // Use AI-suggested stake (capped by config)
-      const stakePercent = Math.min(
-        analysis.suggestedStake,
-        this.config.risk.maxPercentPerChallenge
+      // Size by calibrated expected value after fees: fractional Kelly, within the AI's suggestion and the cap
+      const sizing = sizeForRisk(
+        probability,
+        this.contract,
+        this.config.risk,
+        Math.min(analysis.suggestedStake, this.config.risk.maxPercentPerChallenge)
       );
+      if (!sizing.tradable) {
+        this.logger?.info('Skipping create - expected value too low', {
+          direction: analysis.direction,
+          calibrated: Math.round(probability),
+          expectedValue: `${sizing.expectedValue.toFixed(1)}%`,
+          minEdge: `${this.config.risk.minEdgePercent}%`,
+        });
+        return null;
+      }
+      const stakePercent = sizing.stakePercent;
 
-      // Enforce duration limits (30 min to 1 hour)
-      // 10 min challenges have 27% win rate - avoid them!
-      const duration = Math.max(
-        this.MIN_DURATION,
-        Math.min(analysis.recommendedDuration, this.MAX_DURATION)
-      );
+      // The prompt offers durations within the window; clamp in case the model strays
+      const duration = Math.max(window.min, Math.min(analysis.recommendedDuration, window.max));
 
       return {
+        oracleIndex: context.oracleIndex,
         direction: analysis.direction === 'UP' ? DIRECTION.UP : DIRECTION.DOWN,
         duration,
         stakePercent,
+        confidence: analysis.confidence,
         reasoning: analysis.reasoning,
+        votes: analysis.votes,
+        prompt: template,
       };
     } catch (error) {
       this.logger?.error('Failed to get AI prediction', {
@@ -235,43 +331,43 @@ export class AggressiveStrategy implements TradingStrategy {
     try {
       // Check duration limits - only accept 30 min to 1 hour
       // 10 min challenges have 27% win rate - avoid them!
-      if (challenge.duration < this.MIN_DURATION) {
+      if (challenge.duration < this.params.minDuration) {
         this.logger?.debug('Skipping challenge - duration too short', {
           challengeId: challenge.id,
           duration: challenge.duration,
-          minDuration: this.MIN_DURATION,
+          minDuration: this.params.minDuration,
         });
         return false;
       }
 
-      if (challenge.duration > this.MAX_DURATION) {
+      if (challenge.duration > this.params.maxDuration) {
         this.logger?.debug('Skipping challenge - duration too long', {
           challengeId: challenge.id,
           duration: challenge.duration,
-          maxDuration: this.MAX_DURATION,
+          maxDuration: this.params.maxDuration,
         });
         return false;
       }
 
-      // Check stake limit - skip challenges over MAX_ACCEPT_STAKE XPR
+      // Check stake limit - skip challenges over maxAcceptStake XPR
       const stakeAmount = parseInt(challenge.amount, 10) / 10000; // Convert from raw to XPR
-      if (stakeAmount > this.MAX_ACCEPT_STAKE) {
+      if (stakeAmount > this.params.maxAcceptStake) {
         this.logger?.debug('Skipping challenge - stake too high', {
           challengeId: challenge.id,
           stake: stakeAmount,
-          maxStake: this.MAX_ACCEPT_STAKE,
+          maxStake: this.params.maxAcceptStake,
         });
         return false;
       }
 
       // Check if price has moved significantly since challenge was created
       // This helps avoid accepting challenges where we're chasing momentum
-      const priceAtCreation = this.db.getPriceAt(challenge.created_at);
+      const priceAtCreation = this.db.getPriceAt(challenge.created_at, challenge.oracle_index);
       if (priceAtCreation) {
         const priceChangePercent = ((context.currentPrice - priceAtCreation) / priceAtCreation) * 100;
         const absChange = Math.abs(priceChangePercent);
 
-        if (absChange > this.MAX_PRICE_MOVE_PERCENT) {
+        if (absChange > this.params.maxPriceMovePercent) {
           // Price moved significantly - check if it moved in a favorable direction
           // If creator bet UP and price went UP, we'd be taking DOWN and might be chasing
           const priceWentUp = priceChangePercent > 0;
@@ -283,7 +379,7 @@ export class AggressiveStrategy implements TradingStrategy {
               challengeId: challenge.id,
               priceChange: `${priceChangePercent >= 0 ? '+' : ''}${priceChangePercent.toFixed(3)}%`,
               creatorDirection: creatorBetUp ? 'UP' : 'DOWN',
-              maxAllowed: `${this.MAX_PRICE_MOVE_PERCENT}%`,
+              maxAllowed: `${this.params.maxPriceMovePercent}%`,
             });
             return false;
           }
@@ -291,37 +387,56 @@ export class AggressiveStrategy implements TradingStrategy {
         }
       }
 
-      // Use the same prediction logic as for creating challenges
-      const prompt = buildPredictionPrompt(context);
-      const analysis = await this.aiClient.analyze(prompt);
+      if (this.aiBudget.exhausted()) return false;
+
+      // Ask the AI about this specific challenge (duration, stake, creator, drift since creation)
+      const creatorStats = await this.challengeService
+        .getPlayerStats(challenge.creator)
+        .catch(() => undefined);
+      const prompt = buildAcceptPrompt(challenge, context, { creatorStats, priceAtCreation });
+      const analysis = await this.aiClient
+        .evaluateAccept(prompt, context, challenge)
+        .catch((error) => recordAIFailure(this.db, this.config.ai, error, context, challenge.id));
 
-      // Determine what direction we'd take if we accept
       // Creator UP (1) -> we take DOWN, Creator DOWN (2) -> we take UP
       const ourDirection = challenge.direction === 1 ? 'DOWN' : 'UP';
-      const predictionMatchesOurSide = analysis.direction === ourDirection;
+      const thresholds = this.getConfidenceThresholds();
+      const probability = this.calibration.calibrate(analysis.confidence);
+      let reason = !analysis.accept ? 'AI declined' : probability < thresholds.accept ? 'low confidence' : undefined;
+
+      // The stake is the challenger's: take it only with an edge after fees, and up to the Kelly stake
+      let sizing: StakeSizing | undefined;
+      if (!reason) {
+        const stake = parseInt(challenge.amount, 10) / 10000; // Convert from raw to XPR
+        const balance = await this.challengeService.getBalance();
+        ({ sizing, reason } = sizeAccept(probability, stake, balance, this.contract, this.config.risk));
+      }
+      const accept = !reason;
 
-      // Log decision
+      // Log decision against the challenge
       this.db.logDecision({
         challengeId: challenge.id,
-        action: predictionMatchesOurSide && analysis.confidence >= this.MIN_ACCEPT_CONFIDENCE ? 'accept' : 'skip',
+        action: accept ? 'accept' : 'skip',
         direction: ourDirection,
         confidence: analysis.confidence,
         reasoning: analysis.reasoning,
         aiProvider: this.config.ai.provider,
         priceAtDecision: context.currentPrice,
+        usage: analysis.usage,
+        votes: analysis.votes,
       });
 
-      // Accept if AI predicts the same direction we'd take and confidence is high enough
-      const thresholds = this.getConfidenceThresholds();
-      if (!predictionMatchesOurSide || analysis.confidence < thresholds.accept) {
+      if (!accept) {
         this.logger?.debug('Skipping challenge', {
           challengeId: challenge.id,
           ourDirection,
-          aiPrediction: analysis.direction,
+          aiAccept: analysis.accept,
           confidence: analysis.confidence,
+          calibrated: Math.round(probability),
           threshold: thresholds.accept,
           cautiousMode: this.cautiousMode,
-          reason: !predictionMatchesOurSide ? 'direction mismatch' : 'low confidence',
+          expectedValue: sizing ? `${sizing.expectedValue.toFixed(1)}%` : undefined,
+          reason,
         });
         return false;
       }
@@ -330,6 +445,8 @@ export class AggressiveStrategy implements TradingStrategy {
         challengeId: challenge.id,
         ourDirection,
         confidence: analysis.confidence,
+        calibrated: Math.round(probability),
+        expectedValue: `${sizing!.expectedValue.toFixed(1)}%`,
       });
 
       return true;
@@ -350,24 +467,28 @@ export class AggressiveStrategy implements TradingStrategy {
     return this.resolverService.expireAll();
   }
 
-  private async buildContext(): Promise<PredictionContext> {
+  private async buildContext(oracleIndex: OracleIndex): Promise<PredictionContext> {
+    const asset = ASSETS[oracleIndex];
     const [{ price }, priceHistory, performance] = await Promise.all([
-      this.oracleService.getBTCPrice(),
-      Promise.resolve(this.db.getRecentPrices(60)),
-      Promise.resolve(this.db.getPerformance()),
+      this.oracleService.getPrice(oracleIndex),
+      Promise.resolve(this.db.getRecentPrices(60, oracleIndex)),
+      Promise.resolve(this.db.getPerformance(undefined, this.config.paper)),
     ]);
 
     // Try to get enhanced market data from CoinGecko
     let marketData;
     try {
-      marketData = await this.marketDataService.getBTCMarketData();
+      marketData = await this.marketDataService.getMarketData(asset.coingeckoId);
     } catch (error) {
       this.logger?.warn('Failed to fetch market data, using basic context', {
+        asset: asset.symbol,
         error: error instanceof Error ? error.message : String(error),
       });
     }
 
     const context: PredictionContext = {
+      asset: asset.symbol,
+      oracleIndex,
       currentPrice: price,
       priceHistory: priceHistory.reverse(), // Oldest first
       performance,
@@ -396,7 +517,8 @@ export class AggressiveStrategy implements TradingStrategy {
       };
 
       this.logger?.info('Market analysis', {
-        price: price.toFixed(2),
+        asset: asset.symbol,
+        price: formatUSD(price),
         change1h: `${marketData.current.change1h >= 0 ? '+' : ''}${marketData.current.change1h.toFixed(2)}%`,
         change24h: `${marketData.current.change24h >= 0 ? '+' : ''}${marketData.current.change24h.toFixed(2)}%`,
         rsi: marketData.rsi14.toFixed(1),
@@ -419,35 +541,51 @@ export class AggressiveStrategy implements TradingStrategy {
       const minReserve = this.config.risk.minBalanceReserve;
       const availableBalance = Math.max(0, balance - minReserve);
 
-      // Minimum stake of 100 XPR
-      const MIN_STAKE = 100;
+      // Our 100 XPR floor, or the contract's minimum stake if higher
+      const limits = this.contract ? this.contractRules.stakeLimits(this.contract) : { min: 0, max: Infinity };
+      const minStake = Math.max(MIN_STAKE, limits.min);
 
       // Check if we have enough balance
-      if (availableBalance < MIN_STAKE) {
+      if (availableBalance < minStake) {
         this.logger?.info('Skipping create - insufficient balance', {
           balance,
           availableBalance,
-          requiredMin: MIN_STAKE,
+          requiredMin: minStake,
         });
         return;
       }
 
       // Use configured max percentage (default 10%)
       const stakePercent = Math.min(decision.stakePercent, this.config.risk.maxPercentPerChallenge);
+      // A zero stake means sizing found no edge; never raise it to the minimum
+      if (stakePercent <= 0) {
+        this.logger?.info('Skipping create - no stake sized', { stakePercent: decision.stakePercent });
+        return;
+      }
       let stakeAmount = Math.floor(availableBalance * (stakePercent / 100));
 
-      // Cap at MAX_CREATE_STAKE
-      stakeAmount = Math.min(stakeAmount, this.MAX_CREATE_STAKE);
+      // Cap at maxCreateStake
+      stakeAmount = Math.min(stakeAmount, this.params.maxCreateStake);
 
       // Round down to nearest 100 XPR for cleaner amounts
       stakeAmount = Math.floor(stakeAmount / 100) * 100;
 
-      // Ensure at least MIN_STAKE
-      stakeAmount = Math.max(stakeAmount, MIN_STAKE);
+      // Ensure at least the minimum stake, and no more than the contract allows
+      stakeAmount = Math.min(Math.max(stakeAmount, minStake), limits.max);
+
+      // Validate against the contract's current limits before signing
+      const check = await this.contractRules.checkCreate({
+        stake: stakeAmount,
+        duration: decision.duration,
+        oracleIndex: decision.oracleIndex,
+        volatility24h: context.volatility24h,
+      });
+      if (!check.ok) return;
 
       const amount = `${stakeAmount.toFixed(4)} XPR`;
 
       this.logger?.info('Creating challenge (aggressive)', {
+        asset: context.asset,
         direction: decision.direction === 1 ? 'UP' : 'DOWN',
         duration: decision.duration,
         amount,
@@ -456,26 +594,34 @@ export class AggressiveStrategy implements TradingStrategy {
         reasoning: decision.reasoning,
       });
 
-      const result = await this.actions.createChallenge({
-        amount,
-        direction: decision.direction,
-        duration: decision.duration,
-      });
+      const result = await withRetry(
+        () =>
+          this.actions.createChallenge({
+            amount,
+            oracleIndex: decision.oracleIndex,
+            direction: decision.direction,
+            duration: decision.duration,
+          }),
+        transactionRetry(this.logger, false)
+      );
 
       this.db.logDecision({
         action: 'create',
         direction: decision.direction === 1 ? 'UP' : 'DOWN',
+        confidence: decision.confidence,
         reasoning: decision.reasoning,
         priceAtDecision: context.currentPrice,
+        votes: decision.votes,
+        prompt: decision.prompt,
+        oracleIndex: decision.oracleIndex,
+        txId: result.transaction_id,
       });
 
       this.logger?.info('Challenge created', {
         txId: result.transaction_id,
       });
     } catch (error) {
-      this.logger?.error('Failed to create challenge', {
-        error: error instanceof Error ? error.message : String(error),
-      });
+      logTransactionFailure(this.logger, 'Failed to create challenge', error);
     }
   }
 
@@ -484,28 +630,30 @@ export class AggressiveStrategy implements TradingStrategy {
     context: PredictionContext
   ): Promise<void> {
     try {
+      // Validate against the contract's current limits before signing
+      const check = await this.contractRules.checkAccept(challenge, this.config.account);
+      if (!check.ok) return;
+
       const amount = formatXPRWithSymbol(challenge.amount);
 
       this.logger?.info('Accepting challenge (aggressive)', {
         challengeId: challenge.id,
+        asset: context.asset,
         amount,
       });
 
       // Contract fetches price directly from oracle
-      const result = await this.actions.acceptChallenge({
-        challengeId: challenge.id,
-        amount,
-      });
+      const result = await withRetry(
+        () => this.actions.acceptChallenge({ challengeId: challenge.id, amount }),
+        transactionRetry(this.logger, true)
+      );
 
       this.logger?.info('Challenge accepted', {
         challengeId: challenge.id,
         txId: result.transaction_id,
       });
     } catch (error) {
-      this.logger?.error('Failed to accept challenge', {
-        challengeId: challenge.id,
-        error: error instanceof Error ? error.message : String(error),
-      });
+      logTransactionFailure(this.logger, 'Failed to accept challenge', error, { challengeId: challenge.id });
     }
   }
 }
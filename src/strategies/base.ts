@@ -7,8 +7,11 @@ export interface TradingStrategy {
   /** Strategy name for display */
   name: string;
 
-  /** Bot mode this strategy implements */
-  mode: 'resolver' | 'passive' | 'aggressive';
+  /** Registered strategy name this instance implements */
+  mode: string;
+
+  /** Effective strategy parameters (profile values after validation and defaults) */
+  readonly params?: unknown;
 
   /**
    * Called on each tick of the main loop
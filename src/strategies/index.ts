@@ -2,66 +2,78 @@ export { TradingStrategy, StrategyContext } from './base';
 export { ResolverStrategy } from './resolver';
 export { PassiveStrategy } from './passive';
 export { AggressiveStrategy } from './aggressive';
+export { MIN_STAKE, PayoutTerms, SizingOptions, StakeSizing, netOdds, sizeStake, maxStake, sizeForRisk, sizeAccept } from './sizing';
+export {
+  StrategyDependencies,
+  StrategyDefinition,
+  registerStrategy,
+  getStrategyDefinition,
+  listStrategies,
+  createStrategy,
+  loadStrategyModule,
+  loadStrategyModules,
+} from './registry';
 
-import { TradingStrategy } from './base';
+import { z } from 'zod';
 import { ResolverStrategy } from './resolver';
 import { PassiveStrategy } from './passive';
 import { AggressiveStrategy } from './aggressive';
-import { ResolverService, ChallengeService, OracleService, MarketDataService } from '../services';
-import { PriceBattleActions } from '../blockchain';
-import { DatabaseQueries } from '../db';
-import { BotConfig, BotMode } from '../types';
-import { Logger } from '../utils';
+import { registerStrategy } from './registry';
+import { PassiveProfileSchema, AggressiveProfileSchema } from '../config/schema';
+import { PassiveProfile, AggressiveProfile } from '../types';
 
-export interface StrategyDependencies {
-  resolverService: ResolverService;
-  challengeService: ChallengeService;
-  oracleService: OracleService;
-  marketDataService: MarketDataService;
-  actions: PriceBattleActions;
-  db: DatabaseQueries;
-  config: BotConfig;
-  logger?: Logger;
-}
+// The resolver takes no parameters. STRATEGY_PARAMS is usually set for a trading
+// mode, so its keys are dropped here rather than stopping a resolver-only run.
+const NoParamsSchema = z.object({});
 
-/**
- * Create a strategy instance based on bot mode
- */
-export function createStrategy(
-  mode: BotMode,
-  deps: StrategyDependencies
-): TradingStrategy {
-  const { resolverService, challengeService, oracleService, marketDataService, actions, db, config, logger } = deps;
+registerStrategy({
+  name: 'resolver',
+  description: 'Only resolve and expire battles for the resolver fee (zero risk)',
+  requiresAI: false,
+  paramsSchema: NoParamsSchema,
+  create: ({ resolverService, logger }) => new ResolverStrategy(resolverService, logger),
+});
 
-  switch (mode) {
-    case 'resolver':
-      return new ResolverStrategy(resolverService, logger);
+registerStrategy<PassiveProfile>({
+  name: 'passive',
+  description: 'Conservative AI trading, high-confidence signals only',
+  paramsSchema: PassiveProfileSchema,
+  create: (deps, params) =>
+    new PassiveStrategy(
+      deps.resolverService,
+      deps.settlementService,
+      deps.challengeService,
+      deps.contractRules,
+      deps.oracleService,
+      deps.marketDataService,
+      deps.actions,
+      deps.db,
+      deps.config,
+      params,
+      deps.logger,
+      deps.aiClient,
+      deps.resources
+    ),
+});
 
-    case 'passive':
-      return new PassiveStrategy(
-        resolverService,
-        challengeService,
-        oracleService,
-        marketDataService,
-        actions,
-        db,
-        config,
-        logger
-      );
-
-    case 'aggressive':
-      return new AggressiveStrategy(
-        resolverService,
-        challengeService,
-        oracleService,
-        marketDataService,
-        actions,
-        db,
-        config,
-        logger
-      );
-
-    default:
-      throw new Error(`Unknown bot mode: ${mode}`);
-  }
-}
+registerStrategy<AggressiveProfile>({
+  name: 'aggressive',
+  description: 'Active AI trading with lower thresholds',
+  paramsSchema: AggressiveProfileSchema,
+  create: (deps, params) =>
+    new AggressiveStrategy(
+      deps.resolverService,
+      deps.settlementService,
+      deps.challengeService,
+      deps.contractRules,
+      deps.oracleService,
+      deps.marketDataService,
+      deps.actions,
+      deps.db,
+      deps.config,
+      params,
+      deps.logger,
+      deps.aiClient,
+      deps.resources
+    ),
+});
@@ -1,8 +1,31 @@
 import { TradingStrategy } from './base';
-import { ResolverService, ChallengeService, OracleService, MarketDataService } from '../services';
+import { MIN_STAKE, StakeSizing, sizeForRisk, sizeAccept } from './sizing';
+import {
+  AIBudget,
+  ConfidenceCalibrator,
+  durationWindow,
+  logTransactionFailure,
+  recordAIFailure,
+  transactionRetry,
+} from './shared';
+import {
+  ResolverService,
+  SettlementService,
+  ChallengeService,
+  ContractRulesService,
+  ResourceMonitor,
+  OracleService,
+  MarketDataService,
+} from '../services';
 import { PriceBattleActions } from '../blockchain';
 import { DatabaseQueries } from '../db';
-import { createAIClient, buildPredictionPrompt } from '../ai';
+import {
+  createAIClient,
+  createPromptSelector,
+  buildPredictionPrompt,
+  buildAcceptPrompt,
+  PromptSelector,
+} from '../ai';
 import {
   Challenge,
   CreateDecision,
@@ -10,13 +33,17 @@ import {
   PredictionContext,
   AIClient,
   BotConfig,
+  PriceBattleConfig,
+  PassiveProfile,
   DIRECTION,
+  ASSETS,
+  OracleIndex,
 } from '../types';
-import { Logger, formatXPRWithSymbol } from '../utils';
+import { Logger, nowMs, formatXPRWithSymbol, withRetry } from '../utils';
 
 /**
  * Passive trading strategy
- * - Only creates challenges when AI has high confidence (>= 75%)
+ * - Only creates challenges when AI has high confidence (>= 75% by default)
  * - Only accepts challenges when AI has high confidence
  * - Uses conservative stake percentages
  * - Always resolves expired battles
@@ -26,45 +53,57 @@ export class PassiveStrategy implements TradingStrategy {
   mode = 'passive' as const;
 
   private resolverService: ResolverService;
+  private settlementService: SettlementService;
   private challengeService: ChallengeService;
+  private contractRules: ContractRulesService;
   private oracleService: OracleService;
   private marketDataService: MarketDataService;
   private actions: PriceBattleActions;
   private db: DatabaseQueries;
   private aiClient: AIClient;
+  private prompts: PromptSelector; // prediction template, or an A/B split between two
   private config: BotConfig;
   private logger?: Logger;
+  private resources?: ResourceMonitor; // account CPU/NET/RAM
 
-  // Confidence thresholds for passive mode
-  private readonly MIN_CREATE_CONFIDENCE = 75;
-  private readonly MIN_ACCEPT_CONFIDENCE = 75;
-  private readonly MAX_STAKE_PERCENT = 3;
-  private readonly MAX_CREATE_STAKE = 100; // Max 100 XPR when creating challenges (conservative)
-  private readonly CREATE_COOLDOWN_MS = 120000; // 2 minutes between creates (more conservative)
-  private readonly MAX_PRICE_MOVE_PERCENT = 0.3; // More conservative - skip if price moved > 0.3%
-  private readonly MIN_DURATION = 14400; // 4 hours minimum - longer timeframes during quiet periods
-  private readonly MAX_DURATION = 86400; // 24 hours max
-  private lastCreateTime = 0;
+  // Thresholds, stake caps and duration window (from the strategy profile)
+  readonly params: PassiveProfile;
+  private lastCreateTimes = new Map<OracleIndex, number>(); // per feed
+  private aiBudget: AIBudget;
+  private calibration: ConfidenceCalibrator;
+  private contract: PriceBattleConfig | null = null; // contract settings, refreshed every tick
 
   constructor(
     resolverService: ResolverService,
+    settlementService: SettlementService,
     challengeService: ChallengeService,
+    contractRules: ContractRulesService,
     oracleService: OracleService,
     marketDataService: MarketDataService,
     actions: PriceBattleActions,
     db: DatabaseQueries,
     config: BotConfig,
-    logger?: Logger
+    params: PassiveProfile,
+    logger?: Logger,
+    aiClient?: AIClient,
+    resources?: ResourceMonitor
   ) {
     this.resolverService = resolverService;
+    this.settlementService = settlementService;
     this.challengeService = challengeService;
+    this.contractRules = contractRules;
     this.oracleService = oracleService;
     this.marketDataService = marketDataService;
     this.actions = actions;
     this.db = db;
     this.config = config;
+    this.params = params;
     this.logger = logger;
-    this.aiClient = createAIClient(config.ai, logger);
+    this.aiClient = aiClient ?? createAIClient(config.ai, logger);
+    this.prompts = createPromptSelector(config.ai.prompts);
+    this.aiBudget = new AIBudget(config.ai, db, logger);
+    this.calibration = new ConfidenceCalibrator(config.ai, db, config.paper);
+    this.resources = resources;
   }
 
   async tick(): Promise<void> {
@@ -72,38 +111,65 @@ export class PassiveStrategy implements TradingStrategy {
     await this.resolveExpired();
     await this.expireExpired();
 
-    // Check if contract is paused
-    if (await this.challengeService.isPaused()) {
+    // Book any of our battles that have finished since the last tick, and refit
+    // the confidence calibration on them
+    await this.settlementService.settleAll();
+    this.calibration.refresh();
+
+    // Check if contract is paused (the duration limits are used when creating)
+    this.contract = await this.contractRules.getConfig();
+    if (this.contract?.paused) {
       this.logger?.warn('Contract is paused, skipping trading');
       return;
     }
 
-    // Get current context
-    const context = await this.buildContext();
+    // Creates and accepts wait while the account is short of CPU/NET/RAM, so resolves still go through
+    if (this.resources && !(await this.resources.allows('low'))) {
+      return;
+    }
+
+    // Get current context for each traded feed (a feed that fails sits this tick out)
+    const contexts = new Map<number, PredictionContext>();
+    for (const oracleIndex of this.config.feeds) {
+      try {
+        contexts.set(oracleIndex, await this.buildContext(oracleIndex));
+      } catch (error) {
+        this.logger?.error('Failed to build context, skipping feed', {
+          asset: ASSETS[oracleIndex].symbol,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
 
     // Check if we can create new challenges
     const activeCount = await this.challengeService.getOurActiveChallengesCount();
     const openChallenges = await this.challengeService.getOpenChallenges();
     const ourOpenCount = openChallenges.filter(c => c.creator === this.config.account).length;
-    const totalOurChallenges = activeCount + ourOpenCount;
-
-    // Check cooldown and challenge limits before creating
-    const now = Date.now();
-    const cooldownOk = now - this.lastCreateTime >= this.CREATE_COOLDOWN_MS;
-
-    if (totalOurChallenges < this.config.risk.maxConcurrentChallenges && cooldownOk) {
-      const createDecision = await this.shouldCreate(context);
-      if (createDecision) {
-        await this.executeCreate(createDecision, context);
-        this.lastCreateTime = now;
+    let totalOurChallenges = activeCount + ourOpenCount;
+
+    for (const context of contexts.values()) {
+      // Check cooldown and challenge limits before creating
+      const now = nowMs();
+      const cooldownOk = now - (this.lastCreateTimes.get(context.oracleIndex) ?? 0) >= this.params.createCooldownMs;
+
+      if (totalOurChallenges < this.config.risk.maxConcurrentChallenges && cooldownOk) {
+        const createDecision = await this.shouldCreate(context);
+        if (createDecision) {
+          await this.executeCreate(createDecision, context);
+          this.lastCreateTimes.set(context.oracleIndex, now);
+          totalOurChallenges++;
+        }
       }
     }
 
-    // Check for challenges to accept
+    // Check for challenges to accept (only on feeds we trade)
     const acceptable = await this.challengeService.getAcceptableChallenges();
     for (const challenge of acceptable) {
       if (activeCount >= this.config.risk.maxConcurrentChallenges) break;
 
+      const context = contexts.get(challenge.oracle_index);
+      if (!context) continue;
+
       if (await this.shouldAccept(challenge, context)) {
         await this.executeAccept(challenge, context);
       }
@@ -112,8 +178,19 @@ export class PassiveStrategy implements TradingStrategy {
 
   async shouldCreate(context: PredictionContext): Promise<CreateDecision | null> {
     try {
-      const prompt = buildPredictionPrompt(context);
-      const analysis = await this.aiClient.analyze(prompt);
+      if (this.aiBudget.exhausted()) return null;
+
+      const template = this.prompts.pick(context);
+      const window = durationWindow(this.params, this.contract, this.logger);
+      if (!window) return null;
+
+      const prompt = buildPredictionPrompt(context, template, {
+        durationWindow: window,
+        durationStats: this.db.getDurationPerformance(this.config.paper),
+      });
+      const analysis = await this.aiClient
+        .analyze(prompt, context)
+        .catch((error) => recordAIFailure(this.db, this.config.ai, error, context));
 
       // Log decision
       this.db.logDecision({
@@ -123,38 +200,55 @@ export class PassiveStrategy implements TradingStrategy {
         reasoning: analysis.reasoning,
         aiProvider: this.config.ai.provider,
         priceAtDecision: context.currentPrice,
+        usage: analysis.usage,
+        votes: analysis.votes,
+        prompt: template,
       });
 
-      // Only proceed with high confidence
+      // Only proceed with high confidence (as calibrated against our settled battles)
+      const probability = this.calibration.calibrate(analysis.confidence);
       if (
         analysis.direction === 'NEUTRAL' ||
-        analysis.confidence < this.MIN_CREATE_CONFIDENCE
+        probability < this.params.minCreateConfidence
       ) {
         this.logger?.info('Skipping create - low confidence', {
           direction: analysis.direction,
           confidence: analysis.confidence,
+          calibrated: Math.round(probability),
         });
         return null;
       }
 
-      // Use conservative stake
-      const stakePercent = Math.min(
-        analysis.suggestedStake,
-        this.MAX_STAKE_PERCENT,
-        this.config.risk.maxPercentPerChallenge
+      // Size by calibrated expected value after fees: fractional Kelly, within the AI's suggestion and the caps
+      const sizing = sizeForRisk(
+        probability,
+        this.contract,
+        this.config.risk,
+        Math.min(analysis.suggestedStake, this.params.maxStakePercent, this.config.risk.maxPercentPerChallenge)
       );
+      if (!sizing.tradable) {
+        this.logger?.info('Skipping create - expected value too low', {
+          direction: analysis.direction,
+          calibrated: Math.round(probability),
+          expectedValue: `${sizing.expectedValue.toFixed(1)}%`,
+          minEdge: `${this.config.risk.minEdgePercent}%`,
+        });
+        return null;
+      }
+      const stakePercent = sizing.stakePercent;
 
-      // Enforce duration limits (4 hours to 24 hours)
-      const duration = Math.max(
-        this.MIN_DURATION,
-        Math.min(analysis.recommendedDuration, this.MAX_DURATION)
-      );
+      // The prompt offers durations within the window; clamp in case the model strays
+      const duration = Math.max(window.min, Math.min(analysis.recommendedDuration, window.max));
 
       return {
+        oracleIndex: context.oracleIndex,
         direction: analysis.direction === 'UP' ? DIRECTION.UP : DIRECTION.DOWN,
         duration,
         stakePercent,
+        confidence: analysis.confidence,
         reasoning: analysis.reasoning,
+        votes: analysis.votes,
+        prompt: template,
       };
     } catch (error) {
       this.logger?.error('Failed to get AI prediction', {
@@ -170,31 +264,31 @@ export class PassiveStrategy implements TradingStrategy {
   ): Promise<boolean> {
     try {
       // Check duration limits - only accept 4 hour to 24 hour challenges
-      if (challenge.duration < this.MIN_DURATION) {
+      if (challenge.duration < this.params.minDuration) {
         this.logger?.debug('Skipping challenge - duration too short', {
           challengeId: challenge.id,
           duration: challenge.duration,
-          minDuration: this.MIN_DURATION,
+          minDuration: this.params.minDuration,
         });
         return false;
       }
 
-      if (challenge.duration > this.MAX_DURATION) {
+      if (challenge.duration > this.params.maxDuration) {
         this.logger?.debug('Skipping challenge - duration too long', {
           challengeId: challenge.id,
           duration: challenge.duration,
-          maxDuration: this.MAX_DURATION,
+          maxDuration: this.params.maxDuration,
         });
         return false;
       }
 
       // Check if price has moved significantly since challenge was created
-      const priceAtCreation = this.db.getPriceAt(challenge.created_at);
+      const priceAtCreation = this.db.getPriceAt(challenge.created_at, challenge.oracle_index);
       if (priceAtCreation) {
         const priceChangePercent = ((context.currentPrice - priceAtCreation) / priceAtCreation) * 100;
         const absChange = Math.abs(priceChangePercent);
 
-        if (absChange > this.MAX_PRICE_MOVE_PERCENT) {
+        if (absChange > this.params.maxPriceMovePercent) {
           const priceWentUp = priceChangePercent > 0;
           const creatorBetUp = challenge.direction === 1;
 
@@ -204,41 +298,60 @@ export class PassiveStrategy implements TradingStrategy {
               challengeId: challenge.id,
               priceChange: `${priceChangePercent >= 0 ? '+' : ''}${priceChangePercent.toFixed(3)}%`,
               creatorDirection: creatorBetUp ? 'UP' : 'DOWN',
-              maxAllowed: `${this.MAX_PRICE_MOVE_PERCENT}%`,
+              maxAllowed: `${this.params.maxPriceMovePercent}%`,
             });
             return false;
           }
         }
       }
 
-      // Use the same prediction logic as for creating challenges
-      const prompt = buildPredictionPrompt(context);
-      const analysis = await this.aiClient.analyze(prompt);
+      if (this.aiBudget.exhausted()) return false;
+
+      // Ask the AI about this specific challenge (duration, stake, creator, drift since creation)
+      const creatorStats = await this.challengeService
+        .getPlayerStats(challenge.creator)
+        .catch(() => undefined);
+      const prompt = buildAcceptPrompt(challenge, context, { creatorStats, priceAtCreation });
+      const analysis = await this.aiClient
+        .evaluateAccept(prompt, context, challenge)
+        .catch((error) => recordAIFailure(this.db, this.config.ai, error, context, challenge.id));
 
-      // Determine what direction we'd take if we accept
       // Creator UP (1) -> we take DOWN, Creator DOWN (2) -> we take UP
       const ourDirection = challenge.direction === 1 ? 'DOWN' : 'UP';
-      const predictionMatchesOurSide = analysis.direction === ourDirection;
+      const probability = this.calibration.calibrate(analysis.confidence);
+      let reason = !analysis.accept ? 'AI declined' : probability < this.params.minAcceptConfidence ? 'low confidence' : undefined;
+
+      // The stake is the challenger's: take it only with an edge after fees, and up to the Kelly stake
+      let sizing: StakeSizing | undefined;
+      if (!reason) {
+        const stake = parseInt(challenge.amount, 10) / 10000; // Convert from raw to XPR
+        const balance = await this.challengeService.getBalance();
+        ({ sizing, reason } = sizeAccept(probability, stake, balance, this.contract, this.config.risk));
+      }
+      const accept = !reason;
 
-      // Log decision
+      // Log decision against the challenge
       this.db.logDecision({
         challengeId: challenge.id,
-        action: predictionMatchesOurSide && analysis.confidence >= this.MIN_ACCEPT_CONFIDENCE ? 'accept' : 'skip',
+        action: accept ? 'accept' : 'skip',
         direction: ourDirection,
         confidence: analysis.confidence,
         reasoning: analysis.reasoning,
         aiProvider: this.config.ai.provider,
         priceAtDecision: context.currentPrice,
+        usage: analysis.usage,
+        votes: analysis.votes,
       });
 
-      // Accept if AI predicts the same direction we'd take and confidence is high enough
-      if (!predictionMatchesOurSide || analysis.confidence < this.MIN_ACCEPT_CONFIDENCE) {
+      if (!accept) {
         this.logger?.debug('Skipping challenge', {
           challengeId: challenge.id,
           ourDirection,
-          aiPrediction: analysis.direction,
+          aiAccept: analysis.accept,
           confidence: analysis.confidence,
-          reason: !predictionMatchesOurSide ? 'direction mismatch' : 'low confidence',
+          calibrated: Math.round(probability),
+          expectedValue: sizing ? `${sizing.expectedValue.toFixed(1)}%` : undefined,
+          reason,
         });
         return false;
       }
@@ -247,6 +360,8 @@ export class PassiveStrategy implements TradingStrategy {
         challengeId: challenge.id,
         ourDirection,
         confidence: analysis.confidence,
+        calibrated: Math.round(probability),
+        expectedValue: `${sizing!.expectedValue.toFixed(1)}%`,
       });
 
       return true;
@@ -267,24 +382,28 @@ export class PassiveStrategy implements TradingStrategy {
     return this.resolverService.expireAll();
   }
 
-  private async buildContext(): Promise<PredictionContext> {
+  private async buildContext(oracleIndex: OracleIndex): Promise<PredictionContext> {
+    const asset = ASSETS[oracleIndex];
     const [{ price }, priceHistory, performance] = await Promise.all([
-      this.oracleService.getBTCPrice(),
-      Promise.resolve(this.db.getRecentPrices(60)),
-      Promise.resolve(this.db.getPerformance()),
+      this.oracleService.getPrice(oracleIndex),
+      Promise.resolve(this.db.getRecentPrices(60, oracleIndex)),
+      Promise.resolve(this.db.getPerformance(undefined, this.config.paper)),
     ]);
 
     // Try to get enhanced market data from CoinGecko
     let marketData;
     try {
-      marketData = await this.marketDataService.getBTCMarketData();
+      marketData = await this.marketDataService.getMarketData(asset.coingeckoId);
     } catch (error) {
       this.logger?.warn('Failed to fetch market data, using basic context', {
+        asset: asset.symbol,
         error: error instanceof Error ? error.message : String(error),
       });
     }
 
     const context: PredictionContext = {
+      asset: asset.symbol,
+      oracleIndex,
       currentPrice: price,
       priceHistory: priceHistory.reverse(), // Oldest first
       performance,
@@ -326,35 +445,51 @@ export class PassiveStrategy implements TradingStrategy {
       const minReserve = this.config.risk.minBalanceReserve;
       const availableBalance = Math.max(0, balance - minReserve);
 
-      // Minimum stake of 100 XPR
-      const MIN_STAKE = 100;
+      // Our 100 XPR floor, or the contract's minimum stake if higher
+      const limits = this.contract ? this.contractRules.stakeLimits(this.contract) : { min: 0, max: Infinity };
+      const minStake = Math.max(MIN_STAKE, limits.min);
 
       // Check if we have enough balance
-      if (availableBalance < MIN_STAKE) {
+      if (availableBalance < minStake) {
         this.logger?.info('Skipping create - insufficient balance', {
           balance,
           availableBalance,
-          requiredMin: MIN_STAKE,
+          requiredMin: minStake,
         });
         return;
       }
 
-      // Use conservative stake (capped at MAX_STAKE_PERCENT)
-      const stakePercent = Math.min(decision.stakePercent, this.MAX_STAKE_PERCENT, this.config.risk.maxPercentPerChallenge);
+      // Use conservative stake (capped at maxStakePercent)
+      const stakePercent = Math.min(decision.stakePercent, this.params.maxStakePercent, this.config.risk.maxPercentPerChallenge);
+      // A zero stake means sizing found no edge; never raise it to the minimum
+      if (stakePercent <= 0) {
+        this.logger?.info('Skipping create - no stake sized', { stakePercent: decision.stakePercent });
+        return;
+      }
       let stakeAmount = Math.floor(availableBalance * (stakePercent / 100));
 
-      // Cap at MAX_CREATE_STAKE
-      stakeAmount = Math.min(stakeAmount, this.MAX_CREATE_STAKE);
+      // Cap at maxCreateStake
+      stakeAmount = Math.min(stakeAmount, this.params.maxCreateStake);
 
       // Round down to nearest 100 XPR for cleaner amounts
       stakeAmount = Math.floor(stakeAmount / 100) * 100;
 
-      // Ensure at least MIN_STAKE
-      stakeAmount = Math.max(stakeAmount, MIN_STAKE);
+      // Ensure at least the minimum stake, and no more than the contract allows
+      stakeAmount = Math.min(Math.max(stakeAmount, minStake), limits.max);
+
+      // Validate against the contract's current limits before signing
+      const check = await this.contractRules.checkCreate({
+        stake: stakeAmount,
+        duration: decision.duration,
+        oracleIndex: decision.oracleIndex,
+        volatility24h: context.volatility24h,
+      });
+      if (!check.ok) return;
 
       const amount = `${stakeAmount.toFixed(4)} XPR`;
 
       this.logger?.info('Creating challenge', {
+        asset: context.asset,
         direction: decision.direction === 1 ? 'UP' : 'DOWN',
         duration: decision.duration,
         amount,
@@ -363,26 +498,34 @@ export class PassiveStrategy implements TradingStrategy {
         reasoning: decision.reasoning,
       });
 
-      const result = await this.actions.createChallenge({
-        amount,
-        direction: decision.direction,
-        duration: decision.duration,
-      });
+      const result = await withRetry(
+        () =>
+          this.actions.createChallenge({
+            amount,
+            oracleIndex: decision.oracleIndex,
+            direction: decision.direction,
+            duration: decision.duration,
+          }),
+        transactionRetry(this.logger, false)
+      );
 
       this.db.logDecision({
         action: 'create',
         direction: decision.direction === 1 ? 'UP' : 'DOWN',
+        confidence: decision.confidence,
         reasoning: decision.reasoning,
         priceAtDecision: context.currentPrice,
+        votes: decision.votes,
+        prompt: decision.prompt,
+        oracleIndex: decision.oracleIndex,
+        txId: result.transaction_id,
       });
 
       this.logger?.info('Challenge created', {
         txId: result.transaction_id,
       });
     } catch (error) {
-      this.logger?.error('Failed to create challenge', {
-        error: error instanceof Error ? error.message : String(error),
-      });
+      logTransactionFailure(this.logger, 'Failed to create challenge', error);
     }
   }
 
@@ -391,28 +534,30 @@ export class PassiveStrategy implements TradingStrategy {
     context: PredictionContext
   ): Promise<void> {
     try {
+      // Validate against the contract's current limits before signing
+      const check = await this.contractRules.checkAccept(challenge, this.config.account);
+      if (!check.ok) return;
+
       const amount = formatXPRWithSymbol(challenge.amount);
 
       this.logger?.info('Accepting challenge', {
         challengeId: challenge.id,
+        asset: context.asset,
         amount,
       });
 
       // Contract fetches price directly from oracle
-      const result = await this.actions.acceptChallenge({
-        challengeId: challenge.id,
-        amount,
-      });
+      const result = await withRetry(
+        () => this.actions.acceptChallenge({ challengeId: challenge.id, amount }),
+        transactionRetry(this.logger, true)
+      );
 
       this.logger?.info('Challenge accepted', {
         challengeId: challenge.id,
         txId: result.transaction_id,
       });
     } catch (error) {
-      this.logger?.error('Failed to accept challenge', {
-        challengeId: challenge.id,
-        error: error instanceof Error ? error.message : String(error),
-      });
+      logTransactionFailure(this.logger, 'Failed to accept challenge', error, { challengeId: challenge.id });
     }
   }
 }
@@ -0,0 +1,151 @@
+import * as path from 'path';
+import { z } from 'zod';
+import { TradingStrategy } from './base';
+import {
+  ResolverService,
+  SettlementService,
+  ChallengeService,
+  ContractRulesService,
+  ResourceMonitor,
+  OracleService,
+  MarketDataService,
+} from '../services';
+import { PriceBattleActions } from '../blockchain';
+import { DatabaseQueries } from '../db';
+import { AIClient, BotConfig } from '../types';
+import { Logger } from '../utils';
+
+export interface StrategyDependencies {
+  resolverService: ResolverService;
+  settlementService: SettlementService;
+  challengeService: ChallengeService;
+  contractRules: ContractRulesService; // cached contract settings; check creates/accepts before signing
+  oracleService: OracleService;
+  marketDataService: MarketDataService;
+  actions: PriceBattleActions;
+  db: DatabaseQueries;
+  config: BotConfig;
+  logger?: Logger;
+  resources?: ResourceMonitor; // account CPU/NET/RAM; trading waits while they are low
+  aiClient?: AIClient; // Shared client (cached provider, or an offline stand-in); strategies create their own if unset
+}
+
+/**
+ * A named strategy that can be selected with --mode
+ */
+export interface StrategyDefinition<TParams = unknown> {
+  /** Name used with --mode */
+  name: string;
+
+  /** One-line description for --help */
+  description?: string;
+
+  /** Whether the strategy calls the AI provider (requires an API key). Defaults to true */
+  requiresAI?: boolean;
+
+  /** Schema for strategy-specific parameters (STRATEGY_PARAMS / --strategy-params) */
+  paramsSchema?: z.ZodType<TParams, z.ZodTypeDef, unknown>;
+
+  /** Build the strategy with the bot's services and the validated parameters */
+  create(deps: StrategyDependencies, params: TParams): TradingStrategy;
+}
+
+const registry = new Map<string, StrategyDefinition<any>>();
+const loadedModules = new Set<string>();
+
+/**
+ * Register a strategy under its name
+ */
+export function registerStrategy<TParams>(definition: StrategyDefinition<TParams>): void {
+  const existing = registry.get(definition.name);
+  if (existing && existing !== definition) {
+    throw new Error(`Strategy "${definition.name}" is already registered`);
+  }
+  registry.set(definition.name, definition);
+}
+
+export function getStrategyDefinition(name: string): StrategyDefinition<any> | undefined {
+  return registry.get(name);
+}
+
+/**
+ * Names of all registered strategies, in registration order
+ */
+export function listStrategies(): string[] {
+  return [...registry.keys()];
+}
+
+/**
+ * Create a strategy instance by name, validating its parameters
+ */
+export function createStrategy(
+  mode: string,
+  deps: StrategyDependencies,
+  params: unknown = deps.config.strategyParams
+): TradingStrategy {
+  const definition = registry.get(mode);
+  if (!definition) {
+    throw new Error(`Unknown bot mode: ${mode}. Available: ${listStrategies().join(', ')}`);
+  }
+
+  let parsed: unknown = params ?? {};
+  if (definition.paramsSchema) {
+    const result = definition.paramsSchema.safeParse(parsed);
+    if (!result.success) {
+      const errors = result.error.errors.map((e) => `${e.path.join('.') || '(root)'}: ${e.message}`);
+      throw new Error(`Invalid parameters for strategy "${mode}":\n${errors.join('\n')}`);
+    }
+    parsed = result.data;
+  }
+
+  return definition.create(deps, parsed);
+}
+
+/**
+ * Load a strategy module by file path or package name and register what it exports.
+ * The module exports a StrategyDefinition (as `default` or `strategy`),
+ * or an array of them (as `strategies`).
+ */
+export function loadStrategyModule(specifier: string): StrategyDefinition<any>[] {
+  const isPath = specifier.startsWith('.') || path.isAbsolute(specifier);
+  const resolved = isPath ? path.resolve(process.cwd(), specifier) : specifier;
+
+  let mod: any;
+  try {
+    mod = require(resolved);
+  } catch (error) {
+    throw new Error(
+      `Failed to load strategy module "${specifier}": ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  const definitions: StrategyDefinition<any>[] = [
+    ...(Array.isArray(mod.strategies) ? mod.strategies : []),
+    ...[mod.strategy, mod.default].filter(Boolean),
+  ];
+
+  const valid = definitions.filter(
+    (d) => typeof d?.name === 'string' && typeof d?.create === 'function'
+  );
+  if (valid.length === 0) {
+    throw new Error(
+      `Strategy module "${specifier}" does not export a strategy (expected default, strategy or strategies)`
+    );
+  }
+
+  if (!loadedModules.has(resolved)) {
+    valid.forEach((d) => registerStrategy(d));
+    loadedModules.add(resolved);
+  }
+
+  return valid;
+}
+
+/**
+ * Load every configured strategy module (safe to call more than once)
+ */
+export function loadStrategyModules(specifiers: string[]): void {
+  for (const specifier of specifiers) {
+    loadStrategyModule(specifier);
+  }
+}
@@ -0,0 +1,167 @@
+import { AIResponseError, CalibrationModel } from '../ai';
+import { classifyContractError } from '../blockchain';
+import { DatabaseQueries } from '../db';
+import { AIConfig, ContractErrorCategory, PredictionContext, PriceBattleConfig } from '../types';
+import { Logger, RetryOptions, todayDate } from '../utils';
+
+// Helpers shared by the AI trading strategies (passive and aggressive)
+
+/**
+ * The daily AI spend limit (AI_DAILY_BUDGET_USD)
+ */
+export class AIBudget {
+  private config: AIConfig;
+  private db: DatabaseQueries;
+  private logger?: Logger;
+  private warnedOn?: string; // date the budget warning was logged
+
+  constructor(config: AIConfig, db: DatabaseQueries, logger?: Logger) {
+    this.config = config;
+    this.db = db;
+    this.logger = logger;
+  }
+
+  /**
+   * Whether today's AI spend has reached the daily budget (warns once per day)
+   */
+  exhausted(): boolean {
+    const budget = this.config.dailyBudget;
+    if (budget === undefined) return false;
+
+    const spent = this.db.getAISpend();
+    if (spent < budget) return false;
+
+    const today = todayDate();
+    if (this.warnedOn !== today) {
+      this.warnedOn = today;
+      this.logger?.warn('Daily AI budget reached, skipping AI calls until tomorrow (UTC)', {
+        spentUsd: spent.toFixed(4),
+        budgetUsd: budget,
+      });
+    }
+    return true;
+  }
+}
+
+/**
+ * Maps the AI's stated confidence to a win probability with an isotonic fit on
+ * settled battles (the stated confidence until there are enough of them).
+ * The fit is redone by refresh(), once per tick, not per decision.
+ */
+export class ConfidenceCalibrator {
+  private config: AIConfig;
+  private db: DatabaseQueries;
+  private paper: boolean;
+  private model: CalibrationModel | null = null;
+
+  constructor(config: AIConfig, db: DatabaseQueries, paper: boolean = false) {
+    this.config = config;
+    this.db = db;
+    this.paper = paper;
+  }
+
+  /**
+   * Refit on the battles settled so far (paper ones when paper trading)
+   */
+  refresh(): void {
+    const { method, minSamples } = this.config.calibration;
+    this.model = method === 'off' ? null : CalibrationModel.fit(this.db.getCalibrationSamples(this.paper), minSamples);
+  }
+
+  /**
+   * Win probability (0-100) for a stated confidence
+   */
+  calibrate(confidence: number): number {
+    if (this.config.calibration.method === 'off') return confidence;
+    if (!this.model) this.refresh();
+    return this.model!.calibrate(confidence);
+  }
+}
+
+/**
+ * Record a failed AI call as its own decision outcome (with the cost of any
+ * invalid responses), then rethrow
+ */
+export function recordAIFailure(
+  db: DatabaseQueries,
+  config: AIConfig,
+  error: unknown,
+  context: PredictionContext,
+  challengeId?: number
+): never {
+  db.logDecision({
+    challengeId,
+    action: 'ai_error',
+    reasoning: error instanceof Error ? error.message : String(error),
+    aiProvider: config.provider,
+    priceAtDecision: context.currentPrice,
+    usage: error instanceof AIResponseError ? error.usage : undefined,
+  });
+  throw error;
+}
+
+/**
+ * Durations we can create with: the strategy's window within the contract's limits.
+ * Null (with a warning) when the two don't overlap.
+ */
+export function durationWindow(
+  params: { minDuration: number; maxDuration: number },
+  contract: PriceBattleConfig | null,
+  logger?: Logger
+): { min: number; max: number } | null {
+  const min = Math.max(params.minDuration, contract?.min_duration ?? 0);
+  const max = Math.min(params.maxDuration, contract?.max_duration ?? Infinity);
+  if (min > max) {
+    logger?.warn('Skipping create - strategy durations are outside the contract limits', {
+      minDuration: params.minDuration,
+      maxDuration: params.maxDuration,
+      contractMin: contract?.min_duration,
+      contractMax: contract?.max_duration,
+    });
+    return null;
+  }
+  return { min, max };
+}
+
+// Failures a create/accept is sent again for: the transaction never ran, and a
+// later try may fit in the CPU/NET or the expiry window
+const RETRY_CATEGORIES: ContractErrorCategory[] = ['expired_transaction', 'resources_exhausted'];
+
+/**
+ * Retry options for sending a create/accept. Network errors are only retried
+ * for actions that can't go through twice (accepts): a create that timed out
+ * may still have landed.
+ */
+export function transactionRetry(logger: Logger | undefined, idempotent: boolean): RetryOptions {
+  return {
+    maxRetries: 2,
+    initialDelay: 2000,
+    logger,
+    shouldRetry: (error) => {
+      const { category } = classifyContractError(error);
+      return RETRY_CATEGORIES.includes(category) || (idempotent && category === 'network');
+    },
+  };
+}
+
+/**
+ * Log a failed create/accept by its error category, after any retries: moot
+ * ones (challenge taken, contract paused) are skipped, and the rest need the
+ * operator or are left to the next tick
+ */
+export function logTransactionFailure(
+  logger: Logger | undefined,
+  message: string,
+  error: unknown,
+  details: Record<string, unknown> = {}
+): void {
+  const contractError = classifyContractError(error);
+  const meta = { ...details, error: contractError.message, category: contractError.category };
+  if (contractError.handling === 'alert') {
+    logger?.error(message, meta);
+  } else if (contractError.handling === 'retry') {
+    logger?.warn(message, meta);
+  } else {
+    logger?.info(`${message}, skipping`, meta);
+  }
+}
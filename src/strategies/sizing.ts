@@ -0,0 +1,99 @@
+import { PriceBattleConfig, RiskConfig } from '../types';
+
+// Smallest stake the strategies create or accept
+export const MIN_STAKE = 100; // XPR
+
+// What a win pays: the pot less the treasury fee and the resolver's cut
+export type PayoutTerms = Pick<PriceBattleConfig, 'fee_percent' | 'resolver_percent'>;
+
+export interface SizingOptions {
+  kellyFraction: number; // share of the full Kelly stake to bet, e.g. 0.25
+  minEdgePercent: number; // expected profit per XPR staked needed to trade, %
+  maxPercent: number; // cap on the stake, % of available balance
+}
+
+export interface StakeSizing {
+  probability: number; // win probability, 0-100
+  netOdds: number; // profit per XPR staked on a win
+  expectedValue: number; // expected profit per XPR staked, %
+  kellyPercent: number; // full Kelly stake, % of available balance
+  stakePercent: number; // fractional Kelly after the cap, 0 when not tradable
+  tradable: boolean; // expected value reaches minEdgePercent
+}
+
+/**
+ * Profit per XPR staked on a win, e.g. 0.9 with a 3% fee and 2% resolver cut
+ * (the 2x pot pays out 95%)
+ */
+export function netOdds(terms: PayoutTerms): number {
+  return (2 * (100 - terms.fee_percent - terms.resolver_percent)) / 100 - 1;
+}
+
+/**
+ * Expected value and fractional Kelly stake at a win probability (0-100).
+ * A tie only returns the stake, so it counts against the probability like a loss.
+ */
+export function sizeStake(probability: number, terms: PayoutTerms, options: SizingOptions): StakeSizing {
+  const p = Math.max(0, Math.min(probability, 100)) / 100;
+  const odds = netOdds(terms);
+  const expectedValue = (p * odds - (1 - p)) * 100;
+  const kellyPercent = odds > 0 ? Math.max(0, p - (1 - p) / odds) * 100 : 0;
+  const tradable = expectedValue > 0 && expectedValue >= options.minEdgePercent;
+
+  return {
+    probability,
+    netOdds: odds,
+    expectedValue,
+    kellyPercent,
+    stakePercent: tradable ? Math.min(kellyPercent * options.kellyFraction, options.maxPercent) : 0,
+    tradable,
+  };
+}
+
+/**
+ * Largest stake (XPR) a sizing allows from an available balance: the fractional
+ * Kelly share, but never below MIN_STAKE when the trade has an edge
+ */
+export function maxStake(sizing: StakeSizing, availableBalance: number): number {
+  if (!sizing.tradable || availableBalance < MIN_STAKE) return 0;
+  return Math.max(Math.floor(availableBalance * (sizing.stakePercent / 100)), MIN_STAKE);
+}
+
+/**
+ * sizeStake with the bot's Kelly fraction and minimum edge, against the
+ * contract's payout terms (null until the contract config is loaded)
+ */
+export function sizeForRisk(
+  probability: number,
+  terms: PayoutTerms | null,
+  risk: RiskConfig,
+  maxPercent: number
+): StakeSizing {
+  if (!terms) {
+    throw new Error('PriceBattle config not found');
+  }
+  return sizeStake(probability, terms, {
+    kellyFraction: risk.kellyFraction,
+    minEdgePercent: risk.minEdgePercent,
+    maxPercent,
+  });
+}
+
+/**
+ * Size taking a challenge's stake (XPR), which is the challenger's to set:
+ * the reason to decline when there is no edge after fees, or when the stake is
+ * above the Kelly size of the balance left after the reserve
+ */
+export function sizeAccept(
+  probability: number,
+  stake: number,
+  balance: number,
+  terms: PayoutTerms | null,
+  risk: RiskConfig
+): { sizing: StakeSizing; reason?: string } {
+  const sizing = sizeForRisk(probability, terms, risk, risk.maxPercentPerChallenge);
+  const available = Math.max(0, balance - risk.minBalanceReserve);
+  if (!sizing.tradable) return { sizing, reason: 'expected value too low' };
+  if (stake > maxStake(sizing, available)) return { sizing, reason: 'stake above Kelly size' };
+  return { sizing };
+}
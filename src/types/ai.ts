@@ -1,4 +1,64 @@
-import { Direction } from './challenge';
+import { Challenge, OracleIndex } from './challenge';
+
+// Tokens, latency and estimated cost of one API call
+export interface AIUsage {
+  inputTokens: number;
+  outputTokens: number;
+  model: string;
+  latencyMs: number;
+  costUsd: number; // estimated from the model's list price
+}
+
+// One ensemble member's answer (recorded per decision)
+export interface AIVote {
+  member: string; // provider/model
+  vote: string; // UP/DOWN/NEUTRAL, accept/reject, or 'error' if the member failed
+  confidence?: number;
+  reasoning?: string;
+  usage?: AIUsage;
+  error?: string;
+}
+
+// How an ensemble's votes are tallied, per member: votes on settled battles
+// and how often the member's vote matched the outcome
+export interface ModelVoteStats {
+  member: string;
+  votes: number;
+  errors: number;
+  settled: number; // votes for or against our side on decisions that led to a settled battle
+  neutral: number; // NEUTRAL votes on settled battles (not in settled)
+  correct: number; // voted for our side and we won, or against it and we lost
+  backedWins: number; // voted for our side, and we won
+  backedLosses: number; // voted for our side, and we lost
+  costUsd: number;
+}
+
+// Settled results of the challenges created from one prompt template version (prompts CLI)
+export interface PromptTemplateStats {
+  template: string;
+  hash: string; // content hash - an edited template is a new version
+  predictions: number;
+  created: number;
+  settled: number;
+  wins: number;
+  losses: number;
+  ties: number;
+  winRate: number; // wins / settled, %
+  pnl: number; // XPR
+  costUsd: number; // AI spend on its predictions
+  firstUsed: string;
+}
+
+// AI spend and trading results for one day (costs CLI)
+export interface DailyCosts {
+  date: string; // YYYY-MM-DD (UTC)
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  tradingPnl: number; // XPR won minus XPR lost
+  resolverEarnings: number; // XPR
+}
 
 export interface AIAnalysis {
   direction: 'UP' | 'DOWN' | 'NEUTRAL';
@@ -6,15 +66,21 @@ export interface AIAnalysis {
   reasoning: string;
   recommendedDuration: number; // seconds
   suggestedStake: number; // percentage of funds
+  usage?: AIUsage; // set by API-backed clients
+  votes?: AIVote[]; // set by the ensemble client
 }
 
 export interface AcceptAnalysis {
   accept: boolean;
   confidence: number;
   reasoning: string;
+  usage?: AIUsage; // set by API-backed clients
+  votes?: AIVote[]; // set by the ensemble client
 }
 
 export interface PredictionContext {
+  asset: string; // e.g. 'BTC'
+  oracleIndex: OracleIndex;
   currentPrice: number;
   high24h?: number;
   low24h?: number;
@@ -55,7 +121,25 @@ export interface BotPerformance {
   totalLost: number;
 }
 
+// A settled battle for confidence calibration: the confidence of the decision behind it and whether we won
+export interface CalibrationSample {
+  confidence: number; // 0-100
+  won: boolean;
+}
+
+// Settled battles of one duration (fed to the prediction prompt)
+export interface DurationPerformance {
+  duration: number; // seconds
+  settled: number;
+  wins: number;
+  losses: number;
+  ties: number;
+  winRate: number; // wins / settled, %
+}
+
 export interface AIClient {
-  analyze(prompt: string): Promise<AIAnalysis>;
-  evaluateAccept(prompt: string): Promise<AcceptAnalysis>;
+  // context is the structured data behind the prompt, for clients that don't read prompts
+  analyze(prompt: string, context?: PredictionContext): Promise<AIAnalysis>;
+  // challenge is the one being evaluated (the prompt already describes it)
+  evaluateAccept(prompt: string, context?: PredictionContext, challenge?: Challenge): Promise<AcceptAnalysis>;
 }
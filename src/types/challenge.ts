@@ -1,3 +1,5 @@
+import type { AIVote } from './ai';
+
 // Challenge status constants
 export const BATTLE_STATUS = {
   OPEN: 0,
@@ -26,6 +28,26 @@ export const ORACLE = {
 } as const;
 
 export type OracleIndex = typeof ORACLE[keyof typeof ORACLE];
+export type OracleFeed = keyof typeof ORACLE;
+
+// Tradeable assets per oracle feed (CoinGecko id used for market data)
+export interface AssetInfo {
+  symbol: string;
+  coingeckoId: string;
+}
+
+export const ASSETS: Record<OracleIndex, AssetInfo> = {
+  [ORACLE.BTC_USD]: { symbol: 'BTC', coingeckoId: 'bitcoin' },
+  [ORACLE.ETH_USD]: { symbol: 'ETH', coingeckoId: 'ethereum' },
+  [ORACLE.XPR_USD]: { symbol: 'XPR', coingeckoId: 'proton' },
+};
+
+/**
+ * Display symbol for an oracle feed (falls back to the index for unknown feeds)
+ */
+export function assetSymbol(oracleIndex: number): string {
+  return ASSETS[oracleIndex as OracleIndex]?.symbol ?? `feed #${oracleIndex}`;
+}
 
 // Duration presets in seconds
 export const DURATIONS = [
@@ -54,6 +76,25 @@ export interface Challenge {
   winner: string;
 }
 
+// State-transition events emitted by the challenge monitor
+export type ChallengeEvent = 'opened' | 'accepted' | 'expired' | 'resolved' | 'tied' | 'cancelled';
+
+export const STATUS_EVENTS: Record<BattleStatus, ChallengeEvent> = {
+  [BATTLE_STATUS.OPEN]: 'opened',
+  [BATTLE_STATUS.ACTIVE]: 'accepted',
+  [BATTLE_STATUS.RESOLVED]: 'resolved',
+  [BATTLE_STATUS.CANCELLED]: 'cancelled',
+  [BATTLE_STATUS.EXPIRED]: 'expired',
+  [BATTLE_STATUS.TIE]: 'tied',
+};
+
+export interface ChallengeTransition {
+  event: ChallengeEvent;
+  challenge: Challenge;
+  previousStatus: BattleStatus | null; // null if first seen
+  ours: boolean;
+}
+
 export interface PlayerStats {
   player: string;
   total_wagered: string;
@@ -83,12 +124,115 @@ export interface ResolveResult {
   success: boolean;
   txId?: string;
   error?: string;
+  category?: ContractErrorCategory; // why it failed, when known
   resolverReward?: number;
 }
 
+export interface SettlementResult {
+  challengeId: number;
+  role: 'creator' | 'opponent';
+  outcome: 'win' | 'loss' | 'tie';
+  stake: number; // XPR we put in
+  payout: number; // XPR paid back to us (net of fees)
+  pnl: number; // payout - stake
+}
+
+// A virtual battle in paper mode (ids are local, not on-chain)
+export interface PaperChallenge extends Challenge {
+  source_id: number | null; // on-chain challenge we paper-accepted
+  our_role: SettlementResult['role'];
+  outcome: SettlementResult['outcome'] | null;
+  payout: number | null;
+  pnl: number | null;
+  settled_at: number | null;
+}
+
+export interface PaperSummary {
+  startingBalance: number;
+  balance: number;
+  startedAt: number;
+  open: number;
+  active: number;
+  staked: number; // XPR locked in open/active paper battles
+  wins: number;
+  losses: number;
+  ties: number;
+  winRate: number;
+  pnl: number;
+}
+
+// XPR the contract sent us within one of our transactions, read from its traces
+export type ReceiptKind = 'resolver_reward' | 'payout' | 'refund';
+
+export interface Receipt {
+  challengeId?: number; // of the pricebattle action the transfer was sent from
+  action: string; // that action, e.g. resolve
+  kind: ReceiptKind;
+  amount: number; // XPR
+  memo: string;
+}
+
+// What went wrong with a failed transaction, and what the caller should do about it:
+// retry later, skip (the action is moot) or alert the operator
+export type ContractErrorCategory =
+  | 'already_resolved'
+  | 'not_open'
+  | 'not_ended'
+  | 'insufficient_balance'
+  | 'resources_exhausted'
+  | 'expired_transaction'
+  | 'duplicate'
+  | 'paused'
+  | 'network'
+  | 'unknown';
+export type ErrorHandling = 'retry' | 'skip' | 'alert';
+
+export interface ContractErrorCount {
+  category: ContractErrorCategory;
+  action: string; // e.g. pricebattle::resolve
+  count: number;
+  lastError: string;
+  lastDate: string;
+}
+
+// Bot account resources, from get_account. CPU is in microseconds, NET and RAM in bytes.
+export type ResourceKind = 'cpu' | 'net' | 'ram';
+// Resolves always run; low-priority actions (creates, accepts, expires) wait while resources are low
+export type ActionPriority = 'high' | 'low';
+
+export interface ResourceUsage {
+  used: number;
+  available: number;
+  max: number; // -1 = unlimited
+  percentAvailable: number;
+}
+
+export interface ResourceStatus {
+  cpu: ResourceUsage;
+  net: ResourceUsage;
+  ram: { quota: number; usage: number; free: number }; // quota -1 = unlimited
+  low: ResourceKind[]; // below the configured thresholds
+  checkedAt: number; // ms
+}
+
+// Outcome of our resolve of a battle against other resolvers
+export type ResolverRaceOutcome = 'won' | 'lost' | 'failed';
+
+export interface ResolverRaceStats {
+  won: number;
+  lost: number;
+  failed: number;
+  winRate: number; // % of decided races (won + lost)
+  avgLatencyMs: number; // from battle end to our submit, races we won
+}
+
 export interface CreateDecision {
+  oracleIndex: OracleIndex;
   direction: Direction;
   duration: number;
   stakePercent: number;
+  confidence: number;
   reasoning: string;
+  votes?: AIVote[]; // ensemble members' votes behind the decision
+  prompt?: { id: string; hash: string }; // template of the prediction prompt
 }
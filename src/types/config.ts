@@ -1,5 +1,15 @@
-export type BotMode = 'resolver' | 'passive' | 'aggressive';
-export type AIProvider = 'claude' | 'openai';
+import { OracleIndex } from './challenge';
+
+// Name of a registered strategy (built-in: resolver, passive, aggressive)
+export type BotMode = string;
+// 'rules' is the built-in indicator predictor: no API key, no cost
+export type AIProvider = 'claude' | 'openai' | 'openai-compatible' | 'rules';
+// How ensemble votes are combined
+export type EnsembleMode = 'majority' | 'weighted' | 'unanimous';
+// How responses are constrained: JSON mode, a JSON schema (constrained decoding) or plain text
+export type AIOutputMode = 'json' | 'json_schema' | 'text';
+// How AI confidence is mapped to win probability before thresholds are applied
+export type CalibrationMethod = 'isotonic' | 'off';
 export type ChainName = 'proton' | 'proton-test';
 
 export interface RiskConfig {
@@ -7,12 +17,38 @@ export interface RiskConfig {
   maxConcurrentChallenges: number;
   minBalanceReserve: number;
   maxDailyLoss: number;
+  kellyFraction: number; // share of the full Kelly stake to bet
+  minEdgePercent: number; // expected profit per XPR staked, after fees, needed to trade
+}
+
+// Resolve/expire actions per transaction, and the transaction's resource caps
+export interface BatchConfig {
+  maxActions: number;
+  maxCpuUsageMs?: number;
+  maxNetUsageWords?: number;
+}
+
+// Bot account CPU/NET/RAM monitoring, and optional staking for CPU/NET within a budget
+export interface ResourceConfig {
+  checkInterval: number; // ms
+  minCpuPercent: number; // share of CPU available below which resources are low
+  minNetPercent: number;
+  minRamBytes: number;
+  stakeBudget: number; // XPR the bot may stake for CPU/NET in total, 0 = never stake
+  stakeAmount: number; // XPR per stake
 }
 
 export interface IntervalConfig {
   priceCheck: number;
   challengeMonitor: number;
   resolverCheck: number;
+  resolveDelay: number; // ms after a battle's end before its scheduled resolve
+}
+
+export interface AIMemberConfig {
+  provider: AIProvider;
+  model?: string;
+  apiKey: string;
 }
 
 export interface AIConfig {
@@ -20,6 +56,64 @@ export interface AIConfig {
   apiKey: string;
   model?: string;
   maxTokens?: number;
+  baseUrl?: string; // OpenAI-compatible endpoint, e.g. http://localhost:8080/v1
+  timeout?: number; // ms per request
+  outputMode?: AIOutputMode; // 'text' turns off structured output (Claude tool use, OpenAI response_format)
+  cacheTtl: number; // seconds to reuse an identical prediction (0 = no cache)
+  dailyBudget?: number; // USD of AI spend per day before strategies stop calling the AI
+  pricing?: { input: number; output: number }; // USD per million tokens, overrides the built-in price list
+  ensemble?: { mode: EnsembleMode; members: AIMemberConfig[] }; // query several provider/model pairs instead
+  rules: RuleSet; // indicator rules of the 'rules' provider
+  fallback?: 'rules'; // answer with the rules when the AI call fails
+  prompts: PromptConfig;
+  calibration: { method: CalibrationMethod; minSamples: number }; // of confidence against settled outcomes
+}
+
+// Prediction prompt templates (files in prompts/ or PROMPT_DIR), optionally A/B tested
+export interface PromptConfig {
+  template: string; // template id, e.g. prediction-v1
+  challenger?: string; // second template to split predictions with
+  split: number; // 0-1, share of predictions that use the challenger
+  dir?: string; // custom templates, searched before the built-in ones
+}
+
+// Indicator rules of the rule-based predictor (validated by RuleSetSchema in config/schema.ts)
+export interface RuleSet {
+  rsiMeanReversion: { weight: number; overbought: number; oversold: number };
+  emaCrossover: { weight: number };
+  smaAlignment: { weight: number };
+  trendAlignment: { weight: number };
+  momentum: { weight: number };
+  minScore: number; // 0-1, |score| below this is NEUTRAL
+  maxConfidence: number; // confidence of a unanimous score
+  duration: number; // seconds
+  stakePercent: number;
+}
+
+// Tunables of the built-in strategies (validated by the profile schemas in config/schema.ts)
+export interface PassiveProfile {
+  minCreateConfidence: number;
+  minAcceptConfidence: number;
+  maxStakePercent: number;
+  maxCreateStake: number; // XPR
+  createCooldownMs: number;
+  maxPriceMovePercent: number;
+  minDuration: number; // seconds
+  maxDuration: number; // seconds
+}
+
+export interface AggressiveProfile {
+  minCreateConfidence: number;
+  minAcceptConfidence: number;
+  cautiousCreateConfidence: number;
+  cautiousAcceptConfidence: number;
+  cautiousThreshold: number; // fraction of the daily loss limit
+  createCooldownMs: number;
+  minDuration: number; // seconds
+  maxDuration: number; // seconds
+  maxAcceptStake: number; // XPR
+  maxCreateStake: number; // XPR
+  maxPriceMovePercent: number;
 }
 
 export interface BotConfig {
@@ -37,6 +131,19 @@ export interface BotConfig {
   mode: BotMode;
   dryRun: boolean;
 
+  // Strategy modules to load (file paths or package names) and strategy-specific parameters
+  // (the selected profile's section for this strategy, overridden by STRATEGY_PARAMS)
+  strategyModules: string[];
+  strategyParams: Record<string, unknown>;
+  strategyProfile?: string; // name of the profile in use, if a profile file is configured
+
+  // Paper trading: trade virtual challenges with a virtual balance
+  paper: boolean;
+  paperBalance: number;
+
+  // Oracle feeds to trade (price history, market data and challenges per feed)
+  feeds: OracleIndex[];
+
   // Risk management
   risk: RiskConfig;
 
@@ -46,6 +153,15 @@ export interface BotConfig {
   // Polling intervals
   intervals: IntervalConfig;
 
+  // Batching of resolve/expire actions
+  batch: BatchConfig;
+
+  // Account resources
+  resources: ResourceConfig;
+
+  // Secondary index position for challenge status (fetch by status instead of full table)
+  challengeStatusIndex?: number;
+
   // Database
   databasePath: string;
 
@@ -46,13 +46,14 @@ export function u64ToPrice(u64: string): number {
 
 /**
  * Format USD price for display
+ * Sub-dollar prices (e.g. XPR) keep enough decimals to be meaningful
  */
 export function formatUSD(price: number): string {
   return price.toLocaleString('en-US', {
     style: 'currency',
     currency: 'USD',
     minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
+    maximumFractionDigits: price !== 0 && Math.abs(price) < 1 ? 8 : 2,
   });
 }
 
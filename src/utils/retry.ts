@@ -5,10 +5,11 @@ export interface RetryOptions {
   initialDelay?: number;
   maxDelay?: number;
   backoffMultiplier?: number;
+  shouldRetry?: (error: Error) => boolean; // default: retry every error
   logger?: Logger;
 }
 
-const DEFAULT_OPTIONS: Required<Omit<RetryOptions, 'logger'>> = {
+const DEFAULT_OPTIONS: Required<Omit<RetryOptions, 'logger' | 'shouldRetry'>> = {
   maxRetries: 3,
   initialDelay: 1000,
   maxDelay: 30000,
@@ -29,6 +30,8 @@ export async function withRetry<T>(
     } catch (error) {
       lastError = error instanceof Error ? error : new Error(String(error));
 
+      if (opts.shouldRetry && !opts.shouldRetry(lastError)) break;
+
       if (attempt < opts.maxRetries) {
         if (opts.logger) {
           opts.logger.warn(`Attempt ${attempt + 1} failed, retrying in ${delay}ms`, {
@@ -1,8 +1,25 @@
+// Time source - swapped out by the backtester to replay history on a simulated clock
+let clock: () => number = Date.now;
+
+/**
+ * Replace the time source (pass null to restore the system clock)
+ */
+export function setClock(source: (() => number) | null): void {
+  clock = source ?? Date.now;
+}
+
+/**
+ * Get current time in milliseconds
+ */
+export function nowMs(): number {
+  return clock();
+}
+
 /**
  * Get current Unix timestamp in seconds
  */
 export function nowSeconds(): number {
-  return Math.floor(Date.now() / 1000);
+  return Math.floor(nowMs() / 1000);
 }
 
 /**
@@ -51,5 +68,5 @@ export function hasPassed(unixSeconds: number): boolean {
  * Get today's date in YYYY-MM-DD format
  */
 export function todayDate(): string {
-  return new Date().toISOString().split('T')[0];
+  return new Date(nowMs()).toISOString().split('T')[0];
 }
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { CachingAIClient, PredictionCache, durationBucket } from '../../src/ai/cache';
+import { AIAnalysis, AIClient, BATTLE_STATUS, Challenge, DIRECTION, ORACLE, PredictionContext } from '../../src/types';
+import { nowSeconds } from '../../src/utils';
+
+function context(overrides: Partial<PredictionContext> = {}): PredictionContext {
+  return {
+    asset: 'BTC',
+    oracleIndex: ORACLE.BTC_USD,
+    currentPrice: 65_000,
+    change1h: 0.42,
+    change24h: -1.3,
+    volatility24h: 2.1,
+    pricePosition: 40,
+    priceHistory: [{ price: 64_000, timestamp: 1000 }],
+    performance: { wins: 3, losses: 2, ties: 0, winRate: 60, totalWon: 300, totalLost: 200 },
+    ...overrides,
+  };
+}
+
+function challenge(overrides: Partial<Challenge> = {}): Challenge {
+  return {
+    id: 7,
+    creator: 'alice',
+    opponent: '',
+    amount: '1000000',
+    direction: DIRECTION.UP,
+    oracle_index: ORACLE.BTC_USD,
+    duration: 3600,
+    start_price: '0',
+    end_price: '0',
+    created_at: nowSeconds(),
+    started_at: 0,
+    expires_at: nowSeconds() + 7200,
+    status: BATTLE_STATUS.OPEN,
+    winner: '',
+    ...overrides,
+  };
+}
+
+// Counts calls and always predicts direction
+function client(direction: AIAnalysis['direction']) {
+  const calls = { analyze: 0, accept: 0 };
+  const inner: AIClient = {
+    async analyze() {
+      calls.analyze++;
+      return { direction, confidence: 70, reasoning: 'test', recommendedDuration: 3600, suggestedStake: 2 };
+    },
+    async evaluateAccept() {
+      calls.accept++;
+      return { accept: true, confidence: 70, reasoning: 'test' };
+    },
+  };
+  return { caching: new CachingAIClient(inner, new PredictionCache(60_000)), calls };
+}
+
+describe('durationBucket', () => {
+  it('rounds up to the smallest standard duration', () => {
+    expect(durationBucket()).toBe('any');
+    expect(durationBucket(300)).toBe('300');
+    expect(durationBucket(301)).toBe('600');
+    expect(durationBucket(7200)).toBe('14400');
+    expect(durationBucket(200_000)).toBe('86400');
+  });
+});
+
+describe('PredictionCache.key', () => {
+  it('ignores moves below the cache resolution', () => {
+    const nudged = context({ currentPrice: 65_010, change1h: 0.44, volatility24h: 2.12 });
+    expect(PredictionCache.key(nudged)).toBe(PredictionCache.key(context()));
+  });
+
+  it('changes when the market moves or the record changes', () => {
+    const key = PredictionCache.key(context());
+    expect(PredictionCache.key(context({ currentPrice: 65_200 }))).not.toBe(key);
+    expect(PredictionCache.key(context({ change24h: -1.6 }))).not.toBe(key);
+    expect(PredictionCache.key(context({ asset: 'ETH' }))).not.toBe(key);
+    const record = { wins: 4, losses: 2, ties: 0, winRate: 66.7, totalWon: 400, totalLost: 200 };
+    expect(PredictionCache.key(context({ performance: record }))).not.toBe(key);
+  });
+
+  it('includes the duration bucket and extras', () => {
+    expect(PredictionCache.key(context(), 3600, 'accept', 7)).toBe(PredictionCache.key(context(), 3000, 'accept', 7));
+    expect(PredictionCache.key(context(), 3600)).not.toBe(PredictionCache.key(context(), 14400));
+  });
+});
+
+describe('CachingAIClient', () => {
+  it('makes one prediction call for the same market', async () => {
+    const { caching, calls } = client('UP');
+    await caching.analyze('prompt', context());
+    const again = await caching.analyze('prompt', context({ currentPrice: 65_010 }));
+    expect(calls.analyze).toBe(1);
+    expect(again.usage).toBeUndefined();
+    expect(caching.cache.stats()).toMatchObject({ requests: 2, hits: 1, misses: 1 });
+  });
+
+  it('declines a challenge against a cached prediction without a call', async () => {
+    const { caching, calls } = client('UP');
+    await caching.analyze('prompt', context());
+    // Creator is UP, so we'd be DOWN against an UP prediction
+    const result = await caching.evaluateAccept('prompt', context(), challenge());
+    expect(result).toMatchObject({ accept: false, confidence: 30 });
+    expect(calls.accept).toBe(0);
+  });
+
+  it('still evaluates a challenge when the cached prediction is NEUTRAL', async () => {
+    const { caching, calls } = client('NEUTRAL');
+    await caching.analyze('prompt', context());
+    const result = await caching.evaluateAccept('prompt', context(), challenge());
+    expect(result.accept).toBe(true);
+    expect(calls.accept).toBe(1);
+  });
+
+  it('asks about each challenge, stake and creator separately', async () => {
+    const { caching, calls } = client('DOWN');
+    await caching.analyze('prompt', context());
+    await caching.evaluateAccept('prompt', context(), challenge());
+    await caching.evaluateAccept('prompt', context(), challenge());
+    expect(calls.accept).toBe(1);
+    await caching.evaluateAccept('prompt', context(), challenge({ amount: '5000000' }));
+    await caching.evaluateAccept('prompt', context(), challenge({ creator: 'carol' }));
+    await caching.evaluateAccept('prompt', context(), challenge({ id: 8 }));
+    expect(calls.accept).toBe(4);
+  });
+});
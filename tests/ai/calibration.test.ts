@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { CalibrationModel, reliabilityTable } from '../../src/ai/calibration';
+import { CalibrationSample } from '../../src/types';
+
+// count battles at a confidence, the first `wins` of them won
+function battles(confidence: number, count: number, wins: number): CalibrationSample[] {
+  return Array.from({ length: count }, (_, i) => ({ confidence, won: i < wins }));
+}
+
+describe('CalibrationModel', () => {
+  it('is the identity until there are enough samples', () => {
+    const model = CalibrationModel.fit(battles(80, 10, 2), 30);
+    expect(model.active).toBe(false);
+    expect(model.calibrate(80)).toBe(80);
+  });
+
+  it('interpolates between the fitted groups and is flat beyond them', () => {
+    const model = CalibrationModel.fit([...battles(60, 10, 3), ...battles(80, 10, 7)], 20);
+    expect(model.active).toBe(true);
+    expect(model.calibrate(60)).toBeCloseTo(35); // (3 + 2 * 0.6) / (10 + 2)
+    expect(model.calibrate(80)).toBeCloseTo(71.67, 1);
+    expect(model.calibrate(70)).toBeCloseTo(53.33, 1);
+    expect(model.calibrate(95)).toBeCloseTo(71.67, 1);
+  });
+
+  it('pools groups so the fit never falls as confidence rises', () => {
+    const model = CalibrationModel.fit([...battles(60, 10, 7), ...battles(80, 10, 3)], 20);
+    expect(model.calibrate(60)).toBeCloseTo(53.33, 1);
+    expect(model.calibrate(90)).toBeCloseTo(53.33, 1);
+  });
+
+  it('keeps a run of losses away from 0%', () => {
+    const model = CalibrationModel.fit(battles(90, 30, 0), 30);
+    expect(model.calibrate(90)).toBeGreaterThan(0);
+  });
+});
+
+describe('reliabilityTable', () => {
+  const samples = [...battles(62, 4, 1), ...battles(85, 4, 3), ...battles(100, 2, 2)];
+  const model = CalibrationModel.fit(samples, 1);
+
+  it('bins the battles by stated confidence', () => {
+    const rows = reliabilityTable(samples, model, 10);
+    expect(rows.map((r) => [r.from, r.to, r.battles, r.winRate])).toEqual([
+      [60, 70, 4, 25],
+      [80, 90, 4, 75],
+      [90, 100, 2, 100],
+    ]);
+  });
+
+  it('rejects bin sizes below one point', () => {
+    expect(() => reliabilityTable(samples, model, 0)).toThrow(/at least 1/);
+    expect(() => reliabilityTable(samples, model, NaN)).toThrow(/at least 1/);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { EnsembleAIClient, EnsembleMember } from '../../src/ai/ensemble';
+import { AIAnalysis, AIClient, EnsembleMode } from '../../src/types';
+
+// A member that always predicts direction at confidence, or fails when direction is null
+function member(name: string, direction: AIAnalysis['direction'] | null, confidence = 70): EnsembleMember {
+  const client: AIClient = {
+    async analyze() {
+      if (!direction) throw new Error('rate limited');
+      return { direction, confidence, reasoning: name, recommendedDuration: 3600, suggestedStake: 2 };
+    },
+    async evaluateAccept() {
+      if (!direction) throw new Error('rate limited');
+      return { accept: direction === 'UP', confidence, reasoning: name };
+    },
+  };
+  return { name, client };
+}
+
+async function predict(mode: EnsembleMode, members: EnsembleMember[]): Promise<AIAnalysis> {
+  return new EnsembleAIClient(members, mode).analyze('prompt');
+}
+
+describe('EnsembleAIClient', () => {
+  it('takes the majority at its voters mean confidence', async () => {
+    const analysis = await predict('majority', [member('a', 'UP', 60), member('b', 'UP', 80), member('c', 'DOWN', 90)]);
+    expect(analysis).toMatchObject({ direction: 'UP', confidence: 70, recommendedDuration: 3600 });
+    expect(analysis.votes).toHaveLength(3);
+  });
+
+  it('is NEUTRAL on a split vote', async () => {
+    const analysis = await predict('majority', [member('a', 'UP'), member('b', 'DOWN')]);
+    expect(analysis).toMatchObject({ direction: 'NEUTRAL', confidence: 0 });
+  });
+
+  it('weights the choice by summed confidence', async () => {
+    const analysis = await predict('weighted', [member('a', 'UP', 60), member('b', 'UP', 60), member('c', 'DOWN', 90)]);
+    // UP has 120 of 210: mean 60 scaled by 120/210
+    expect(analysis).toMatchObject({ direction: 'UP', confidence: 34 });
+  });
+
+  it('needs every member to agree when unanimous, at the lowest confidence', async () => {
+    expect(await predict('unanimous', [member('a', 'DOWN', 65), member('b', 'DOWN', 80)])).toMatchObject({
+      direction: 'DOWN',
+      confidence: 65,
+    });
+    expect((await predict('unanimous', [member('a', 'DOWN'), member('b', null)])).direction).toBe('NEUTRAL');
+  });
+
+  it('records failed members without letting them vote', async () => {
+    const analysis = await predict('majority', [member('a', 'UP'), member('b', null)]);
+    expect(analysis.direction).toBe('UP');
+    expect(analysis.votes?.map((v) => v.vote)).toEqual(['UP', 'error']);
+  });
+
+  it('fails when every member fails', async () => {
+    await expect(predict('majority', [member('a', null)])).rejects.toThrow('All AI ensemble members failed');
+  });
+
+  it('combines accept votes the same way', async () => {
+    const client = new EnsembleAIClient([member('a', 'UP'), member('b', 'UP'), member('c', 'DOWN')], 'majority');
+    expect(await client.evaluateAccept('prompt')).toMatchObject({ accept: true, confidence: 70 });
+  });
+});
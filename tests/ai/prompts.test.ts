@@ -0,0 +1,17 @@
+import { describe, it, expect } from 'vitest';
+import { durationOptions } from '../../src/ai/prompts';
+
+describe('durationOptions', () => {
+  it('offers every preset without a window', () => {
+    expect(durationOptions()).toEqual([300, 600, 1800, 3600, 14400, 86400]);
+  });
+
+  it('keeps the presets inside the window plus both ends', () => {
+    expect(durationOptions({ min: 900, max: 7200 })).toEqual([900, 1800, 3600, 7200]);
+  });
+
+  it('does not repeat an end that is also a preset', () => {
+    expect(durationOptions({ min: 600, max: 3600 })).toEqual([600, 1800, 3600]);
+    expect(durationOptions({ min: 3600, max: 3600 })).toEqual([3600]);
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { PriceSeries } from '../../src/backtest/data';
+
+const series = new PriceSeries([
+  { timestamp: 300, price: 103 },
+  { timestamp: 100, price: 101 },
+  { timestamp: 200, price: 102 },
+  { timestamp: 3700, price: 99 },
+]);
+
+describe('PriceSeries', () => {
+  it('sorts the samples by time', () => {
+    expect(series.samples.map((s) => s.timestamp)).toEqual([100, 200, 300, 3700]);
+    expect(series.start).toBe(100);
+    expect(series.end).toBe(3700);
+  });
+
+  it('finds the last sample at or before a time', () => {
+    expect(series.indexAt(50)).toBe(-1);
+    expect(series.indexAt(200)).toBe(1);
+    expect(series.indexAt(299)).toBe(1);
+    expect(series.indexAt(10_000)).toBe(3);
+  });
+
+  it('prices before the series at its first price', () => {
+    expect(series.priceAt(0)).toBe(101);
+    expect(series.priceAt(250)).toBe(102);
+    expect(new PriceSeries([]).priceAt(100)).toBe(0);
+  });
+
+  it('aggregates samples into candles', () => {
+    expect(series.toCandles(3600)).toEqual([
+      { timestamp: 0, open: 101, high: 103, low: 101, close: 103 },
+      { timestamp: 3600_000, open: 99, high: 99, low: 99, close: 99 },
+    ]);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { BatchItem, transactBatched } from '../../src/blockchain/batch';
+import { Action, TransactResult, Transactor } from '../../src/blockchain/types';
+
+function resolve(id: number): BatchItem<number> {
+  return {
+    key: id,
+    actions: [{ account: 'pricebattle', name: 'resolve', authorization: [], data: { challenge_id: id } }],
+  };
+}
+
+// Fails any transaction that includes a bad id, with the given error
+function transactor(bad: number[], error = 'assertion failure with message: battle not active') {
+  const calls: number[][] = [];
+  const signer: Transactor = {
+    async transact(actions: Action[]): Promise<TransactResult> {
+      const ids = actions.map((a) => a.data.challenge_id as number);
+      calls.push(ids);
+      if (ids.some((id) => bad.includes(id))) throw new Error(error);
+      return { transaction_id: `tx-${ids.join('-')}` } as TransactResult;
+    },
+  };
+  return { signer, calls };
+}
+
+describe('transactBatched', () => {
+  it('packs items into transactions of at most maxActions actions', async () => {
+    const { signer, calls } = transactor([]);
+    const results = await transactBatched(signer, [1, 2, 3, 4, 5].map(resolve), { maxActions: 2 });
+    expect(calls).toEqual([[1, 2], [3, 4], [5]]);
+    expect(results.every((r) => r.success)).toBe(true);
+    expect(results[2].txId).toBe('tx-3-4');
+  });
+
+  it('bisects a failed batch down to the bad item', async () => {
+    const { signer } = transactor([3]);
+    const results = await transactBatched(signer, [1, 2, 3, 4].map(resolve), { maxActions: 10 });
+    expect(results.map((r) => [r.key, r.success])).toEqual([
+      [1, true],
+      [2, true],
+      [3, false],
+      [4, true],
+    ]);
+    expect(results[2].category).toBe('already_resolved');
+  });
+
+  it('does not split batch-wide failures', async () => {
+    const { signer, calls } = transactor([1], 'tx_cpu_usage_exceeded');
+    const results = await transactBatched(signer, [1, 2, 3, 4].map(resolve), { maxActions: 10 });
+    expect(calls).toHaveLength(1);
+    expect(results.every((r) => !r.success && r.category === 'resources_exhausted')).toBe(true);
+  });
+
+  it('drops the items a recheck finds moot and resends the rest at once', async () => {
+    const { signer, calls } = transactor([2, 4]);
+    const results = await transactBatched(signer, [1, 2, 3, 4].map(resolve), { maxActions: 10 }, undefined, async (keys) =>
+      keys.filter((k) => k % 2 === 0)
+    );
+    expect(calls).toEqual([
+      [1, 2, 3, 4],
+      [1, 3],
+    ]);
+    expect(results.map((r) => r.success)).toEqual([true, false, true, false]);
+  });
+});
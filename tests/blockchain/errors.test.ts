@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { ContractError, classifyContractError, errorHandling } from '../../src/blockchain/errors';
+
+// An RpcError from @proton/js: the node's response on .json
+function rpcError(message: string, name: string, details: string[]): Error {
+  return Object.assign(new Error(message), {
+    json: { error: { name, what: message, details: details.map((d) => ({ message: d })) } },
+  });
+}
+
+describe('classifyContractError', () => {
+  it.each([
+    ['assertion failure with message: battle not active', 'already_resolved'],
+    ['assertion failure with message: challenge not open', 'not_open'],
+    ['assertion failure with message: battle has not ended', 'not_ended'],
+    ['assertion failure with message: overdrawn balance', 'insufficient_balance'],
+    ['billed CPU time (1200 us) is greater than the maximum', 'resources_exhausted'],
+    ['expired transaction', 'expired_transaction'],
+    ['duplicate transaction 0a1b', 'duplicate'],
+    ['assertion failure with message: contract is paused', 'paused'],
+    ['fetch failed', 'network'],
+    ['Request failed with status code 503', 'network'],
+    ['502 Bad Gateway', 'network'],
+    ['something else entirely', 'unknown'],
+  ])('classifies "%s" as %s', (message, category) => {
+    expect(classifyContractError(new Error(message)).category).toBe(category);
+  });
+
+  it('does not take a 50x amount or id for an HTTP status', () => {
+    expect(classifyContractError(new Error('stake of 503.0000 XPR rejected')).category).toBe('unknown');
+    expect(classifyContractError(new Error('challenge 502 failed')).category).toBe('unknown');
+  });
+
+  it("reads the node's error name and details", () => {
+    const error = rpcError('Transaction failed', 'eosio_assert_message_exception', [
+      'assertion failure with message: Challenge not open',
+    ]);
+    const classified = classifyContractError(error);
+    expect(classified.category).toBe('not_open');
+    expect(classified.message).toBe('Transaction failed');
+    expect(classified.cause).toBe(error);
+    expect(classifyContractError(rpcError('Transaction failed', 'tx_cpu_usage_exceeded', [])).category).toBe(
+      'resources_exhausted'
+    );
+  });
+
+  it('returns a ContractError as is, with its handling', () => {
+    const error = new ContractError('gone', 'not_open');
+    expect(classifyContractError(error)).toBe(error);
+    expect(error.handling).toBe('skip');
+    expect(errorHandling('network')).toBe('retry');
+    expect(errorHandling('unknown')).toBe('alert');
+  });
+
+  it('classifies thrown non-errors', () => {
+    expect(classifyContractError('ECONNRESET').category).toBe('network');
+  });
+});
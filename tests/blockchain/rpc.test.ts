@@ -0,0 +1,42 @@
+import { describe, it, expect, vi } from 'vitest';
+import { RpcClient, TableRowsResponse } from '../../src/blockchain';
+
+interface Row {
+  id: number;
+}
+
+// Client whose pages come from a fixed list, recording the bounds requested
+function client(pages: TableRowsResponse<Row>[]) {
+  const rpc = new RpcClient(['http://localhost']);
+  const bounds: (string | number | undefined)[] = [];
+  vi.spyOn(rpc, 'getTableRowsPage').mockImplementation(async (params) => {
+    bounds.push(params.lower_bound);
+    return pages[bounds.length - 1] as TableRowsResponse<any>;
+  });
+  return { rpc, bounds };
+}
+
+const params = { scope: 'pricebattle', code: 'pricebattle', table: 'challenges', limit: 2 };
+
+describe('RpcClient.getAllTableRows', () => {
+  it('follows next_key until there are no more pages', async () => {
+    const { rpc, bounds } = client([
+      { rows: [{ id: 1 }, { id: 2 }], more: true, next_key: '3' },
+      { rows: [{ id: 3 }], more: false },
+    ]);
+    const rows = await rpc.getAllTableRows<Row>(params, (r) => r.id);
+    expect(rows.map((r) => r.id)).toEqual([1, 2, 3]);
+    expect(bounds).toEqual([undefined, '3']);
+  });
+
+  it('stops when next_key repeats the current bound and drops duplicate rows', async () => {
+    const { rpc, bounds } = client([
+      { rows: [{ id: 1 }, { id: 2 }], more: true, next_key: '2' },
+      { rows: [{ id: 2 }, { id: 3 }], more: true, next_key: '2' },
+      { rows: [{ id: 4 }], more: false },
+    ]);
+    const rows = await rpc.getAllTableRows<Row>({ ...params, lower_bound: 1, upper_bound: 1 }, (r) => r.id);
+    expect(rows.map((r) => r.id)).toEqual([1, 2, 3]);
+    expect(bounds).toEqual([1, '2']);
+  });
+});
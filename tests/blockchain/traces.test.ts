@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { parseReceipts } from '../../src/blockchain/traces';
+import { ActionTrace, TransactResult } from '../../src/blockchain/types';
+
+function transfer(receiver: string, to: string, quantity: string, memo: string, ordinals?: [number, number]): ActionTrace {
+  return {
+    receiver,
+    act: { account: 'eosio.token', name: 'transfer', data: { from: 'pricebattle', to, quantity, memo } },
+    ...(ordinals && { action_ordinal: ordinals[0], creator_action_ordinal: ordinals[1] }),
+  };
+}
+
+function resolveAction(challengeId: number, ordinals?: [number, number]): ActionTrace {
+  return {
+    receiver: 'pricebattle',
+    act: { account: 'pricebattle', name: 'resolve', data: { resolver: 'bot', challenge_id: challengeId } },
+    ...(ordinals && { action_ordinal: ordinals[0], creator_action_ordinal: ordinals[1] }),
+  };
+}
+
+function result(action_traces: ActionTrace[]): TransactResult {
+  return { transaction_id: 'tx', processed: { action_traces } } as TransactResult;
+}
+
+describe('parseReceipts', () => {
+  it('reads transfers to us from a flat trace list, counting each once', () => {
+    const receipts = parseReceipts(
+      result([
+        resolveAction(7, [1, 0]),
+        transfer('eosio.token', 'bot', '2.0000 XPR', 'Resolver reward', [2, 1]),
+        transfer('pricebattle', 'bot', '2.0000 XPR', 'Resolver reward', [3, 2]),
+        transfer('bot', 'bot', '2.0000 XPR', 'Resolver reward', [4, 2]),
+        transfer('eosio.token', 'alice', '190.0000 XPR', 'Battle payout', [5, 1]),
+      ]),
+      'bot'
+    );
+    expect(receipts).toEqual([
+      { challengeId: 7, action: 'resolve', kind: 'resolver_reward', amount: 2, memo: 'Resolver reward' },
+    ]);
+  });
+
+  it('reads nested inline traces and classifies an unlabelled resolve transfer by whose battle it is', () => {
+    const nested = (id: number): ActionTrace => ({
+      ...resolveAction(id),
+      inline_traces: [transfer('eosio.token', 'bot', '190.0000 XPR', '')],
+    });
+    const receipts = parseReceipts(result([nested(7), nested(8)]), 'bot', (id) => id === 7);
+    expect(receipts.map((r) => [r.challengeId, r.kind, r.amount])).toEqual([
+      [7, 'payout', 190],
+      [8, 'resolver_reward', 190],
+    ]);
+  });
+
+  it('counts a winner memo that mentions resolving as our payout', () => {
+    const resolvedByAlice: ActionTrace = {
+      receiver: 'pricebattle',
+      act: { account: 'pricebattle', name: 'resolve', data: { resolver: 'alice', challenge_id: 7 } },
+      inline_traces: [transfer('eosio.token', 'bot', '190.0000 XPR', 'Battle resolved - you won')],
+    };
+    const receipts = parseReceipts(result([resolvedByAlice]), 'bot', (id) => id === 7);
+    expect(receipts.map((r) => r.kind)).toEqual(['payout']);
+  });
+
+  it('tells our resolver reward from our payout when we resolved our own battle', () => {
+    const ownBattle = (memos: [string, string]): ActionTrace => ({
+      ...resolveAction(7),
+      inline_traces: [
+        transfer('eosio.token', 'bot', '190.0000 XPR', memos[0]),
+        transfer('eosio.token', 'bot', '4.0000 XPR', memos[1]),
+      ],
+    });
+    const kinds = (memos: [string, string]) =>
+      parseReceipts(result([ownBattle(memos)]), 'bot', () => true).map((r) => [r.amount, r.kind]);
+
+    expect(kinds(['Battle resolved - you won', 'Resolver reward'])).toEqual([
+      [190, 'payout'],
+      [4, 'resolver_reward'],
+    ]);
+    expect(kinds(['', ''])).toEqual([
+      [190, 'payout'],
+      [4, 'resolver_reward'],
+    ]);
+  });
+
+  it('counts a transfer from expiring our own challenge as a refund', () => {
+    const expire: ActionTrace = {
+      receiver: 'pricebattle',
+      act: { account: 'pricebattle', name: 'expire', data: { challenge_id: 9 } },
+      inline_traces: [transfer('eosio.token', 'bot', '100.0000 XPR', 'Challenge expired')],
+    };
+    expect(parseReceipts(result([expire]), 'bot', (id) => id === 9)[0].kind).toBe('refund');
+  });
+
+  it('is empty without traces', () => {
+    expect(parseReceipts({ transaction_id: 'dry-run' } as TransactResult, 'bot')).toEqual([]);
+  });
+});
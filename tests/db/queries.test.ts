@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { DatabaseQueries, IN_MEMORY, initDatabase } from '../../src/db';
+import { AIVote, DIRECTION, ORACLE } from '../../src/types';
+
+let db: DatabaseQueries;
+
+beforeEach(async () => {
+  db = new DatabaseQueries(await initDatabase(IN_MEMORY), IN_MEMORY);
+});
+
+// A create on challengeId in direction, with the members' votes, settled with outcome
+function created(challengeId: number, direction: string, votes: Record<string, string>, outcome?: string): void {
+  const ballots: AIVote[] = Object.entries(votes).map(([member, vote]) => ({ member, vote, confidence: 70 }));
+  db.logDecision({ challengeId, action: 'create', direction, votes: ballots });
+  if (outcome) {
+    db.recordSettlement({ challengeId, role: 'creator', outcome, stake: 100, payout: 0, pnl: 0 });
+  }
+}
+
+describe('getModelVoteStats', () => {
+  it('counts a vote as correct only when its side matches the outcome', () => {
+    created(1, 'UP', { a: 'UP', b: 'DOWN', c: 'NEUTRAL' }, 'win');
+    created(2, 'UP', { a: 'UP', b: 'DOWN', c: 'NEUTRAL' }, 'loss');
+
+    const stats = Object.fromEntries(db.getModelVoteStats().map((m) => [m.member, m]));
+    expect(stats.a).toMatchObject({ settled: 2, neutral: 0, correct: 1, backedWins: 1, backedLosses: 1 });
+    expect(stats.b).toMatchObject({ settled: 2, neutral: 0, correct: 1, backedWins: 0, backedLosses: 0 });
+    expect(stats.c).toMatchObject({ settled: 0, neutral: 2, correct: 0 });
+  });
+
+  it('counts accept and reject votes as for and against our side', () => {
+    const votes: AIVote[] = [
+      { member: 'a', vote: 'accept' },
+      { member: 'b', vote: 'reject' },
+      { member: 'c', vote: 'error', error: 'timeout' },
+    ];
+    db.logDecision({ challengeId: 3, action: 'accept', direction: 'DOWN', votes });
+    db.recordSettlement({ challengeId: 3, role: 'opponent', outcome: 'loss', stake: 100, payout: 0, pnl: -100 });
+
+    const stats = Object.fromEntries(db.getModelVoteStats().map((m) => [m.member, m]));
+    expect(stats.a).toMatchObject({ votes: 1, settled: 1, correct: 0, backedLosses: 1 });
+    expect(stats.b).toMatchObject({ votes: 1, settled: 1, correct: 1 });
+    expect(stats.c).toMatchObject({ votes: 1, errors: 1, settled: 0 });
+  });
+});
+
+describe('linkCreateDecision', () => {
+  const now = () => Math.floor(Date.now() / 1000);
+
+  it('links the signed create on the same feed and direction', () => {
+    db.logDecision({ action: 'create', direction: 'UP', oracleIndex: ORACLE.BTC_USD, txId: 'btc' });
+    db.logDecision({ action: 'create', direction: 'UP', oracleIndex: ORACLE.ETH_USD, txId: 'eth' });
+    db.logDecision({ action: 'create', direction: 'DOWN', oracleIndex: ORACLE.BTC_USD, txId: 'btc-down' });
+
+    db.linkCreateDecision({ id: 7, created_at: now(), oracle_index: ORACLE.BTC_USD, direction: DIRECTION.UP });
+
+    const linked = db.getRecentDecisions().filter((d) => d.challenge_id === 7);
+    expect(linked.map((d) => d.tx_id)).toEqual(['btc']);
+  });
+
+  it('leaves a challenge unlinked when no create matches it', () => {
+    db.logDecision({ action: 'create', direction: 'UP', oracleIndex: ORACLE.ETH_USD, txId: 'eth' });
+    db.logDecision({ action: 'create', direction: 'UP', oracleIndex: ORACLE.BTC_USD, txId: 'old' });
+
+    db.linkCreateDecision({ id: 8, created_at: now() + 3600, oracle_index: ORACLE.BTC_USD, direction: DIRECTION.UP });
+    db.linkCreateDecision({ id: 9, created_at: now(), oracle_index: ORACLE.XPR_USD, direction: DIRECTION.UP });
+
+    expect(db.getRecentDecisions().every((d) => d.challenge_id === null)).toBe(true);
+  });
+});
+
+describe('paper settlements', () => {
+  it('are read apart from live results', () => {
+    db.recordSettlement({ challengeId: 1, role: 'creator', outcome: 'win', stake: 100, payout: 190, pnl: 90, confidence: 70 });
+    db.incrementWin(90);
+    db.recordSettlement({ challengeId: -1, role: 'creator', outcome: 'loss', stake: 50, payout: 0, pnl: -50, confidence: 80, paper: true });
+    db.recordSettlement({ challengeId: -2, role: 'opponent', outcome: 'win', stake: 20, payout: 38, pnl: 18, paper: true });
+
+    expect(db.getPerformance()).toMatchObject({ wins: 1, losses: 0, totalWon: 90, totalLost: 0 });
+    expect(db.getPerformance(undefined, true)).toMatchObject({ wins: 1, losses: 1, totalWon: 18, totalLost: 50 });
+    expect(db.getCalibrationSamples()).toEqual([{ confidence: 70, won: true }]);
+    expect(db.getCalibrationSamples(true)).toEqual([{ confidence: 80, won: false }]);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ChallengeService, ChallengeSnapshot } from '../../src/services/challenges';
+import { RpcClient } from '../../src/blockchain';
+import { DatabaseQueries } from '../../src/db';
+
+function snapshot(label: number): ChallengeSnapshot {
+  return { open: [], active: [], ours: [], fetchedAt: Date.now(), label } as unknown as ChallengeSnapshot;
+}
+
+// Service whose snapshot fetches wait until released, in order
+function service() {
+  const challenges = new ChallengeService({} as RpcClient, {} as DatabaseQueries, 'bot');
+  const releases: (() => void)[] = [];
+  let fetches = 0;
+  vi.spyOn(challenges as any, 'fetchSnapshot').mockImplementation(() => {
+    const label = ++fetches;
+    return new Promise<ChallengeSnapshot>((resolve) => releases.push(() => resolve(snapshot(label))));
+  });
+  return { challenges, releases, fetches: () => fetches };
+}
+
+const label = (s: ChallengeSnapshot) => (s as unknown as { label: number }).label;
+
+describe('ChallengeService snapshot', () => {
+  it('shares one fetch between concurrent callers and caches it', async () => {
+    const { challenges, releases, fetches } = service();
+    const first = challenges.getSnapshot();
+    const second = challenges.getSnapshot();
+    releases[0]();
+    expect(label(await first)).toBe(1);
+    expect(label(await second)).toBe(1);
+    expect(label(await challenges.getSnapshot())).toBe(1);
+    expect(fetches()).toBe(1);
+  });
+
+  it('does not cache a fetch that was in flight when invalidated', async () => {
+    const { challenges, releases, fetches } = service();
+    const stale = challenges.getSnapshot();
+    challenges.invalidateSnapshot();
+
+    const fresh = challenges.getSnapshot();
+    expect(fetches()).toBe(2);
+    releases[0]();
+    expect(label(await stale)).toBe(1);
+
+    releases[1]();
+    expect(label(await fresh)).toBe(2);
+    expect(label(await challenges.getSnapshot())).toBe(2);
+    expect(fetches()).toBe(2);
+  });
+});
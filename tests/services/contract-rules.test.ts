@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { ContractRulesService } from '../../src/services/contract-rules';
+import { ChallengeService } from '../../src/services/challenges';
+import { ORACLE, PriceBattleConfig } from '../../src/types';
+
+const CONFIG: PriceBattleConfig = {
+  paused: false,
+  fee_percent: 3,
+  resolver_percent: 2,
+  min_stake: '1000000',
+  max_stake: '100000000',
+  min_duration: 3600,
+  max_duration: 604800,
+  challenge_expiry: 3600,
+  min_price_move_bps: 10,
+  treasury: 'treasury',
+};
+
+const rules = () => new ContractRulesService({ getConfig: async () => CONFIG } as unknown as ChallengeService);
+const create = { stake: 500, duration: 14400, oracleIndex: ORACLE.BTC_USD };
+
+describe('ContractRulesService.checkCreate', () => {
+  it('passes a create within the limits whose expected move clears the minimum', async () => {
+    expect(await rules().checkCreate({ ...create, volatility24h: 2 })).toEqual({ ok: true, violations: [] });
+  });
+
+  it('refuses a create whose expected move would settle as a tie', async () => {
+    // 0.2% daily range over 4h is about 8 bps, under the 10 bps minimum
+    const check = await rules().checkCreate({ ...create, volatility24h: 0.2 });
+    expect(check.ok).toBe(false);
+    expect(check.violations).toEqual([expect.stringContaining('10 bps minimum')]);
+  });
+
+  it('skips the move check without volatility', async () => {
+    expect((await rules().checkCreate(create)).ok).toBe(true);
+  });
+});
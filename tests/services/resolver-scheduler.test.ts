@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ResolverScheduler } from '../../src/services/resolver-scheduler';
+import { ResolverService } from '../../src/services/resolver';
+import { ChallengeService } from '../../src/services/challenges';
+import { setClock } from '../../src/utils';
+import { BATTLE_STATUS, Challenge, ContractErrorCategory, DIRECTION, ORACLE, ResolveResult } from '../../src/types';
+
+function battle(id: number, endsInSeconds: number): Challenge {
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    id,
+    creator: 'alice',
+    opponent: 'bob',
+    amount: '1000000',
+    direction: DIRECTION.UP,
+    oracle_index: ORACLE.BTC_USD,
+    duration: 3600,
+    start_price: '100',
+    end_price: '0',
+    created_at: now - 3600,
+    started_at: now + endsInSeconds - 3600,
+    expires_at: 0,
+    status: BATTLE_STATUS.ACTIVE,
+    winner: '',
+  };
+}
+
+// Resolver whose resolves fail with the given categories, in turn, then succeed
+function resolver(failures: (ContractErrorCategory | undefined)[]) {
+  const calls: number[][] = [];
+  const service = {
+    async resolveMany(challenges: Challenge[]): Promise<ResolveResult[]> {
+      calls.push(challenges.map((c) => c.id));
+      const failure = failures.shift();
+      return challenges.map((c) =>
+        failure ? { challengeId: c.id, success: false, error: failure, category: failure } : { challengeId: c.id, success: true }
+      );
+    },
+  } as unknown as ResolverService;
+  return { service, calls };
+}
+
+async function advance(ms: number): Promise<void> {
+  await vi.advanceTimersByTimeAsync(ms);
+}
+
+describe('ResolverScheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(1_700_000_000_000);
+    setClock(() => Date.now());
+  });
+
+  afterEach(() => {
+    setClock(null);
+    vi.useRealTimers();
+  });
+
+  it('resolves battles that end together in one submit', async () => {
+    const { service, calls } = resolver([]);
+    const scheduler = new ResolverScheduler(service, {} as ChallengeService, undefined, 500);
+    scheduler.schedule(battle(1, 60));
+    scheduler.schedule(battle(2, 60));
+    expect(scheduler.scheduled).toBe(2);
+
+    await advance(60_000);
+    expect(calls).toEqual([]);
+    await advance(600);
+    expect(calls).toEqual([[1, 2]]);
+    expect(scheduler.scheduled).toBe(0);
+  });
+
+  it('re-arms retryable failures with backoff and gives up after a few', async () => {
+    const { service, calls } = resolver(['network', 'network', 'network', 'network', 'network']);
+    const scheduler = new ResolverScheduler(service, {} as ChallengeService, undefined, 0);
+    scheduler.schedule(battle(1, 0));
+
+    await advance(100);
+    expect(calls).toHaveLength(1);
+    await advance(2000);
+    expect(calls).toHaveLength(2);
+    await advance(4000);
+    expect(calls).toHaveLength(3);
+    await advance(8000);
+    expect(calls).toHaveLength(4);
+    await advance(16_000);
+    expect(calls).toHaveLength(5);
+    await advance(60_000);
+    expect(calls).toHaveLength(5);
+    expect(scheduler.scheduled).toBe(0);
+  });
+
+  it('does not re-arm moot or alerting failures', async () => {
+    const { service, calls } = resolver(['already_resolved']);
+    const scheduler = new ResolverScheduler(service, {} as ChallengeService, undefined, 0);
+    scheduler.schedule(battle(1, 0));
+    await advance(10_000);
+    expect(calls).toHaveLength(1);
+    expect(scheduler.scheduled).toBe(0);
+  });
+
+  it('waits out end times beyond the longest timer', async () => {
+    const { service, calls } = resolver([]);
+    const scheduler = new ResolverScheduler(service, {} as ChallengeService, undefined, 0);
+    const days = 30;
+    scheduler.schedule({ ...battle(1, 0), duration: days * 86400 });
+
+    await advance(1000);
+    expect(calls).toEqual([]);
+    await advance(days * 86_400_000);
+    expect(calls).toEqual([[1]]);
+  });
+});
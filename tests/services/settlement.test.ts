@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { computeSettlement } from '../../src/services/settlement';
+import { BATTLE_STATUS, Challenge, DIRECTION, ORACLE } from '../../src/types';
+
+const TERMS = { fee_percent: 3, resolver_percent: 2 };
+
+function battle(overrides: Partial<Challenge> = {}): Challenge {
+  return {
+    id: 7,
+    creator: 'alice',
+    opponent: 'bob',
+    amount: '1000000', // 100 XPR
+    direction: DIRECTION.UP,
+    oracle_index: ORACLE.BTC_USD,
+    duration: 3600,
+    start_price: '100',
+    end_price: '101',
+    created_at: 1000,
+    started_at: 1100,
+    expires_at: 4600,
+    status: BATTLE_STATUS.RESOLVED,
+    winner: 'alice',
+    ...overrides,
+  };
+}
+
+describe('computeSettlement', () => {
+  it('pays the winner the pot less the fee and resolver cut', () => {
+    const result = computeSettlement(battle(), 'alice', TERMS);
+    expect(result).toMatchObject({ challengeId: 7, role: 'creator', outcome: 'win', stake: 100 });
+    expect(result!.payout).toBeCloseTo(190);
+    expect(result!.pnl).toBeCloseTo(90);
+  });
+
+  it('loses the stake for the other side', () => {
+    expect(computeSettlement(battle(), 'bob', TERMS)).toEqual({
+      challengeId: 7,
+      role: 'opponent',
+      outcome: 'loss',
+      stake: 100,
+      payout: 0,
+      pnl: -100,
+    });
+  });
+
+  it('refunds both stakes on a tie', () => {
+    const result = computeSettlement(battle({ status: BATTLE_STATUS.TIE, winner: '' }), 'bob', TERMS);
+    expect(result).toMatchObject({ outcome: 'tie', payout: 100, pnl: 0 });
+  });
+
+  it('ignores battles that are not ours or not finished', () => {
+    expect(computeSettlement(battle(), 'carol', TERMS)).toBeNull();
+    expect(computeSettlement(battle({ status: BATTLE_STATUS.ACTIVE, winner: '' }), 'alice', TERMS)).toBeNull();
+  });
+});
@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { createStrategy, StrategyDependencies } from '../../src/strategies';
+import { ResolverService } from '../../src/services';
+
+const deps = { resolverService: {} as ResolverService } as StrategyDependencies;
+
+describe('createStrategy', () => {
+  it('starts the resolver with parameters meant for a trading mode', () => {
+    expect(createStrategy('resolver', deps, { minCreateConfidence: 80 }).name).toBe('Resolver Only');
+  });
+
+  it('rejects invalid parameters for a trading mode', () => {
+    expect(() => createStrategy('passive', deps, { minCreateConfidence: 'high' })).toThrow(
+      'Invalid parameters for strategy "passive"'
+    );
+  });
+
+  it('rejects unknown modes', () => {
+    expect(() => createStrategy('yolo', deps, {})).toThrow('Unknown bot mode: yolo');
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { ConfidenceCalibrator, transactionRetry } from '../../src/strategies/shared';
+import { AIConfig, CalibrationSample } from '../../src/types';
+import { DatabaseQueries } from '../../src/db';
+
+function calibrator(samples: CalibrationSample[], calibration: AIConfig['calibration']): ConfidenceCalibrator {
+  const db = { getCalibrationSamples: () => samples } as unknown as DatabaseQueries;
+  return new ConfidenceCalibrator({ calibration } as AIConfig, db);
+}
+
+const coinFlips = Array.from({ length: 40 }, (_, i) => ({ confidence: 75, won: i % 2 === 0 }));
+
+describe('ConfidenceCalibrator', () => {
+  it('passes the stated confidence through when calibration is off', () => {
+    const c = calibrator(coinFlips, { method: 'off', minSamples: 30 });
+    expect(c.calibrate(75)).toBe(75);
+  });
+
+  it('calibrates against settled battles', () => {
+    const c = calibrator(coinFlips, { method: 'isotonic', minSamples: 30 });
+    expect(c.calibrate(75)).toBeCloseTo(51.2, 1);
+  });
+});
+
+describe('transactionRetry', () => {
+  const retries = (idempotent: boolean, message: string) =>
+    transactionRetry(undefined, idempotent).shouldRetry!(new Error(message));
+
+  it('retries transactions that never ran', () => {
+    expect(retries(false, 'expired transaction')).toBe(true);
+    expect(retries(false, 'tx_cpu_usage_exceeded')).toBe(true);
+  });
+
+  it('retries network errors only for actions that cannot land twice', () => {
+    expect(retries(true, 'fetch failed')).toBe(true);
+    expect(retries(false, 'fetch failed')).toBe(false);
+  });
+
+  it('does not retry moot or unknown failures', () => {
+    expect(retries(true, 'challenge not open')).toBe(false);
+    expect(retries(true, 'overdrawn balance')).toBe(false);
+  });
+});
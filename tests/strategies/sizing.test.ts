@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { MIN_STAKE, maxStake, netOdds, sizeAccept, sizeForRisk, sizeStake } from '../../src/strategies/sizing';
+import { RiskConfig } from '../../src/types';
+
+const TERMS = { fee_percent: 3, resolver_percent: 2 };
+const OPTIONS = { kellyFraction: 0.25, minEdgePercent: 2, maxPercent: 10 };
+const RISK: RiskConfig = {
+  maxPercentPerChallenge: 10,
+  maxConcurrentChallenges: 5,
+  minBalanceReserve: 1000,
+  maxDailyLoss: 500,
+  kellyFraction: 0.25,
+  minEdgePercent: 2,
+};
+
+describe('netOdds', () => {
+  it('is the profit per XPR on a win after the fee and resolver cut', () => {
+    expect(netOdds(TERMS)).toBeCloseTo(0.9);
+    expect(netOdds({ fee_percent: 0, resolver_percent: 0 })).toBe(1);
+  });
+});
+
+describe('sizeStake', () => {
+  it('needs more than breakeven to trade', () => {
+    // Breakeven at 0.9 odds is 1 / 1.9, about 52.6%
+    const sizing = sizeStake(52, TERMS, OPTIONS);
+    expect(sizing.expectedValue).toBeLessThan(0);
+    expect(sizing).toMatchObject({ tradable: false, stakePercent: 0 });
+  });
+
+  it('bets a fraction of the Kelly stake with an edge', () => {
+    const sizing = sizeStake(60, TERMS, OPTIONS);
+    expect(sizing.expectedValue).toBeCloseTo(14); // 0.6 * 0.9 - 0.4
+    expect(sizing.kellyPercent).toBeCloseTo(15.56, 1); // 0.6 - 0.4 / 0.9
+    expect(sizing.tradable).toBe(true);
+    expect(sizing.stakePercent).toBeCloseTo(3.89, 1);
+  });
+
+  it('caps the stake and requires the minimum edge', () => {
+    expect(sizeStake(90, TERMS, OPTIONS).stakePercent).toBe(10);
+    const thin = sizeStake(53.5, TERMS, OPTIONS); // EV 1.65%
+    expect(thin.expectedValue).toBeGreaterThan(0);
+    expect(thin.tradable).toBe(false);
+  });
+});
+
+describe('maxStake', () => {
+  it('is the Kelly share of the balance, at least the minimum stake', () => {
+    const sizing = sizeStake(60, TERMS, OPTIONS);
+    expect(maxStake(sizing, 10_000)).toBe(388);
+    expect(maxStake(sizing, 1000)).toBe(MIN_STAKE);
+    expect(maxStake(sizing, 50)).toBe(0);
+    expect(maxStake(sizeStake(50, TERMS, OPTIONS), 10_000)).toBe(0);
+  });
+});
+
+describe('sizeForRisk', () => {
+  it('needs the contract terms', () => {
+    expect(() => sizeForRisk(60, null, RISK, 10)).toThrow('PriceBattle config not found');
+  });
+});
+
+describe('sizeAccept', () => {
+  it('takes a stake within the Kelly size of the balance above the reserve', () => {
+    expect(sizeAccept(60, 300, 11_000, TERMS, RISK).reason).toBeUndefined();
+  });
+
+  it('declines without an edge or above the Kelly size', () => {
+    expect(sizeAccept(50, 100, 11_000, TERMS, RISK).reason).toBe('expected value too low');
+    expect(sizeAccept(60, 500, 11_000, TERMS, RISK).reason).toBe('stake above Kelly size');
+  });
+});